@@ -1,5 +1,8 @@
 import { describe, it, beforeEach, afterEach, mock } from 'node:test';
 import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // ---------------------------------------------------------------------------
 // CJS cache mocking: inject fake module exports into require.cache
@@ -26,6 +29,8 @@ require.cache[require.resolve('@actions/core')] = {
 		},
 		setOutput: mockSetOutput,
 		summary: { addRaw: mockAddRaw },
+		isDebug: () => false,
+		debug: () => undefined,
 	},
 } as any;
 
@@ -45,14 +50,34 @@ require.cache[require.resolve('@actions/github')] = {
 // Mock GitHubClient
 const mockGetMergedPRs = mock.fn(async () => [] as any[]);
 const mockGetReviewsForPRs = mock.fn(async () => new Map());
-const mockGetReviewsAndSizes = mock.fn(async () => ({ reviewsByPR: new Map(), sizesByPR: new Map() }));
+const mockGetReviewsAndSizes = mock.fn(async () => ({ reviewsByPR: new Map(), sizesByPR: new Map(), draftEventsByPR: new Map() }));
 const mockGetOpenPRs = mock.fn(async () => 0);
 const mockPostIssueComment = mock.fn(async () => undefined);
 const mockGetPRDetails = mock.fn(async () => new Map());
 const mockGetWorkflowRuns = mock.fn(async () => null);
 const mockGetDeployments = mock.fn(async () => []);
+const mockGetDeploymentStates = mock.fn(async (..._args: any[]) => new Map<number, string>());
+const mockGetIncidents = mock.fn(async (..._args: any[]) => [] as any[]);
 const mockGetReleases = mock.fn(async () => []);
 const mockGetFirstCommitDates = mock.fn(async () => new Map());
+const mockGetMergedPRsQueryCount = mock.fn(() => 1);
+const mockUseCache = mock.fn();
+const mockListOwnerRepositories = mock.fn(async () => [] as any[]);
+const mockListDirectory = mock.fn(async () => [] as string[]);
+const mockGetFileContent = mock.fn(async () => null as { content: string; sha: string } | null);
+const mockWriteFile = mock.fn(async () => undefined);
+const mockEnsureBranch = mock.fn(async () => undefined);
+const mockGetProjectIterations = mock.fn(async () => ({ field: 'Iteration', iterations: [] as any[] }));
+const mockGetIterationPullRequests = mock.fn(async () => new Map<string, Set<string>>());
+const mockGetMilestones = mock.fn(async () => [] as any[]);
+const mockGetMilestonePullRequests = mock.fn(async () => [] as number[]);
+const mockGetLatestReleases = mock.fn(async () => [] as any[]);
+const mockCompareRefs = mock.fn(async (..._args: any[]) => ({ mergeBaseDate: new Date(), headDate: new Date(), shas: new Set<string>() }));
+const mockGetMergeCommitShas = mock.fn(async () => new Map<number, string>());
+const mockGetRequestStats = mock.fn(() => ({
+	requests: 0, retries: 0, failures: 0, concurrency: 10,
+	rateLimitRemaining: null, rateLimitLimit: null, rateLimitReset: null,
+}));
 
 // Resolve the .ts path for our own module (tsx handles .ts resolution)
 const ghClientPath = require.resolve('../github-client');
@@ -65,6 +90,22 @@ require.cache[ghClientPath] = {
 	paths: [],
 	exports: {
 		GitHubClient: class MockGitHubClient {
+			constructor(public token: string, public owner: string, public repo: string) {}
+			forRepository(owner: string, repo: string) {
+				return new MockGitHubClient('', owner, repo);
+			}
+			listOwnerRepositories = mockListOwnerRepositories;
+			listDirectory = mockListDirectory;
+			getFileContent = mockGetFileContent;
+			writeFile = mockWriteFile;
+			ensureBranch = mockEnsureBranch;
+			getProjectIterations = mockGetProjectIterations;
+			getIterationPullRequests = mockGetIterationPullRequests;
+			getMilestones = mockGetMilestones;
+			getMilestonePullRequests = mockGetMilestonePullRequests;
+			getLatestReleases = mockGetLatestReleases;
+			compareRefs = mockCompareRefs;
+			getMergeCommitShas = mockGetMergeCommitShas;
 			getMergedPRs = mockGetMergedPRs;
 			getReviewsForPRs = mockGetReviewsForPRs;
 			getReviewsAndSizes = mockGetReviewsAndSizes;
@@ -73,8 +114,13 @@ require.cache[ghClientPath] = {
 			getPRDetails = mockGetPRDetails;
 			getWorkflowRuns = mockGetWorkflowRuns;
 			getDeployments = mockGetDeployments;
+			getDeploymentStates = mockGetDeploymentStates;
+			getIncidents = mockGetIncidents;
 			getReleases = mockGetReleases;
 			getFirstCommitDates = mockGetFirstCommitDates;
+			getMergedPRsQueryCount = mockGetMergedPRsQueryCount;
+			useCache = mockUseCache;
+			getRequestStats = mockGetRequestStats;
 		},
 	},
 } as any;
@@ -110,10 +156,18 @@ const ALL_ENV_KEYS = [
 	'INPUT_CYCLE_TIME_WARNING_HOURS', 'INPUT_CYCLE_TIME_CRITICAL_HOURS',
 	'INPUT_REVIEW_WARNING_HOURS', 'INPUT_REVIEW_CRITICAL_HOURS',
 	'INPUT_WIP_WARNING_RATIO', 'INPUT_WIP_CRITICAL_RATIO',
+	'INPUT_CACHE_PATH', 'INPUT_CACHE_REFRESH',
+	'INPUT_RECORD_PATH', 'INPUT_REPLAY_PATH',
+	'INPUT_REPOSITORIES', 'INPUT_REPOSITORY_TOPIC', 'INPUT_COMPARE_PREVIOUS', 'INPUT_COMPARE-PREVIOUS',
+	'INPUT_HISTORY_BRANCH', 'INPUT_HISTORY_PATH', 'INPUT_HISTORY_LIMIT', 'INPUT_HISTORY-BRANCH',
+	'INPUT_TREND-CHARTS', 'INPUT_CYCLE_TIME_START', 'INPUT_CYCLE-TIME-START',
+	'INPUT_WORKING-DAYS', 'INPUT_WORKING-HOURS', 'INPUT_TIMEZONE', 'INPUT_HOLIDAYS',
+	'INPUT_PERIOD', 'INPUT_PERIOD-START', 'INPUT_PERIOD-END', 'INPUT_SPRINT-ANCHOR', 'INPUT_CURRENT-PERIOD',
+	'INPUT_PROJECT', 'INPUT_ITERATION-FIELD', 'INPUT_LINKED-PRS-ONLY', 'INPUT_FROM-TAG', 'INPUT_TO-TAG',
 	'INPUT_GITHUB-TOKEN', 'INPUT_SPRINT-LENGTH-DAYS',
 	'INPUT_POST-AS', 'INPUT_ISSUE-NUMBER',
 	'INPUT_AURORA-API-KEY', 'INPUT_AURORA-TEAM-ID',
-	'INPUT_WORKFLOW-FILTER', 'INPUT_DEPLOYMENT-ENVIRONMENT',
+	'INPUT_WORKFLOW-FILTER', 'INPUT_DEPLOYMENT-ENVIRONMENT', 'INPUT_INCIDENT-LABELS',
 	'INPUT_CYCLE-TIME-WARNING-HOURS', 'INPUT_CYCLE-TIME-CRITICAL-HOURS',
 	'INPUT_REVIEW-WARNING-HOURS', 'INPUT_REVIEW-CRITICAL-HOURS',
 	'INPUT_WIP-WARNING-RATIO', 'INPUT_WIP-CRITICAL-RATIO',
@@ -138,8 +192,25 @@ function resetMocks() {
 	mockGetPRDetails.mock.resetCalls();
 	mockGetWorkflowRuns.mock.resetCalls();
 	mockGetDeployments.mock.resetCalls();
+	mockGetDeploymentStates.mock.resetCalls();
+	mockGetIncidents.mock.resetCalls();
 	mockGetReleases.mock.resetCalls();
 	mockGetFirstCommitDates.mock.resetCalls();
+	mockGetMergedPRsQueryCount.mock.resetCalls();
+	mockUseCache.mock.resetCalls();
+	mockListOwnerRepositories.mock.resetCalls();
+	mockListDirectory.mock.resetCalls();
+	mockGetFileContent.mock.resetCalls();
+	mockWriteFile.mock.resetCalls();
+	mockEnsureBranch.mock.resetCalls();
+	mockGetProjectIterations.mock.resetCalls();
+	mockGetIterationPullRequests.mock.resetCalls();
+	mockGetMilestones.mock.resetCalls();
+	mockGetMilestonePullRequests.mock.resetCalls();
+	mockGetLatestReleases.mock.resetCalls();
+	mockCompareRefs.mock.resetCalls();
+	mockGetMergeCommitShas.mock.resetCalls();
+	mockGetRequestStats.mock.resetCalls();
 	mockSetOutput.mock.resetCalls();
 	mockAddRaw.mock.resetCalls();
 	mockWrite.mock.resetCalls();
@@ -147,14 +218,28 @@ function resetMocks() {
 
 	mockGetMergedPRs.mock.mockImplementation(async () => []);
 	mockGetReviewsForPRs.mock.mockImplementation(async () => new Map());
-	mockGetReviewsAndSizes.mock.mockImplementation(async () => ({ reviewsByPR: new Map(), sizesByPR: new Map() }));
+	mockGetReviewsAndSizes.mock.mockImplementation(async () => ({ reviewsByPR: new Map(), sizesByPR: new Map(), draftEventsByPR: new Map() }));
 	mockGetOpenPRs.mock.mockImplementation(async () => 0);
 	mockPostIssueComment.mock.mockImplementation(async () => undefined);
 	mockGetPRDetails.mock.mockImplementation(async () => new Map());
 	mockGetWorkflowRuns.mock.mockImplementation(async () => null);
 	mockGetDeployments.mock.mockImplementation(async () => []);
+	mockGetDeploymentStates.mock.mockImplementation(async () => new Map());
+	mockGetIncidents.mock.mockImplementation(async () => []);
 	mockGetReleases.mock.mockImplementation(async () => []);
 	mockGetFirstCommitDates.mock.mockImplementation(async () => new Map());
+	mockGetMergedPRsQueryCount.mock.mockImplementation(() => 1);
+	mockListOwnerRepositories.mock.mockImplementation(async () => []);
+	mockListDirectory.mock.mockImplementation(async () => []);
+	mockGetFileContent.mock.mockImplementation(async () => null);
+	mockWriteFile.mock.mockImplementation(async () => undefined);
+	mockGetProjectIterations.mock.mockImplementation(async () => ({ field: 'Iteration', iterations: [] }));
+	mockGetIterationPullRequests.mock.mockImplementation(async () => new Map());
+	mockGetMilestones.mock.mockImplementation(async () => []);
+	mockGetMilestonePullRequests.mock.mockImplementation(async () => []);
+	mockGetLatestReleases.mock.mockImplementation(async () => []);
+	mockCompareRefs.mock.mockImplementation(async () => ({ mergeBaseDate: new Date(), headDate: new Date(), shas: new Set() }));
+	mockGetMergeCommitShas.mock.mockImplementation(async () => new Map());
 	mockFetch.mock.mockImplementation(async () => ({ ok: true, text: async () => '' }));
 }
 
@@ -192,6 +277,22 @@ describe('run — empty sprint', () => {
 		);
 	});
 
+	it('sets unknown DORA band outputs for the empty period', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		await run();
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		for (const key of ['', '-deployment-frequency', '-lead-time', '-change-failure-rate', '-time-to-restore']) {
+			assert.strictEqual(outputs.get(`dora${key}-band`), 'unknown', key);
+		}
+	});
+
+	it('names the period in the card title', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true', INPUT_PERIOD: 'quarter' });
+		await run();
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1] as string;
+		assert.match(card, /Sprint Health — Q[1-4] \d{4}/);
+	});
+
 	it('does not set metric outputs when no PRs', async () => {
 		setEnv({ GITHUB_ACTIONS: 'true' });
 		await run();
@@ -219,6 +320,7 @@ describe('run — sprint with merged PRs', () => {
 				[3, []],
 			]),
 			sizesByPR: new Map(),
+			draftEventsByPR: new Map(),
 		}));
 		mockGetOpenPRs.mock.mockImplementation(async () => 2);
 	});
@@ -244,6 +346,37 @@ describe('run — sprint with merged PRs', () => {
 		await run();
 		assert.strictEqual(mockSetOutput.mock.callCount(), 0);
 	});
+
+	it('notes split search queries on the card', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		mockGetMergedPRsQueryCount.mock.mockImplementation(() => 4);
+		await run();
+		const healthCardCall = mockSetOutput.mock.calls.find(
+			(c: any) => c.arguments[0] === 'health-card'
+		);
+		assert.ok((healthCardCall!.arguments[1] as string).includes('assembled from 4 date-split searches'));
+	});
+
+	it('does not add a search note for a single query', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		await run();
+		const healthCardCall = mockSetOutput.mock.calls.find(
+			(c: any) => c.arguments[0] === 'health-card'
+		);
+		assert.ok(!(healthCardCall!.arguments[1] as string).includes('date-split'));
+	});
+
+	it('logs a GitHub API request summary', async () => {
+		mockGetRequestStats.mock.mockImplementation(() => ({
+			requests: 42, retries: 3, failures: 0, concurrency: 5,
+			rateLimitRemaining: 4900, rateLimitLimit: 5000, rateLimitReset: null,
+		}));
+		const logMock = mock.method(console, 'log', () => {});
+		await run();
+		const lines = logMock.mock.calls.map((c: any) => String(c.arguments[0]));
+		logMock.mock.restore();
+		assert.ok(lines.some((l) => l.includes('42 requests, 3 retries, 4900/5000 quota remaining')));
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -299,9 +432,10 @@ describe('run — post-as: issue-comment', () => {
 		assert.strictEqual((mockPostIssueComment.mock.calls[0] as any).arguments[0], 42);
 	});
 
-	it('does not post comment when issue-number is missing', async () => {
+	it('fails before fetching anything when issue-number is missing', async () => {
 		setEnv({ INPUT_POST_AS: 'issue-comment' });
-		await run();
+		await assert.rejects(() => run(), { message: /post-as: issue-comment needs issue-number/ });
+		assert.strictEqual(mockGetMergedPRs.mock.callCount(), 0);
 		assert.strictEqual(mockPostIssueComment.mock.callCount(), 0);
 	});
 
@@ -355,9 +489,9 @@ describe('run — Aurora integration', () => {
 		assert.strictEqual(mockFetch.mock.callCount(), 0);
 	});
 
-	it('does not push when team ID is missing', async () => {
+	it('fails when team ID is missing', async () => {
 		setEnv({ AURORA_API_KEY: 'ak-123' });
-		await run();
+		await assert.rejects(() => run(), { message: /aurora-api-key needs aurora-team-id/ });
 		assert.strictEqual(mockFetch.mock.callCount(), 0);
 	});
 
@@ -512,11 +646,38 @@ describe('run — new metrics data fetching', () => {
 		assert.strictEqual(mockGetReleases.mock.callCount(), 0);
 	});
 
-	it('fetches first commit dates only when ship events exist', async () => {
+	it('fetches the previous period for the cycle time trend', async () => {
+		await run();
+		assert.strictEqual(mockGetMergedPRs.mock.callCount(), 2);
+		const [current, previous] = mockGetMergedPRs.mock.calls.map((c: any) => c.arguments);
+		const dayMs = 24 * 60 * 60 * 1000;
+		assert.strictEqual(current[0].getTime() - previous[1].getTime(), dayMs);
+		assert.strictEqual(current[0].getTime() - previous[0].getTime(), 14 * dayMs);
+	});
+
+	it('fetches the month before for a calendar month period', async () => {
+		setEnv({ INPUT_PERIOD: 'month' });
+		await run();
+		const [current, previous] = mockGetMergedPRs.mock.calls.map((c: any) => c.arguments);
+		assert.strictEqual(previous[0].getUTCDate(), 1);
+		assert.strictEqual(previous[1].getTime(), current[0].getTime() - 1);
+		assert.strictEqual((current[0].getUTCMonth() - previous[0].getUTCMonth() + 12) % 12, 1);
+	});
+
+	it('fetches whole days in the configured timezone', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_PERIOD-START': '2025-05-12', 'INPUT_PERIOD-END': '2025-05-25', INPUT_TIMEZONE: 'Australia/Sydney' });
+		await run();
+		const [start, end, timezone] = mockGetMergedPRs.mock.calls[0].arguments;
+		assert.strictEqual(start.toISOString(), '2025-05-11T14:00:00.000Z');
+		assert.strictEqual(end.toISOString(), '2025-05-25T13:59:59.999Z');
+		assert.strictEqual(timezone, 'Australia/Sydney');
+	});
+
+	it('fetches first commit dates for coding time even without ship events', async () => {
 		mockGetDeployments.mock.mockImplementation(async () => []);
 		mockGetReleases.mock.mockImplementation(async () => []);
 		await run();
-		assert.strictEqual(mockGetFirstCommitDates.mock.callCount(), 0);
+		assert.strictEqual(mockGetFirstCommitDates.mock.callCount(), 1);
 	});
 
 	it('fetches first commit dates when deployments exist', async () => {
@@ -535,6 +696,7 @@ describe('run — new metrics data fetching', () => {
 				[1, { additions: 100, deletions: 50 }],
 				[2, { additions: 200, deletions: 100 }],
 			]),
+			draftEventsByPR: new Map(),
 		}));
 		mockGetWorkflowRuns.mock.mockImplementation(async () => ({
 			totalRuns: 10, successCount: 9, failureCount: 1,
@@ -555,10 +717,105 @@ describe('run — new metrics data fetching', () => {
 		assert.ok(!outputNames.includes('lead-time-hours'));
 	});
 
+	it('sets the DORA band outputs', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		// 14 deployments over the 14-day period: daily
+		mockGetDeployments.mock.mockImplementation(async () => Array.from({ length: 14 }, (_, i) => (
+			{ id: i, sha: `s${i}`, createdAt: new Date(), source: 'deployment', label: 'production' }
+		)));
+		await run();
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		assert.strictEqual(outputs.get('dora-deployment-frequency-band'), 'elite');
+		// No first commit dates, so no lead time
+		assert.strictEqual(outputs.get('dora-lead-time-band'), 'unknown');
+		// Neither PR was a failed change
+		assert.strictEqual(outputs.get('dora-change-failure-rate-band'), 'elite');
+		assert.strictEqual(outputs.get('dora-band'), 'elite');
+	});
+
+	it('sets the change failure rate from failed deployments', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		mockGetMergedPRs.mock.mockImplementation(async () => [
+			{ number: 1, title: 'Add cache', createdAt: new Date(Date.now() - 3 * 86400000), mergedAt: new Date(Date.now() - 2 * 86400000), author: 'alice' },
+			{ number: 2, title: 'Tidy up', createdAt: new Date(Date.now() - 3 * 86400000), mergedAt: new Date(Date.now() - 2 * 86400000), author: 'bob' },
+		]);
+		mockGetDeployments.mock.mockImplementation(async () => [
+			{ id: 7, sha: 's7', createdAt: new Date(Date.now() - 86400000), source: 'deployment', label: 'production' },
+		]);
+		mockGetDeploymentStates.mock.mockImplementation(async () => new Map([[7, 'failure']]));
+		await run();
+		assert.deepStrictEqual(mockGetDeploymentStates.mock.calls[0].arguments, [[7]]);
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		// Both PRs shipped in the failed deployment
+		assert.strictEqual(outputs.get('change-failure-rate'), 100);
+		assert.strictEqual(outputs.get('dora-change-failure-rate-band'), 'low');
+	});
+
+	it('sets the time to restore from incident issues', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_INCIDENT-LABELS': 'sev1, outage' });
+		mockGetIncidents.mock.mockImplementation(async () => [
+			{ number: 5, title: 'API down', openedAt: new Date(Date.now() - 3 * 3600000), closedAt: new Date(Date.now() - 3600000) },
+		]);
+		await run();
+		assert.deepStrictEqual(mockGetIncidents.mock.calls[0].arguments[2], ['sev1', 'outage']);
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		assert.strictEqual(outputs.get('time-to-restore-hours'), '2.0');
+		assert.strictEqual(outputs.get('dora-time-to-restore-band'), 'high');
+	});
+
+	it('reports time to restore as unmeasured when incident issues cannot be listed', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_INCIDENT-LABELS': 'sev1' });
+		mockGetIncidents.mock.mockImplementation(async () => {
+			throw new Error('could not list issues labelled sev1: 403 Forbidden');
+		});
+		await run();
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		assert.ok((outputs.get('health-card') as string).includes(
+			'| Time to Restore | Could not be measured: could not list issues labelled sev1: 403 Forbidden |'
+		));
+		assert.strictEqual(outputs.get('time-to-restore-hours'), undefined);
+		assert.strictEqual(outputs.get('dora-time-to-restore-band'), 'unknown');
+	});
+
+	it('restores a deployment outage that began before the period', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		const day = 86400000;
+		const aroundStart = Date.now() - 14 * day;
+		mockGetDeployments.mock.mockImplementation(async () => [
+			{ id: 3, sha: 's3', createdAt: new Date(aroundStart + 3 * day), source: 'deployment', label: 'production' },
+			{ id: 2, sha: 's2', createdAt: new Date(aroundStart - 3 * day), source: 'deployment', label: 'production' },
+			{ id: 1, sha: 's1', createdAt: new Date(aroundStart - 5 * day), source: 'deployment', label: 'production' },
+			{ id: 0, sha: 's0', createdAt: new Date(aroundStart - 7 * day), source: 'deployment', label: 'production' },
+		]);
+		const states = new Map([[3, 'success'], [2, 'failure'], [1, 'success'], [0, 'failure']]);
+		mockGetDeploymentStates.mock.mockImplementation(async (...args: any[]) =>
+			new Map((args[0] as number[]).map((id) => [id, states.get(id)!])));
+		await run();
+		// The lookback reaches well before the period
+		assert.ok((mockGetDeployments.mock.calls[0].arguments[0] as Date).getTime() < aroundStart - 7 * day);
+		// Earlier statuses are read only back to the last success
+		const read = mockGetDeploymentStates.mock.calls.flatMap((c: any) => c.arguments[0]);
+		assert.ok(!read.includes(0));
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		// Failed three days before the period, restored three days into it
+		assert.strictEqual(outputs.get('time-to-restore-hours'), '144.0');
+	});
+
+	it('sets unknown DORA bands without deployments or releases', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		await run();
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		for (const name of ['dora-deployment-frequency-band', 'dora-lead-time-band', 'dora-time-to-restore-band']) {
+			assert.strictEqual(outputs.get(name), 'unknown', name);
+		}
+		// Reverts and hotfixes are still counted from the merged PRs
+		assert.strictEqual(outputs.get('dora-change-failure-rate-band'), 'elite');
+	});
+
 	it('includes operations section in Aurora payload', async () => {
 		setEnv({ AURORA_API_KEY: 'ak-123', AURORA_TEAM_ID: 'team-456' });
 		mockGetReviewsAndSizes.mock.mockImplementation(async () => ({
-			reviewsByPR: new Map(), sizesByPR: new Map(),
+			reviewsByPR: new Map(), sizesByPR: new Map(), draftEventsByPR: new Map(),
 		}));
 		mockGetWorkflowRuns.mock.mockImplementation(async () => ({
 			totalRuns: 20, successCount: 18, failureCount: 2,
@@ -570,3 +827,502 @@ describe('run — new metrics data fetching', () => {
 		assert.strictEqual(body.operations.buildTotalRuns, 20);
 	});
 });
+
+// ---------------------------------------------------------------------------
+// PR cache
+// ---------------------------------------------------------------------------
+
+describe('run — PR cache', () => {
+	let cacheDir: string;
+
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo' });
+		resetMocks();
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(2));
+		cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'action-cache-'));
+	});
+	afterEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		fs.rmSync(cacheDir, { recursive: true, force: true });
+	});
+
+	it('does not use a cache by default', async () => {
+		await run();
+		assert.strictEqual(mockUseCache.mock.callCount(), 0);
+	});
+
+	it('attaches the cache and writes it after fetching', async () => {
+		setEnv({ INPUT_CACHE_PATH: cacheDir });
+		await run();
+		assert.strictEqual(mockUseCache.mock.callCount(), 1);
+		assert.ok(fs.existsSync(path.join(cacheDir, 'owner__repo.json')));
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Record / replay
+// ---------------------------------------------------------------------------
+
+describe('run — record and replay', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo' });
+		resetMocks();
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(2));
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'action-recording-'));
+	});
+	afterEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('writes a recording with the run period', async () => {
+		const file = path.join(dir, 'recording.json');
+		setEnv({ INPUT_RECORD_PATH: file });
+		await run();
+		const recording = JSON.parse(fs.readFileSync(file, 'utf-8'));
+		assert.strictEqual(recording.meta.repository, 'owner/repo');
+		assert.strictEqual(recording.meta.sprintLengthDays, 14);
+	});
+
+	it('writes the recording even when the run fails', async () => {
+		const file = path.join(dir, 'recording.json');
+		setEnv({ INPUT_RECORD_PATH: file });
+		mockGetMergedPRs.mock.mockImplementation(async () => { throw new Error('boom'); });
+		await assert.rejects(() => run(), { message: 'boom' });
+		assert.ok(fs.existsSync(file));
+	});
+
+	it('does not push to Aurora or use the cache during a replay', async () => {
+		const file = path.join(dir, 'recording.json');
+		fs.writeFileSync(file, JSON.stringify({
+			version: 1,
+			recordedAt: '2025-01-14T00:00:00.000Z',
+			meta: {
+				repository: 'owner/repo',
+				periodStart: '2025-01-01T00:00:00.000Z',
+				periodEnd: '2025-01-14T00:00:00.000Z',
+				sprintLengthDays: 14,
+			},
+			exchanges: [],
+		}));
+		setEnv({
+			INPUT_REPLAY_PATH: file,
+			INPUT_CACHE_PATH: dir,
+			AURORA_API_KEY: 'ak-123',
+			AURORA_TEAM_ID: 'team-456',
+		});
+		await run();
+		assert.strictEqual(mockFetch.mock.callCount(), 0);
+		assert.strictEqual(mockUseCache.mock.callCount(), 0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Comparison with the previous period
+// ---------------------------------------------------------------------------
+
+describe('run — compare-previous', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo', GITHUB_ACTIONS: 'true' });
+		resetMocks();
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(2));
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	function renderedCard(): string {
+		return mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1];
+	}
+
+	it('fetches previous period details only when enabled', async () => {
+		await run();
+		assert.strictEqual(mockGetReviewsAndSizes.mock.callCount(), 1);
+		assert.ok(!renderedCard().includes('vs last sprint'));
+	});
+
+	it('adds the comparison column', async () => {
+		setEnv({ 'INPUT_COMPARE-PREVIOUS': 'true' });
+		await run();
+		assert.strictEqual(mockGetReviewsAndSizes.mock.callCount(), 2);
+		assert.strictEqual(mockGetWorkflowRuns.mock.callCount(), 2);
+		// Open PRs are only counted for the current period
+		assert.strictEqual(mockGetOpenPRs.mock.callCount(), 1);
+		assert.ok(renderedCard().includes('vs last sprint'));
+		assert.match(renderedCard(), /\| WIP \| .* \| n\/a \|/);
+	});
+
+	it('compares with a previous period that had no merged PRs', async () => {
+		setEnv({ 'INPUT_COMPARE-PREVIOUS': 'true' });
+		mockGetMergedPRs.mock.mockImplementation(async () => []);
+		mockGetMergedPRs.mock.mockImplementationOnce(async () => makePRData(2), 0);
+		mockGetWorkflowRuns.mock.mockImplementation(async () => ({ totalRuns: 10, successCount: 9, failureCount: 1 }));
+		await run();
+		assert.strictEqual(mockGetWorkflowRuns.mock.callCount(), 2);
+		assert.ok(renderedCard().includes('| Build Success | 90% of 10 runs (healthy) | ⚪ → 0 pts |'), renderedCard());
+	});
+
+	it('queries the previous window for builds and deployments', async () => {
+		setEnv({ 'INPUT_COMPARE-PREVIOUS': 'true' });
+		await run();
+		const [current, previous] = mockGetWorkflowRuns.mock.calls.map((c: any) => c.arguments);
+		assert.ok(previous[1].getTime() < current[0].getTime());
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Cycle time start
+// ---------------------------------------------------------------------------
+
+describe('run — cycle-time-start', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo', GITHUB_ACTIONS: 'true' });
+		resetMocks();
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(2));
+		// PR #1 was a draft for its first 12 hours
+		mockGetReviewsAndSizes.mock.mockImplementation(async () => ({
+			reviewsByPR: new Map(),
+			sizesByPR: new Map(),
+			draftEventsByPR: new Map([
+				[1, [{ type: 'ready_for_review', createdAt: new Date('2025-01-01T12:00:00Z') }]],
+			]),
+		}));
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('reports draft time but keeps it in cycle time by default', async () => {
+		await run();
+		assert.strictEqual(mockGetReviewsAndSizes.mock.callCount(), 1);
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		assert.strictEqual(outputs.get('cycle-time-hours'), '24.0');
+		assert.ok((outputs.get('health-card') as string).includes('| Draft Time | 12.0 hours (1 PR) |'));
+	});
+
+	it('measures from ready for review, including the previous period for the trend', async () => {
+		setEnv({ 'INPUT_CYCLE-TIME-START': 'ready' });
+		await run();
+		// Current period, then the previous period's draft events
+		assert.strictEqual(mockGetReviewsAndSizes.mock.callCount(), 2);
+		const outputs = new Map(mockSetOutput.mock.calls.map((c: any) => [c.arguments[0], c.arguments[1]]));
+		// median of 12h (PR #1 from ready) and 24h (PR #2)
+		assert.strictEqual(outputs.get('cycle-time-hours'), '18.0');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Metrics history
+// ---------------------------------------------------------------------------
+
+describe('run — metrics history', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo', INPUT_HISTORY_BRANCH: 'pr-metrics-data' });
+		resetMocks();
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(2));
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	function storedSnapshot(periodEnd: Date, metrics: object) {
+		return {
+			schemaVersion: 1,
+			generatedAt: periodEnd.toISOString(),
+			repositories: ['owner/repo'],
+			periodStart: new Date(periodEnd.getTime() - 14 * 24 * 60 * 60 * 1000).toISOString(),
+			periodEnd: periodEnd.toISOString(),
+			sprintLengthDays: 14,
+			metrics,
+		};
+	}
+
+	it('does not touch history unless enabled', async () => {
+		clearEnv(['INPUT_HISTORY_BRANCH']);
+		await run();
+		assert.strictEqual(mockListDirectory.mock.callCount(), 0);
+		assert.strictEqual(mockWriteFile.mock.callCount(), 0);
+	});
+
+	it('writes a snapshot of this run to the data branch', async () => {
+		await run();
+		assert.strictEqual(mockEnsureBranch.mock.calls[0].arguments[0], 'pr-metrics-data');
+		const [filePath, content, , branch] = mockWriteFile.mock.calls[0].arguments as any[];
+		assert.match(filePath, /^history\/\d{4}-\d{2}-\d{2}\.json$/);
+		assert.strictEqual(branch, 'pr-metrics-data');
+		const snapshot = JSON.parse(content);
+		assert.strictEqual(snapshot.schemaVersion, 1);
+		assert.strictEqual(snapshot.metrics.throughputCount, 2);
+		assert.deepStrictEqual(snapshot.repositories, ['owner/repo']);
+	});
+
+	it('keeps going when history cannot be saved', async () => {
+		mockWriteFile.mock.mockImplementation(async () => { throw new Error('403 Resource not accessible'); });
+		await run();
+	});
+
+	it('compares with a stored snapshot instead of refetching the previous period', async () => {
+		const previousEnd = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000);
+		const name = `${previousEnd.toISOString().split('T')[0]}.json`;
+		mockListDirectory.mock.mockImplementation(async () => [name]);
+		mockGetFileContent.mock.mockImplementation(async () => ({
+			content: JSON.stringify(storedSnapshot(previousEnd, { throughputCount: 4, wipCount: 1, cycleTimeMedianHours: 24 })),
+			sha: 'abc',
+		}));
+		mockGetOpenPRs.mock.mockImplementation(async () => 2);
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_COMPARE-PREVIOUS': 'true', 'INPUT_HISTORY-BRANCH': 'pr-metrics-data' });
+		await run();
+
+		assert.strictEqual(mockGetReviewsAndSizes.mock.callCount(), 1);
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1];
+		assert.ok(card.includes('| Throughput | 2 PRs | 🔴 ↓ 50% |'));
+		// The stored snapshot knows its open PR count
+		assert.match(card, /\| WIP \| .* \| 🔴 ↑ 100% \|/);
+	});
+
+	it('charts stored snapshots together with this period', async () => {
+		const earlier = [28, 14].map((days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+		mockListDirectory.mock.mockImplementation(async () => earlier.map((d) => `${d.toISOString().split('T')[0]}.json`));
+		let served = 0;
+		mockGetFileContent.mock.mockImplementation(async () => ({
+			content: JSON.stringify(storedSnapshot(earlier[served], { throughputCount: ++served, cycleTimeMedianHours: 10, reviewTurnaroundMedianHours: 2 })),
+			sha: 'abc',
+		}));
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_HISTORY-BRANCH': 'pr-metrics-data', 'INPUT_TREND-CHARTS': 'true' });
+		await run();
+
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1];
+		assert.ok(card.includes('bar [1, 2, 2]'));
+		assert.ok(card.includes('| Throughput | 2 PRs ▁██ |'));
+	});
+
+	it('does not write history during a replay', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'action-history-'));
+		const file = path.join(dir, 'recording.json');
+		fs.writeFileSync(file, JSON.stringify({
+			version: 1,
+			recordedAt: '2025-01-14T00:00:00.000Z',
+			meta: {
+				repository: 'owner/repo',
+				periodStart: '2025-01-01T00:00:00.000Z',
+				periodEnd: '2025-01-14T00:00:00.000Z',
+				sprintLengthDays: 14,
+				history: { branch: 'pr-metrics-data', path: 'history', limit: 12 },
+			},
+			exchanges: [],
+		}));
+		setEnv({ INPUT_REPLAY_PATH: file });
+		try {
+			await run();
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+		assert.strictEqual(mockListDirectory.mock.callCount(), 1);
+		assert.strictEqual(mockWriteFile.mock.callCount(), 0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Multiple repositories
+// ---------------------------------------------------------------------------
+
+describe('run — multiple repositories', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'acme/home' });
+		resetMocks();
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(2));
+		mockListOwnerRepositories.mock.mockImplementation(async () => [
+			{ name: 'api', archived: false, topics: ['team-core'] },
+			{ name: 'web', archived: false, topics: [] },
+			{ name: 'legacy-api', archived: true, topics: ['team-core'] },
+		]);
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	function fetchedRepositories(): string[] {
+		// Each repository is searched for this period and the previous one
+		return [...new Set(mockGetMergedPRs.mock.calls.map((c: any) => `${c.this.owner}/${c.this.repo}`))];
+	}
+
+	it('fetches each listed repository', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api\nacme/web, other/tool' });
+		await run();
+		assert.deepStrictEqual(fetchedRepositories(), ['acme/api', 'acme/web', 'other/tool']);
+		assert.strictEqual(mockListOwnerRepositories.mock.callCount(), 0);
+	});
+
+	it('expands owner globs and skips archived repositories', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/*' });
+		await run();
+		assert.deepStrictEqual(fetchedRepositories(), ['acme/api', 'acme/web']);
+	});
+
+	it('filters repositories by topic', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/*', INPUT_REPOSITORY_TOPIC: 'team-core' });
+		await run();
+		assert.deepStrictEqual(fetchedRepositories(), ['acme/api']);
+	});
+
+	it('combines PRs across repositories without number collisions', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api,acme/web', GITHUB_ACTIONS: 'true' });
+		await run();
+		const throughput = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'throughput');
+		assert.strictEqual(throughput!.arguments[1], 4);
+	});
+
+	it('adds a per-repository breakdown to the card', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api,acme/web', GITHUB_ACTIONS: 'true' });
+		await run();
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1];
+		assert.ok(card.includes('By Repository'));
+		assert.ok(card.includes('| acme/api | 2 |'));
+		assert.ok(card.includes('| acme/web | 2 |'));
+	});
+
+	it('omits the breakdown for a single repository', async () => {
+		setEnv({ GITHUB_ACTIONS: 'true' });
+		await run();
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1];
+		assert.ok(!card.includes('By Repository'));
+	});
+
+	it('sends per-repository metrics to Aurora', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api,acme/web', AURORA_API_KEY: 'ak', AURORA_TEAM_ID: 'team' });
+		await run();
+		const body = JSON.parse((mockFetch.mock.calls[0] as any).arguments[1].body);
+		assert.deepStrictEqual(body.raw.repositories.map((r: any) => r.repository), ['acme/api', 'acme/web']);
+	});
+
+	it('sends repository-qualified PR numbers to Aurora', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api,acme/web', AURORA_API_KEY: 'ak', AURORA_TEAM_ID: 'team' });
+		await run();
+		const body = JSON.parse((mockFetch.mock.calls[0] as any).arguments[1].body);
+		assert.deepStrictEqual(body.raw.prNumbers, ['acme/api#1', 'acme/api#2', 'acme/web#1', 'acme/web#2']);
+	});
+
+	it('still counts open PRs of a repository without merged PRs', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api,acme/web', GITHUB_ACTIONS: 'true' });
+		mockGetMergedPRs.mock.mockImplementation(async function (this: any) {
+			return this.repo === 'web' ? [] : makePRData(2);
+		});
+		mockGetOpenPRs.mock.mockImplementation(async () => 3);
+		await run();
+		assert.strictEqual(mockGetOpenPRs.mock.callCount(), 2);
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1];
+		assert.ok(card.includes('| WIP | 6 open'));
+	});
+
+	it('selects all of the owner\'s repositories by topic alone', async () => {
+		setEnv({ INPUT_REPOSITORY_TOPIC: 'team-core' });
+		await run();
+		assert.deepStrictEqual(fetchedRepositories(), ['acme/api']);
+	});
+
+	it('fails when no repository matches', async () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/nothing-*' });
+		await assert.rejects(() => run(), /No repositories matched/);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Period from a project iteration or milestones
+// ---------------------------------------------------------------------------
+
+describe('run — period from a project iteration', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo', GITHUB_ACTIONS: 'true', INPUT_PERIOD: 'iteration', INPUT_PROJECT: '7' });
+		resetMocks();
+		mockGetProjectIterations.mock.mockImplementation(async () => ({
+			field: 'Sprint',
+			iterations: [
+				{ id: 'it1', title: 'Sprint 1', startDate: '2025-01-06', duration: 14 },
+				{ id: 'it2', title: 'Sprint 2', startDate: '2025-01-20', duration: 14 },
+			],
+		}));
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(3));
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('reports on the last completed iteration', async () => {
+		await run();
+		assert.deepStrictEqual(mockGetProjectIterations.mock.calls[0].arguments, ['owner', 7, undefined]);
+		const [start, end] = mockGetMergedPRs.mock.calls[0].arguments as Date[];
+		assert.strictEqual(start.toISOString(), '2025-01-20T00:00:00.000Z');
+		assert.strictEqual(end.toISOString(), '2025-02-02T23:59:59.999Z');
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1] as string;
+		assert.ok(card.includes('Sprint Health — Sprint 2 (Jan 20 – Feb 2)'));
+		assert.strictEqual(mockGetIterationPullRequests.mock.callCount(), 0);
+	});
+
+	it('counts only linked PRs when asked', async () => {
+		setEnv({ 'INPUT_LINKED-PRS-ONLY': 'true' });
+		mockGetIterationPullRequests.mock.mockImplementation(async () => new Map([
+			['it2', new Set(['owner/repo#1', 'owner/repo#3'])],
+			['it1', new Set<string>()],
+		]));
+		await run();
+		assert.deepStrictEqual(mockGetIterationPullRequests.mock.calls[0].arguments, ['owner', 7, 'Sprint', ['it2', 'it1']]);
+		const throughput = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'throughput');
+		assert.strictEqual(throughput!.arguments[1], 2);
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1] as string;
+		assert.ok(card.includes('Only PRs linked to the iteration are counted.'));
+	});
+
+	it('reports on the last milestone that is due', async () => {
+		setEnv({ INPUT_PERIOD: 'milestone' });
+		mockGetMilestones.mock.mockImplementation(async () => [
+			{ number: 2, title: 'v1.1', createdAt: new Date('2025-01-02T00:00:00Z'), dueOn: new Date('2025-02-14T08:00:00Z') },
+			{ number: 1, title: 'v1.0', createdAt: new Date('2025-01-01T00:00:00Z'), dueOn: new Date('2025-01-31T08:00:00Z') },
+		]);
+		await run();
+		const [start, end] = mockGetMergedPRs.mock.calls[0].arguments as Date[];
+		assert.strictEqual(start.toISOString(), '2025-02-01T00:00:00.000Z');
+		assert.strictEqual(end.toISOString(), '2025-02-14T23:59:59.999Z');
+	});
+});
+
+describe('run — release to release', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 'test-token', GITHUB_REPOSITORY: 'owner/repo', GITHUB_ACTIONS: 'true', INPUT_PERIOD: 'release' });
+		resetMocks();
+		mockGetLatestReleases.mock.mockImplementation(async () => [
+			{ tag: 'v1.2.0', publishedAt: new Date('2025-04-24T10:00:00Z') },
+			{ tag: 'v1.1.0', publishedAt: new Date('2025-04-10T13:00:00Z') },
+		]);
+		mockCompareRefs.mock.mockImplementation(async () => ({
+			mergeBaseDate: new Date('2025-04-10T12:00:00Z'),
+			headDate: new Date('2025-04-24T09:00:00Z'),
+			shas: new Set(['sha-1', 'sha-3']),
+		}));
+		mockGetMergedPRs.mock.mockImplementation(async () => makePRData(3));
+		mockGetMergeCommitShas.mock.mockImplementation(async () => new Map([[1, 'sha-1'], [2, 'sha-other'], [3, 'sha-3']]));
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('counts the PRs merged by commits between the latest two releases', async () => {
+		await run();
+		assert.deepStrictEqual(mockCompareRefs.mock.calls[0].arguments, ['v1.1.0', 'v1.2.0']);
+		const [start, end] = mockGetMergedPRs.mock.calls[0].arguments as Date[];
+		assert.strictEqual(start.toISOString(), '2025-04-10T12:00:00.000Z');
+		assert.strictEqual(end.toISOString(), '2025-04-24T09:00:00.000Z');
+		const throughput = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'throughput');
+		assert.strictEqual(throughput!.arguments[1], 2);
+	});
+
+	it('names the versions in the card title', async () => {
+		await run();
+		const card = mockSetOutput.mock.calls.find((c: any) => c.arguments[0] === 'health-card')!.arguments[1] as string;
+		assert.ok(card.includes('Sprint Health — v1.1.0 → v1.2.0'));
+	});
+
+	it('compares named tags', async () => {
+		setEnv({ 'INPUT_FROM-TAG': 'v0.9.0', 'INPUT_TO-TAG': 'v1.0.0' });
+		await run();
+		assert.strictEqual(mockGetLatestReleases.mock.callCount(), 0);
+		assert.deepStrictEqual(mockCompareRefs.mock.calls[0].arguments, ['v0.9.0', 'v1.0.0']);
+	});
+});
@@ -1,6 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { renderHealthCard, AURORA_LOGO } from '../card';
+import { renderHealthCard, AURORA_LOGO, PreviousMetrics } from '../card';
 import { Config, Thresholds } from '../config';
 import { SprintMetrics } from '../metrics';
 
@@ -23,6 +23,10 @@ const defaultThresholds: Thresholds = {
 	prSizeCritical: 1000,
 	buildSuccessWarning: 90,
 	buildSuccessCritical: 75,
+	leadTimeWarningHours: 168,
+	leadTimeCriticalHours: 336,
+	shipFrequencyWarningPerWeek: 1,
+	shipFrequencyCriticalPerWeek: 0.25,
 };
 
 function makeConfig(overrides: Partial<Config> = {}): Config {
@@ -33,6 +37,8 @@ function makeConfig(overrides: Partial<Config> = {}): Config {
 		sprintLengthDays: 14,
 		periodStart: new Date('2025-01-01'),
 		periodEnd: new Date('2025-01-14'),
+		cycleTimeStart: 'created',
+		timezone: 'UTC',
 		postAs: 'summary',
 		thresholds: defaultThresholds,
 		...overrides,
@@ -43,8 +49,11 @@ function makeMetrics(overrides: Partial<SprintMetrics> = {}): SprintMetrics {
 	return {
 		cycleTimeMedianHours: 20,
 		cycleTimeP90Hours: 30,
+		cycleTimePhases: { coding: null, pickup: null, review: null, merge: null },
 		throughputCount: 5,
 		wipCount: 2,
+		draftTimeMedianHours: null,
+		draftPRCount: 0,
 		prSizeMedian: null,
 		prSizeCategory: null,
 		buildSuccessRate: null,
@@ -53,11 +62,19 @@ function makeMetrics(overrides: Partial<SprintMetrics> = {}): SprintMetrics {
 		shipCount: null,
 		shipSource: null,
 		leadTimeMedianHours: null,
+		changeFailureRate: null,
+		failedChangeCount: 0,
+		failedChanges: [],
+		timeToRestoreMedianHours: null,
+		incidentCount: 0,
 		reviewTurnaroundMedianHours: 8,
 		collaboratorCount: 4,
 		concentrationRatio: 0.3,
 		reviewDepthScore: 1.5,
+		workingHoursPerDay: null,
+		nonWorkingDays: 0,
 		cycleTimeTrend: 'stable',
+		previousCycleTimeMedianHours: null,
 		prNumbers: [1, 2, 3, 4, 5],
 		...overrides,
 	};
@@ -80,6 +97,21 @@ describe('renderHealthCard — structure', () => {
 		assert.ok(card.includes('Jan 14'));
 	});
 
+	it('shows the dates in the configured timezone', () => {
+		// Sydney midnight Jan 6 is Jan 5 13:00 UTC
+		const card = renderHealthCard(makeConfig({
+			periodStart: new Date('2025-01-05T13:00:00Z'),
+			periodEnd: new Date('2025-01-19T12:59:59.999Z'),
+			timezone: 'Australia/Sydney',
+		}), makeMetrics(), defaultThresholds);
+		assert.ok(card.includes('Sprint Health — Jan 6 – Jan 19'));
+	});
+
+	it('names sprint and calendar periods in the header', () => {
+		const card = renderHealthCard(makeConfig({ periodLabel: 'Sprint 3 (Jan 1 – Jan 14)' }), makeMetrics(), defaultThresholds);
+		assert.ok(card.includes('Sprint Health — Sprint 3 (Jan 1 – Jan 14)'));
+	});
+
 	it('includes metric table headers', () => {
 		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
 		assert.ok(card.includes('| Metric | Value |'));
@@ -95,6 +127,13 @@ describe('renderHealthCard — structure', () => {
 		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
 		assert.ok(card.includes('Powered by'));
 		assert.ok(card.includes('aurora-coach.com'));
+		assert.ok(!card.includes('Thresholds:'));
+	});
+
+	it('names the threshold preset in the footer', () => {
+		const card = renderHealthCard(makeConfig({ thresholdPreset: 'enterprise' }), makeMetrics(), defaultThresholds);
+		const footer = card.slice(card.lastIndexOf('---'));
+		assert.ok(footer.includes('*Thresholds: `enterprise` preset, tuned for approval-heavy teams with scheduled releases*'));
 	});
 });
 
@@ -584,6 +623,86 @@ describe('renderHealthCard — conditional rows', () => {
 // Quick wins for new metrics
 // ---------------------------------------------------------------------------
 
+describe('renderHealthCard — change failure rate', () => {
+	const failedChanges = [
+		{ kind: 'revert' as const, prNumbers: [12, 9], title: 'Revert "Add cache"', at: new Date('2025-01-06T10:00:00Z') },
+		{ kind: 'hotfix' as const, prNumbers: [14], title: 'Fix login crash', at: new Date('2025-01-08T10:00:00Z') },
+		{ kind: 'failed-deployment' as const, prNumbers: [15, 16], title: 'production', at: new Date('2025-01-10T10:00:00Z') },
+	];
+
+	it('shows the rate with the failed change count', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ changeFailureRate: 80, failedChangeCount: 4, failedChanges }), defaultThresholds);
+		assert.ok(card.includes('| Change Failure Rate | 80% (4 of 5 PRs) |'));
+	});
+
+	it('links the PRs behind each failed change', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ changeFailureRate: 60, failedChanges }), defaultThresholds);
+		const link = (n: number) => `[#${n}](https://github.com/test-owner/test-repo/pull/${n})`;
+		assert.ok(card.includes('### 🧯 Failed Changes'));
+		assert.ok(card.includes(`- **Revert** ${link(12)} of ${link(9)} — Revert "Add cache" (Jan 6)`));
+		assert.ok(card.includes(`- **Hotfix** ${link(14)} — Fix login crash (Jan 8)`));
+		assert.ok(card.includes(`- **Failed deployment** to production (Jan 10) — shipped ${link(15)}, ${link(16)}`));
+	});
+
+	it('qualifies links with the repository on a combined card', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({
+			changeFailureRate: 10,
+			failedChanges: [{ kind: 'hotfix', prNumbers: [3], title: 'Fix', at: new Date('2025-01-06T10:00:00Z'), repository: 'acme/web' }],
+		}), defaultThresholds);
+		assert.ok(card.includes('[acme/web#3](https://github.com/acme/web/pull/3)'));
+	});
+
+	it('leaves out the row and section without merged PRs or failures', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('| Change Failure Rate |'));
+		assert.ok(!card.includes('Failed Changes'));
+
+		const healthy = renderHealthCard(makeConfig(), makeMetrics({ changeFailureRate: 0 }), defaultThresholds);
+		assert.ok(healthy.includes('| Change Failure Rate | 0% (0 of 5 PRs) |'));
+		assert.ok(!healthy.includes('Failed Changes'));
+	});
+});
+
+describe('renderHealthCard — time to restore', () => {
+	it('shows the median with the incident count', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ timeToRestoreMedianHours: 3, incidentCount: 2 }), defaultThresholds);
+		assert.ok(card.includes('| Time to Restore | 3.0 hours (2 incidents) |'));
+	});
+
+	it('explains an empty period', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(card.includes('| Time to Restore | No incidents in the period |'));
+	});
+
+	it('explains a time to restore that could not be measured', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({
+			timeToRestoreError: 'could not list issues labelled sev1: 403 Forbidden',
+		}), defaultThresholds);
+		assert.ok(card.includes('| Time to Restore | Could not be measured: could not list issues labelled sev1: 403 Forbidden |'));
+		assert.ok(!card.includes('No incidents in the period'));
+	});
+});
+
+describe('renderHealthCard — DORA performance', () => {
+	it('classifies the measured keys and marks the rest', () => {
+		const card = renderHealthCard(
+			makeConfig(),
+			makeMetrics({ shipFrequency: 0.5, shipCount: 7, shipSource: 'deployment', leadTimeMedianHours: 36 }),
+			defaultThresholds,
+		);
+		assert.ok(card.includes('### 🚀 DORA Performance — High'));
+		assert.ok(card.includes('| Deployment Frequency | every 2 days | High |'));
+		assert.ok(card.includes('| Lead Time for Changes | 1.5 days | High |'));
+		assert.ok(card.includes('| Change Failure Rate | — | Not measured: no merged PRs in the period |'));
+		assert.ok(card.includes('lowest band of the 2 measured keys'));
+	});
+
+	it('is left out when no key could be measured', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('DORA'));
+	});
+});
+
 describe('renderHealthCard — new metric quick wins', () => {
 	it('shows PR size warning tip', () => {
 		const card = renderHealthCard(
@@ -641,6 +760,28 @@ describe('renderHealthCard — new metric quick wins', () => {
 			defaultThresholds,
 		);
 		assert.ok(card.includes('**Ship frequency**'));
+		assert.ok(card.includes('Shipping less than once a week'));
+	});
+
+	it('words the lead time and ship frequency tips from the thresholds', () => {
+		const thresholds = { ...defaultThresholds, leadTimeWarningHours: 120, shipFrequencyWarningPerWeek: 0.5 };
+		const card = renderHealthCard(
+			makeConfig({ thresholds }),
+			makeMetrics({ leadTimeMedianHours: 130, shipFrequency: 0.05, shipCount: 1, shipSource: 'deployment' }),
+			thresholds,
+		);
+		assert.ok(card.includes('5.0 days or more from commit to production'));
+		assert.ok(card.includes('Shipping less than once every 2 weeks'));
+	});
+
+	it('skips the ship frequency tip for a team on its own cadence', () => {
+		const weekly = { ...defaultThresholds, shipFrequencyWarningPerWeek: 0.5 };
+		const card = renderHealthCard(
+			makeConfig({ thresholds: weekly }),
+			makeMetrics({ shipFrequency: 0.1, shipCount: 1, shipSource: 'deployment' }),
+			weekly,
+		);
+		assert.ok(!card.includes('**Ship frequency**'));
 	});
 
 	it('does not show new metric tips when values are null', () => {
@@ -651,3 +792,249 @@ describe('renderHealthCard — new metric quick wins', () => {
 		assert.ok(!card.includes('**Ship frequency**'));
 	});
 });
+
+// ---------------------------------------------------------------------------
+// Data notes
+// ---------------------------------------------------------------------------
+
+describe('renderHealthCard — cycle time trend', () => {
+	it('shows the previous value and delta', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({
+			cycleTimeMedianHours: 30,
+			previousCycleTimeMedianHours: 20,
+			cycleTimeTrend: 'degrading',
+		}), defaultThresholds);
+		assert.ok(card.includes('— prev 20.0 hours (+50%, degrading) |'));
+	});
+
+	it('shows decreases with a minus sign', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({
+			cycleTimeMedianHours: 15,
+			previousCycleTimeMedianHours: 20,
+		}), defaultThresholds);
+		assert.ok(card.includes('(−25%, stable)'));
+	});
+
+	it('omits the comparison without a previous period', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('prev'));
+	});
+});
+
+describe('renderHealthCard — vs last sprint', () => {
+	function renderComparison(current: Partial<SprintMetrics>, previous: Partial<PreviousMetrics>): string {
+		return renderHealthCard(makeConfig(), makeMetrics(current), defaultThresholds, {
+			previousMetrics: { ...makeMetrics(), ...previous },
+		});
+	}
+
+	it('adds the column header', () => {
+		const card = renderComparison({}, {});
+		assert.ok(card.includes('| Metric | Value | vs last sprint |'));
+		assert.ok(card.includes('|--------|-------|----------------|'));
+	});
+
+	it('marks a faster cycle time as an improvement', () => {
+		const card = renderComparison({ cycleTimeMedianHours: 15 }, { cycleTimeMedianHours: 20 });
+		assert.match(card, /\| PR Cycle Time \| .* \| 🟢 ↓ 25% \|/);
+	});
+
+	it('marks lower throughput as a regression', () => {
+		const card = renderComparison({ throughputCount: 4 }, { throughputCount: 5 });
+		assert.ok(card.includes('| Throughput | 4 PRs | 🔴 ↓ 20% |'));
+	});
+
+	it('shows build success change in percentage points', () => {
+		const card = renderComparison({ buildSuccessRate: 95, buildTotalRuns: 20 }, { buildSuccessRate: 90 });
+		assert.ok(card.includes('| 🟢 ↑ 5 pts |'));
+	});
+
+	it('shows unchanged values as neutral', () => {
+		const card = renderComparison({ throughputCount: 5 }, { throughputCount: 5 });
+		assert.ok(card.includes('| Throughput | 5 PRs | ⚪ → 0% |'));
+	});
+
+	it('shows n/a when a metric is missing in either period', () => {
+		const card = renderComparison({ prSizeMedian: 120, prSizeCategory: 'medium' }, { prSizeMedian: null, wipCount: null });
+		assert.ok(card.includes('| PR Size | 120 lines (medium) | n/a |'));
+		assert.match(card, /\| WIP \| .* \| n\/a \|/);
+	});
+
+	it('shows n/a instead of a percentage from zero', () => {
+		const card = renderComparison({ reviewDepthScore: 1 }, { reviewDepthScore: 0 });
+		assert.match(card, /\| Review Depth \| .* \| n\/a \|/);
+	});
+
+	it('shows n/a when there were no reviews this period', () => {
+		const card = renderComparison({ reviewTurnaroundMedianHours: null }, { reviewTurnaroundMedianHours: 10 });
+		assert.ok(card.includes('| Review Speed | — | n/a |'));
+	});
+
+	it('has no column without a previous period', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('vs last sprint'));
+	});
+});
+
+describe('renderHealthCard — trend sparklines and charts', () => {
+	function makeTrend(values: Partial<SprintMetrics>[]) {
+		return values.map((overrides, i) => ({
+			periodEnd: new Date(Date.UTC(2025, 0, 14 + i * 14)),
+			metrics: makeMetrics(overrides),
+		}));
+	}
+
+	it('adds sparklines to the table rows', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ throughputCount: 8 }), defaultThresholds, {
+			trend: makeTrend([{ throughputCount: 1 }, { throughputCount: 4 }, { throughputCount: 8 }]),
+		});
+		assert.ok(card.includes('| Throughput | 8 PRs ▁▄█ |'));
+	});
+
+	it('leaves gaps for periods missing a metric', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ prSizeMedian: 300, prSizeCategory: 'medium' }), defaultThresholds, {
+			trend: makeTrend([{ prSizeMedian: 100 }, { prSizeMedian: null }, { prSizeMedian: 300 }]),
+		});
+		assert.ok(card.includes('| PR Size | 300 lines (medium) ▁ █ |'));
+	});
+
+	it('draws a flat line for unchanged values', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds, {
+			trend: makeTrend([{}, {}]),
+		});
+		assert.ok(card.includes('| Throughput | 5 PRs ▄▄ |'));
+	});
+
+	it('adds Mermaid charts for cycle time, review speed and throughput', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds, {
+			trend: makeTrend([{ cycleTimeMedianHours: 30.25 }, { cycleTimeMedianHours: 20 }]),
+		});
+		assert.strictEqual(card.split('```mermaid').length - 1, 3);
+		assert.ok(card.includes('xychart-beta'));
+		assert.ok(card.includes('x-axis ["Jan 14", "Jan 28"]'));
+		assert.ok(card.includes('line [30.3, 20]'));
+		assert.ok(card.includes('bar [5, 5]'));
+		assert.ok(card.includes('<summary>📈 Trends over the last 2 periods</summary>'));
+	});
+
+	it('labels the chart with period end dates in the configured timezone', () => {
+		const card = renderHealthCard(makeConfig({ timezone: 'Australia/Sydney' }), makeMetrics(), defaultThresholds, {
+			trend: makeTrend([{}, {}]).map((point) => ({ ...point, periodEnd: new Date(point.periodEnd.getTime() + 20 * 60 * 60 * 1000) })),
+		});
+		assert.ok(card.includes('x-axis ["Jan 15", "Jan 29"]'));
+	});
+
+	it('falls back to the plain table with fewer than two points', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds, {
+			trend: makeTrend([{}]),
+		});
+		assert.ok(!card.includes('mermaid'));
+		assert.ok(card.includes('| Throughput | 5 PRs |'));
+	});
+});
+
+describe('renderHealthCard — cycle time phases', () => {
+	const phase = (medianHours: number) => ({ medianHours, p90Hours: medianHours * 2, count: 3 });
+
+	it('renders measured phases in order', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({
+			cycleTimePhases: { coding: phase(30), pickup: phase(5), review: null, merge: phase(0.5) },
+		}), defaultThresholds);
+		assert.ok(card.includes('| Cycle Phases | coding 1.3 days → pickup 5.0 hours → merge 30 min |'));
+	});
+
+	it('omits the row when no phase was measured', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('Cycle Phases'));
+	});
+});
+
+describe('renderHealthCard — business hours', () => {
+	const workingCalendar = { workingDays: [1, 2, 3, 4, 5], startMinute: 540, endMinute: 1020, timezone: 'Europe/Berlin', holidays: [] };
+
+	it('names the calendar and shows working days', () => {
+		const card = renderHealthCard(
+			makeConfig({ workingCalendar }),
+			makeMetrics({ cycleTimeMedianHours: 12, cycleTimeP90Hours: 40, workingHoursPerDay: 8 }),
+			defaultThresholds
+		);
+		assert.ok(card.includes('⏱️ Durations in business hours: Mon–Fri 09:00–17:00 (Europe/Berlin)'));
+		assert.ok(card.includes('| PR Cycle Time | 1.5 working days (P90: 5.0 working days) |'));
+	});
+
+	it('counts the holidays excluded from the period', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ nonWorkingDays: 3 }), defaultThresholds);
+		assert.ok(card.includes('📅 3 non-working days (holidays) excluded from durations and ship frequency'));
+	});
+
+	it('does not claim business hours for a holidays-only calendar', () => {
+		const card = renderHealthCard(
+			makeConfig({ workingCalendar: { workingDays: [0, 1, 2, 3, 4, 5, 6], startMinute: 0, endMinute: 1440, timezone: 'UTC', holidays: ['2025-01-06'] } }),
+			makeMetrics({ nonWorkingDays: 1 }),
+			defaultThresholds
+		);
+		assert.ok(!card.includes('business hours'));
+		assert.ok(card.includes('📅 1 non-working day (holidays)'));
+	});
+
+	it('says nothing about the clock for wall-clock hours', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('business hours'));
+	});
+});
+
+describe('renderHealthCard — draft time', () => {
+	it('renders draft time with the number of draft PRs', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics({ draftTimeMedianHours: 48, draftPRCount: 3 }), defaultThresholds);
+		assert.ok(card.includes('| Draft Time | 2.0 days (3 PRs) |'));
+	});
+
+	it('says draft time is excluded when cycle time starts at ready for review', () => {
+		const card = renderHealthCard(
+			makeConfig({ cycleTimeStart: 'ready' }),
+			makeMetrics({ draftTimeMedianHours: 5, draftPRCount: 1 }),
+			defaultThresholds
+		);
+		assert.ok(card.includes('| Draft Time | 5.0 hours (1 PR, excluded from cycle time) |'));
+	});
+
+	it('omits the row when no PR was a draft', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('Draft Time'));
+	});
+});
+
+describe('renderHealthCard — data notes', () => {
+	it('renders notes above the footer', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds, {
+			notes: ['Merged PRs were assembled from 3 date-split searches.'],
+		});
+		const noteIndex = card.indexOf('> ℹ️ Merged PRs were assembled from 3 date-split searches.');
+		assert.ok(noteIndex > 0);
+		assert.ok(noteIndex < card.indexOf('Powered by'));
+	});
+
+	it('renders no notes block by default', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('ℹ️'));
+	});
+});
+
+describe('renderHealthCard — repository breakdown', () => {
+	it('renders one row per repository', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds, {
+			repositoryBreakdown: [
+				{ repository: 'acme/api', metrics: makeMetrics({ throughputCount: 3, cycleTimeMedianHours: 48 }) },
+				{ repository: 'acme/web', metrics: makeMetrics({ throughputCount: 2 }) },
+			],
+		});
+		assert.ok(card.includes('### 📚 By Repository'));
+		assert.ok(card.includes('| acme/api | 3 | 2.0 days |'));
+		assert.ok(card.includes('| acme/web | 2 |'));
+	});
+
+	it('renders no breakdown by default', () => {
+		const card = renderHealthCard(makeConfig(), makeMetrics(), defaultThresholds);
+		assert.ok(!card.includes('By Repository'));
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { CONFIG_SCHEMA, loadConfigFile, parseConfigFile } from '../config-file';
+
+describe('parseConfigFile', () => {
+	it('flattens the sections into input values', () => {
+		const { values, problems } = parseConfigFile([
+			'thresholds:',
+			'  pr-size-warning: 300',
+			'  build-success-critical: 80.5',
+			'filters:',
+			'  repositories: [acme/api, acme/web-*]',
+			'  deployment-environment: production',
+			'output:',
+			'  compare-previous: true',
+			'  issue-number:',
+		].join('\n'));
+		assert.deepStrictEqual(problems, []);
+		assert.deepStrictEqual(Object.fromEntries(values), {
+			'pr-size-warning': '300',
+			'build-success-critical': '80.5',
+			repositories: 'acme/api\nacme/web-*',
+			'deployment-environment': 'production',
+			'compare-previous': 'true',
+		});
+	});
+
+	it('reports every schema violation with its file and line', () => {
+		const text = [
+			'thresholds:',
+			'  pr-size-warning: big',
+			'  concentration-critical: 1.5',
+			'  review-depth: 1',
+			'filters:',
+			'  repositories:',
+			'    - acme',
+			'output:',
+			'  post-as: email',
+			'  issue-number: 2.5',
+			'  trend-charts: yes',
+			'colors: many',
+		].join('\n');
+		const { values, problems } = parseConfigFile(text, '.github/pr-metrics.yml');
+		assert.deepStrictEqual(problems, [
+			'.github/pr-metrics.yml:2: thresholds.pr-size-warning must be a number, got "big"',
+			'.github/pr-metrics.yml:3: thresholds.concentration-critical must be at most 1, got 1.5',
+			`.github/pr-metrics.yml:4: unknown setting thresholds.review-depth (expected one of ${Object.keys(CONFIG_SCHEMA.properties!.thresholds.properties!).join(', ')})`,
+			'.github/pr-metrics.yml:7: filters.repositories[0] does not match the expected format, got "acme"',
+			'.github/pr-metrics.yml:9: output.post-as must be one of summary, issue-comment, got "email"',
+			'.github/pr-metrics.yml:10: output.issue-number must be a whole number, got 2.5',
+			'.github/pr-metrics.yml:11: output.trend-charts must be true or false, got "yes"',
+			`.github/pr-metrics.yml:12: unknown setting colors (expected one of ${Object.keys(CONFIG_SCHEMA.properties!).join(', ')})`,
+		]);
+		assert.strictEqual(values.size, 0);
+	});
+
+	it('reports a section given as a value', () => {
+		assert.deepStrictEqual(parseConfigFile('thresholds: 3').problems, [
+			'.github/pr-metrics.yml:1: thresholds must be a section of "key: value" lines, got 3',
+		]);
+	});
+
+	it('prefixes syntax errors with the file name', () => {
+		assert.deepStrictEqual(parseConfigFile('output:\n  post-as: a\n  post-as: b', 'team.yml').problems, [
+			'team.yml:3: Map keys must be unique',
+		]);
+	});
+
+	it('reads any YAML, such as flow sections and anchors', () => {
+		const { values, problems } = parseConfigFile([
+			'thresholds: { review-warning-hours: &day 24, cycle-time-warning-hours: *day }',
+			'filters:',
+			'  hotfix-labels: >-',
+			'    hotfix',
+		].join('\n'));
+		assert.deepStrictEqual(problems, [
+			'.github/pr-metrics.yml:3: filters.hotfix-labels must be a list, got "hotfix"',
+		]);
+		assert.strictEqual(values.size, 0);
+		assert.deepStrictEqual(Object.fromEntries(parseConfigFile('thresholds: { review-warning-hours: &day 24, cycle-time-warning-hours: *day }').values), {
+			'review-warning-hours': '24',
+			'cycle-time-warning-hours': '24',
+		});
+	});
+});
+
+describe('loadConfigFile', () => {
+	const missing = () => {
+		throw Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' });
+	};
+
+	it('ignores a missing file unless it was asked for', () => {
+		assert.deepStrictEqual(loadConfigFile('.github/pr-metrics.yml', false, missing), { values: new Map(), problems: [] });
+		const { problems } = loadConfigFile('metrics.yml', true, missing);
+		assert.match(problems.join('\n'), /^Could not read config-file metrics.yml: ENOENT/);
+	});
+
+	it('reads the file relative to the workspace', () => {
+		let read = '';
+		loadConfigFile('.github/pr-metrics.yml', false, (p) => {
+			read = p;
+			return '';
+		});
+		assert.ok(read.endsWith('/.github/pr-metrics.yml'));
+	});
+});
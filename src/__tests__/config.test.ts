@@ -1,6 +1,10 @@
 import { describe, it, beforeEach, afterEach, mock } from 'node:test';
 import assert from 'node:assert';
-import { getConfig } from '../config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigValidationError, getConfig } from '../config';
+import { DEFAULT_THRESHOLDS, THRESHOLD_PRESETS, THRESHOLD_PRESET_NAMES } from '../threshold-presets';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -34,6 +38,52 @@ const ALL_ENV_KEYS = [
 	'INPUT_REVIEW_CRITICAL_HOURS',
 	'INPUT_WIP_WARNING_RATIO',
 	'INPUT_WIP_CRITICAL_RATIO',
+	'INPUT_CACHE_PATH',
+	'INPUT_CACHE_REFRESH',
+	'INPUT_RECORD_PATH',
+	'INPUT_REPLAY_PATH',
+	'INPUT_REPOSITORIES',
+	'INPUT_REPOSITORY_TOPIC',
+	'INPUT_COMPARE_PREVIOUS',
+	'INPUT_HISTORY_BRANCH',
+	'INPUT_HISTORY_PATH',
+	'INPUT_HISTORY_LIMIT',
+	'INPUT_TREND_CHARTS',
+	'INPUT_CYCLE_TIME_START',
+	'INPUT_WORKING_DAYS',
+	'INPUT_WORKING_HOURS',
+	'INPUT_TIMEZONE',
+	'INPUT_HOLIDAYS',
+	'INPUT_PERIOD',
+	'INPUT_PERIOD_START',
+	'INPUT_PERIOD_END',
+	'INPUT_SPRINT_ANCHOR',
+	'INPUT_CURRENT_PERIOD',
+	'INPUT_PROJECT',
+	'INPUT_ITERATION_FIELD',
+	'INPUT_LINKED_PRS_ONLY',
+	'INPUT_FROM_TAG',
+	'INPUT_TO_TAG',
+	'INPUT_CONFIG_FILE',
+	'INPUT_WORKFLOW_FILTER',
+	'INPUT_DEPLOYMENT_ENVIRONMENT',
+	'INPUT_HOTFIX_LABELS',
+	'INPUT_INCIDENT_LABELS',
+	'INPUT_THRESHOLD_PRESET',
+	'INPUT_CONCENTRATION_WARNING',
+	'INPUT_CONCENTRATION_CRITICAL',
+	'INPUT_REVIEW_DEPTH_WARNING',
+	'INPUT_REVIEW_DEPTH_CRITICAL',
+	'INPUT_PR_SIZE_WARNING',
+	'INPUT_PR_SIZE_CRITICAL',
+	'INPUT_BUILD_SUCCESS_WARNING',
+	'INPUT_BUILD_SUCCESS_CRITICAL',
+	'INPUT_LEAD_TIME_WARNING_HOURS',
+	'INPUT_LEAD_TIME_CRITICAL_HOURS',
+	'INPUT_SHIP_FREQUENCY_WARNING_PER_WEEK',
+	'INPUT_SHIP_FREQUENCY_CRITICAL_PER_WEEK',
+	'GITHUB_WORKSPACE',
+	'RUNNER_DEBUG',
 	// GitHub Action mode (core.getInput reads INPUT_<UPPERCASE-NAME>)
 	'INPUT_GITHUB-TOKEN',
 	'INPUT_SPRINT-LENGTH-DAYS',
@@ -47,6 +97,9 @@ const ALL_ENV_KEYS = [
 	'INPUT_REVIEW-CRITICAL-HOURS',
 	'INPUT_WIP-WARNING-RATIO',
 	'INPUT_WIP-CRITICAL-RATIO',
+	'INPUT_CACHE-PATH',
+	'INPUT_CACHE-REFRESH',
+	'INPUT_CONFIG-FILE',
 ];
 
 // ---------------------------------------------------------------------------
@@ -119,22 +172,19 @@ describe('getConfig — standalone mode', () => {
 			GITHUB_TOKEN: 't',
 			GITHUB_REPOSITORY: 'o/r',
 			INPUT_POST_AS: 'issue-comment',
+			INPUT_ISSUE_NUMBER: '3',
 		});
 		const config = getConfig();
 		assert.strictEqual(config.postAs, 'issue-comment');
 	});
 
-	it('falls back to summary for invalid post-as', () => {
+	it('rejects an invalid post-as', () => {
 		setEnv({
 			GITHUB_TOKEN: 't',
 			GITHUB_REPOSITORY: 'o/r',
 			INPUT_POST_AS: 'invalid-value',
 		});
-		const warnMock = mock.method(console, 'warn', () => {});
-		const config = getConfig();
-		assert.strictEqual(config.postAs, 'summary');
-		assert.ok(warnMock.mock.callCount() > 0);
-		warnMock.mock.restore();
+		assert.throws(() => getConfig(), { message: /Invalid post-as: invalid-value. Expected summary or issue-comment/ });
 	});
 
 	it('parses issue-number from INPUT_ISSUE_NUMBER', () => {
@@ -158,6 +208,7 @@ describe('getConfig — standalone mode', () => {
 			GITHUB_TOKEN: 't',
 			GITHUB_REPOSITORY: 'o/r',
 			AURORA_API_KEY: 'ak-123',
+			AURORA_TEAM_ID: 'team-1',
 		});
 		const config = getConfig();
 		assert.strictEqual(config.auroraApiKey, 'ak-123');
@@ -202,18 +253,56 @@ describe('getConfig — standalone thresholds', () => {
 		assert.strictEqual(config.thresholds.wipCriticalRatio, 3);
 	});
 
-	it('has fixed concentration thresholds', () => {
+	it('uses default concentration thresholds', () => {
 		const config = getConfig();
 		assert.strictEqual(config.thresholds.concentrationWarning, 0.6);
 		assert.strictEqual(config.thresholds.concentrationCritical, 0.75);
 	});
 
-	it('has fixed review depth thresholds', () => {
+	it('uses default review depth thresholds', () => {
 		const config = getConfig();
 		assert.strictEqual(config.thresholds.reviewDepthWarning, 0.5);
 		assert.strictEqual(config.thresholds.reviewDepthCritical, 0.2);
 	});
 
+	it('uses default lead time and ship frequency thresholds', () => {
+		const config = getConfig();
+		assert.strictEqual(config.thresholds.leadTimeWarningHours, 168);
+		assert.strictEqual(config.thresholds.leadTimeCriticalHours, 336);
+		assert.strictEqual(config.thresholds.shipFrequencyWarningPerWeek, 1);
+		assert.strictEqual(config.thresholds.shipFrequencyCriticalPerWeek, 0.25);
+	});
+
+	it('reads every threshold from env', () => {
+		setEnv({
+			INPUT_CONCENTRATION_WARNING: '0.5',
+			INPUT_CONCENTRATION_CRITICAL: '0.9',
+			INPUT_REVIEW_DEPTH_WARNING: '1',
+			INPUT_REVIEW_DEPTH_CRITICAL: '0.4',
+			INPUT_PR_SIZE_WARNING: '250',
+			INPUT_PR_SIZE_CRITICAL: '600',
+			INPUT_BUILD_SUCCESS_WARNING: '95',
+			INPUT_BUILD_SUCCESS_CRITICAL: '85',
+			INPUT_LEAD_TIME_WARNING_HOURS: '336',
+			INPUT_LEAD_TIME_CRITICAL_HOURS: '672',
+			INPUT_SHIP_FREQUENCY_WARNING_PER_WEEK: '0.5',
+			INPUT_SHIP_FREQUENCY_CRITICAL_PER_WEEK: '0.2',
+		});
+		const { thresholds } = getConfig();
+		assert.strictEqual(thresholds.concentrationWarning, 0.5);
+		assert.strictEqual(thresholds.concentrationCritical, 0.9);
+		assert.strictEqual(thresholds.reviewDepthWarning, 1);
+		assert.strictEqual(thresholds.reviewDepthCritical, 0.4);
+		assert.strictEqual(thresholds.prSizeWarning, 250);
+		assert.strictEqual(thresholds.prSizeCritical, 600);
+		assert.strictEqual(thresholds.buildSuccessWarning, 95);
+		assert.strictEqual(thresholds.buildSuccessCritical, 85);
+		assert.strictEqual(thresholds.leadTimeWarningHours, 336);
+		assert.strictEqual(thresholds.leadTimeCriticalHours, 672);
+		assert.strictEqual(thresholds.shipFrequencyWarningPerWeek, 0.5);
+		assert.strictEqual(thresholds.shipFrequencyCriticalPerWeek, 0.2);
+	});
+
 	it('reads custom cycle time thresholds from env', () => {
 		setEnv({
 			INPUT_CYCLE_TIME_WARNING_HOURS: '36',
@@ -245,6 +334,83 @@ describe('getConfig — standalone thresholds', () => {
 	});
 });
 
+// ---------------------------------------------------------------------------
+// Threshold presets
+// ---------------------------------------------------------------------------
+
+describe('getConfig — threshold presets', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('uses the defaults without a preset', () => {
+		const config = getConfig();
+		assert.deepStrictEqual(config.thresholds, DEFAULT_THRESHOLDS);
+		assert.strictEqual(config.thresholdPreset, undefined);
+	});
+
+	it('fills the thresholds from the preset', () => {
+		setEnv({ INPUT_THRESHOLD_PRESET: 'enterprise' });
+		const config = getConfig();
+		assert.deepStrictEqual(config.thresholds, THRESHOLD_PRESETS.enterprise.thresholds);
+		assert.strictEqual(config.thresholdPreset, 'enterprise');
+	});
+
+	it('counts ship frequency in the overall health only once a preset or ship-frequency threshold is set', () => {
+		assert.strictEqual(getConfig().shipFrequencyInHealth, false);
+		setEnv({ INPUT_SHIP_FREQUENCY_CRITICAL_PER_WEEK: '0.5' });
+		assert.strictEqual(getConfig().shipFrequencyInHealth, true);
+		clearEnv(['INPUT_SHIP_FREQUENCY_CRITICAL_PER_WEEK']);
+		setEnv({ INPUT_THRESHOLD_PRESET: 'startup' });
+		assert.strictEqual(getConfig().shipFrequencyInHealth, true);
+	});
+
+	it('lets an individual input override the preset', () => {
+		setEnv({ INPUT_THRESHOLD_PRESET: 'dora-elite', INPUT_REVIEW_CRITICAL_HOURS: '24' });
+		const { thresholds } = getConfig();
+		assert.strictEqual(thresholds.reviewCriticalHours, 24);
+		assert.strictEqual(thresholds.reviewWarningHours, THRESHOLD_PRESETS['dora-elite'].thresholds.reviewWarningHours);
+	});
+
+	it('reads the preset from the config file', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-metrics-config-'));
+		try {
+			fs.mkdirSync(path.join(dir, '.github'));
+			fs.writeFileSync(path.join(dir, '.github', 'pr-metrics.yml'), 'thresholds:\n  threshold-preset: open-source\n  pr-size-warning: 300\n');
+			setEnv({ GITHUB_WORKSPACE: dir });
+			const config = getConfig();
+			assert.strictEqual(config.thresholdPreset, 'open-source');
+			assert.strictEqual(config.thresholds.prSizeWarning, 300);
+			assert.strictEqual(config.thresholds.reviewCriticalHours, THRESHOLD_PRESETS['open-source'].thresholds.reviewCriticalHours);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it('accepts every preset as consistent', () => {
+		for (const preset of THRESHOLD_PRESET_NAMES) {
+			setEnv({ INPUT_THRESHOLD_PRESET: preset });
+			assert.strictEqual(getConfig().thresholdPreset, preset);
+		}
+	});
+
+	it('rejects an unknown preset', () => {
+		setEnv({ INPUT_THRESHOLD_PRESET: 'google' });
+		assert.throws(() => getConfig(), {
+			message: /Invalid threshold-preset: google\. Expected one of startup, enterprise, open-source, platform-team, dora-elite/,
+		});
+	});
+
+	it('reports an override that contradicts the preset', () => {
+		setEnv({ INPUT_THRESHOLD_PRESET: 'dora-elite', INPUT_CYCLE_TIME_WARNING_HOURS: '96' });
+		assert.throws(() => getConfig(), {
+			message: /cycle-time-warning-hours \(96\) must not be above cycle-time-critical-hours \(72\)/,
+		});
+	});
+});
+
 // ---------------------------------------------------------------------------
 // GitHub Action mode — core.getInput reads INPUT_<NAME> env vars
 // ---------------------------------------------------------------------------
@@ -278,7 +444,7 @@ describe('getConfig — GitHub Action mode', () => {
 	});
 
 	it('reads post-as from INPUT_POST-AS', () => {
-		setEnv({ 'INPUT_POST-AS': 'issue-comment' });
+		setEnv({ 'INPUT_POST-AS': 'issue-comment', 'INPUT_ISSUE-NUMBER': '5' });
 		const config = getConfig();
 		assert.strictEqual(config.postAs, 'issue-comment');
 	});
@@ -350,11 +516,14 @@ describe('getConfig — post-as × issue-number matrix', () => {
 		assert.strictEqual(config.issueNumber, 10);
 	});
 
-	it('issue-comment + no issue-number → valid config (runtime handles the gap)', () => {
+	it('issue-comment + no issue-number → rejected', () => {
 		setEnv({ INPUT_POST_AS: 'issue-comment' });
-		const config = getConfig();
-		assert.strictEqual(config.postAs, 'issue-comment');
-		assert.strictEqual(config.issueNumber, undefined);
+		assert.throws(() => getConfig(), { message: /post-as: issue-comment needs issue-number/ });
+	});
+
+	it('issue-comment + invalid issue-number → rejected', () => {
+		setEnv({ INPUT_POST_AS: 'issue-comment', INPUT_ISSUE_NUMBER: '#12' });
+		assert.throws(() => getConfig(), { message: /Invalid issue-number: #12. Expected a positive whole number/ });
 	});
 });
 
@@ -376,11 +545,9 @@ describe('getConfig — Aurora key combinations', () => {
 		assert.strictEqual(config.auroraTeamId, 'team');
 	});
 
-	it('only API key set → team ID undefined', () => {
+	it('only API key set → rejected', () => {
 		setEnv({ AURORA_API_KEY: 'key' });
-		const config = getConfig();
-		assert.strictEqual(config.auroraApiKey, 'key');
-		assert.strictEqual(config.auroraTeamId, undefined);
+		assert.throws(() => getConfig(), { message: /aurora-api-key needs aurora-team-id/ });
 	});
 
 	it('only team ID set → API key undefined', () => {
@@ -419,4 +586,721 @@ describe('getConfig — sprint length edge cases', () => {
 		const config = getConfig();
 		assert.strictEqual(config.sprintLengthDays, 30);
 	});
+
+	it('rejects a sprint length that is not a whole number of days', () => {
+		for (const input of ['two', '0', '-3', '7.5', '14days']) {
+			setEnv({ INPUT_SPRINT_LENGTH_DAYS: input });
+			assert.throws(() => getConfig(), { message: new RegExp(`Invalid sprint-length-days: ${input}\\. Expected a positive whole number`) });
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+describe('getConfig — validation', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('reports every problem at once', () => {
+		setEnv({
+			INPUT_SPRINT_LENGTH_DAYS: 'two',
+			INPUT_CYCLE_TIME_WARNING_HOURS: '-1',
+			INPUT_POST_AS: 'issue-comment',
+			INPUT_COMPARE_PREVIOUS: 'maybe',
+			AURORA_API_KEY: 'key',
+		});
+		assert.throws(() => getConfig(), (error: unknown) => {
+			assert.ok(error instanceof ConfigValidationError);
+			assert.deepStrictEqual(error.problems, [
+				'Invalid sprint-length-days: two. Expected a positive whole number',
+				'Invalid compare-previous: maybe. Expected true or false',
+				'post-as: issue-comment needs issue-number, the issue to comment on',
+				'aurora-api-key needs aurora-team-id, the team to send metrics to',
+				'Invalid cycle-time-warning-hours: -1. Expected a positive number',
+			]);
+			assert.match(error.message, /^Invalid configuration \(5 problems\):\n  - Invalid sprint-length-days: two/);
+			return true;
+		});
+	});
+
+	it('rejects a warning threshold past its critical one', () => {
+		setEnv({
+			INPUT_CYCLE_TIME_WARNING_HOURS: '200',
+			INPUT_REVIEW_WARNING_HOURS: '48',
+		});
+		assert.throws(() => getConfig(), (error: ConfigValidationError) => {
+			assert.deepStrictEqual(error.problems, [
+				'cycle-time-warning-hours (200) must not be above cycle-time-critical-hours (168), as higher values are worse',
+			]);
+			return true;
+		});
+	});
+
+	it('checks the order both ways, depending on which direction is worse', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-metrics-config-'));
+		try {
+			fs.writeFileSync(path.join(dir, 'metrics.yml'), [
+				'thresholds:',
+				'  build-success-warning: 70',
+				'  review-depth-critical: 0.8',
+			].join('\n'));
+			setEnv({ GITHUB_WORKSPACE: dir, INPUT_CONFIG_FILE: 'metrics.yml' });
+			assert.throws(() => getConfig(), (error: ConfigValidationError) => {
+				assert.deepStrictEqual(error.problems, [
+					'review-depth-warning (0.5) must not be below review-depth-critical (0.8), as lower values are worse',
+					'build-success-warning (70) must not be below build-success-critical (75), as lower values are worse',
+				]);
+				return true;
+			});
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it('checks the lead time and ship frequency thresholds', () => {
+		setEnv({
+			INPUT_LEAD_TIME_CRITICAL_HOURS: '100',
+			INPUT_SHIP_FREQUENCY_CRITICAL_PER_WEEK: '2',
+		});
+		assert.throws(() => getConfig(), (error: ConfigValidationError) => {
+			assert.deepStrictEqual(error.problems, [
+				'lead-time-warning-hours (168) must not be above lead-time-critical-hours (100), as higher values are worse',
+				'ship-frequency-warning-per-week (1) must not be below ship-frequency-critical-per-week (2), as lower values are worse',
+			]);
+			return true;
+		});
+	});
+
+	it('allows equal warning and critical thresholds', () => {
+		setEnv({ INPUT_WIP_WARNING_RATIO: '3', INPUT_WIP_CRITICAL_RATIO: '3' });
+		assert.strictEqual(getConfig().thresholds.wipWarningRatio, 3);
+	});
+
+	it('rejects out-of-range and non-numeric thresholds', () => {
+		setEnv({
+			INPUT_REVIEW_CRITICAL_HOURS: '1d',
+			INPUT_WIP_CRITICAL_RATIO: '0',
+		});
+		assert.throws(() => getConfig(), (error: ConfigValidationError) => {
+			assert.deepStrictEqual(error.problems, [
+				'Invalid review-critical-hours: 1d. Expected a positive number',
+				'Invalid wip-critical-ratio: 0. Expected a positive number',
+			]);
+			return true;
+		});
+	});
+
+	it('includes config file problems with the input problems', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-metrics-config-'));
+		try {
+			fs.writeFileSync(path.join(dir, 'metrics.yml'), 'output:\n  trend-charts: sometimes\n');
+			setEnv({ GITHUB_WORKSPACE: dir, INPUT_CONFIG_FILE: 'metrics.yml', INPUT_HISTORY_LIMIT: '0', INPUT_HISTORY_PATH: 'h' });
+			assert.throws(() => getConfig(), (error: ConfigValidationError) => {
+				assert.deepStrictEqual(error.problems, [
+					'metrics.yml:2: output.trend-charts must be true or false, got "sometimes"',
+					'Invalid history-limit: 0. Expected a positive whole number',
+				]);
+				return true;
+			});
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+// ---------------------------------------------------------------------------
+// PR cache settings
+// ---------------------------------------------------------------------------
+
+describe('getConfig — PR cache', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('disables the cache by default', () => {
+		const config = getConfig();
+		assert.strictEqual(config.cachePath, undefined);
+		assert.strictEqual(config.cacheRefresh, false);
+	});
+
+	it('reads cache path and refresh from env', () => {
+		setEnv({ INPUT_CACHE_PATH: '.pr-metrics-cache', INPUT_CACHE_REFRESH: 'true' });
+		const config = getConfig();
+		assert.strictEqual(config.cachePath, '.pr-metrics-cache');
+		assert.strictEqual(config.cacheRefresh, true);
+	});
+
+	it('reads cache inputs in GitHub Action mode', () => {
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_CACHE-PATH': '/tmp/cache', 'INPUT_CACHE-REFRESH': 'false' });
+		const config = getConfig();
+		assert.strictEqual(config.cachePath, '/tmp/cache');
+		assert.strictEqual(config.cacheRefresh, false);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Record / replay
+// ---------------------------------------------------------------------------
+
+describe('getConfig — compare-previous', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('is off by default', () => {
+		assert.strictEqual(getConfig().comparePrevious, false);
+	});
+
+	it('reads compare-previous', () => {
+		setEnv({ INPUT_COMPARE_PREVIOUS: 'true' });
+		assert.strictEqual(getConfig().comparePrevious, true);
+	});
+});
+
+describe('getConfig — hotfix-labels', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('defaults to hotfix and incident', () => {
+		assert.deepStrictEqual(getConfig().hotfixLabels, ['hotfix', 'incident']);
+	});
+
+	it('reads comma and newline separated labels', () => {
+		setEnv({ INPUT_HOTFIX_LABELS: 'sev1, sev2\nrollback' });
+		assert.deepStrictEqual(getConfig().hotfixLabels, ['sev1', 'sev2', 'rollback']);
+	});
+});
+
+describe('getConfig — incident-labels', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('defaults to incident', () => {
+		assert.deepStrictEqual(getConfig().incidentLabels, ['incident']);
+	});
+
+	it('reads the labels', () => {
+		setEnv({ INPUT_INCIDENT_LABELS: 'sev1,outage' });
+		assert.deepStrictEqual(getConfig().incidentLabels, ['sev1', 'outage']);
+	});
+});
+
+describe('getConfig — cycle-time-start', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('starts at PR creation by default', () => {
+		assert.strictEqual(getConfig().cycleTimeStart, 'created');
+	});
+
+	it('reads ready', () => {
+		setEnv({ INPUT_CYCLE_TIME_START: 'Ready' });
+		assert.strictEqual(getConfig().cycleTimeStart, 'ready');
+	});
+
+	it('rejects other values', () => {
+		setEnv({ INPUT_CYCLE_TIME_START: 'first-commit' });
+		assert.throws(() => getConfig(), { message: /Invalid cycle-time-start: first-commit/ });
+	});
+});
+
+describe('getConfig — reporting period', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('is a rolling window without a label by default', () => {
+		const config = getConfig();
+		assert.strictEqual(config.periodMode, 'rolling');
+		assert.strictEqual(config.periodLabel, undefined);
+		assert.strictEqual(config.previousPeriod.lengthDays, 14);
+	});
+
+	it('uses explicit dates as whole days', () => {
+		setEnv({ INPUT_PERIOD_START: '2025-03-01', INPUT_PERIOD_END: '2025-03-10' });
+		const config = getConfig();
+		assert.strictEqual(config.periodMode, 'custom');
+		assert.strictEqual(config.periodStart.toISOString(), '2025-03-01T00:00:00.000Z');
+		assert.strictEqual(config.periodEnd.toISOString(), '2025-03-10T23:59:59.999Z');
+		assert.strictEqual(config.sprintLengthDays, 10);
+		assert.strictEqual(config.previousPeriod.start.toISOString(), '2025-02-19T00:00:00.000Z');
+	});
+
+	it('starts and ends days in the timezone', () => {
+		setEnv({ INPUT_PERIOD_START: '2025-05-12', INPUT_PERIOD_END: '2025-05-25', INPUT_TIMEZONE: 'Australia/Sydney' });
+		const config = getConfig();
+		assert.strictEqual(config.timezone, 'Australia/Sydney');
+		assert.strictEqual(config.periodStart.toISOString(), '2025-05-11T14:00:00.000Z');
+		assert.strictEqual(config.periodEnd.toISOString(), '2025-05-25T13:59:59.999Z');
+		assert.strictEqual(config.sprintLengthDays, 14);
+	});
+
+	it('defaults the timezone to UTC and rejects unknown ones', () => {
+		assert.strictEqual(getConfig().timezone, 'UTC');
+		setEnv({ INPUT_TIMEZONE: 'Mars/Olympus' });
+		assert.throws(() => getConfig(), { message: /Invalid timezone: Mars\/Olympus/ });
+	});
+
+	it('infers sprint mode from sprint-anchor', () => {
+		setEnv({ INPUT_SPRINT_ANCHOR: '2025-01-06', INPUT_SPRINT_LENGTH_DAYS: '14' });
+		const config = getConfig();
+		assert.strictEqual(config.periodMode, 'sprint');
+		assert.match(config.periodLabel!, /^Sprint \d+ \(/);
+		assert.strictEqual(config.sprintLengthDays, 14);
+		assert.strictEqual((config.periodStart.getTime() - Date.UTC(2025, 0, 6)) % (14 * 86400000), 0);
+	});
+
+	it('reads calendar modes', () => {
+		setEnv({ INPUT_PERIOD: 'Month' });
+		const config = getConfig();
+		assert.strictEqual(config.periodMode, 'month');
+		assert.strictEqual(config.periodStart.getUTCDate(), 1);
+	});
+
+	it('rejects unknown modes and malformed dates', () => {
+		setEnv({ INPUT_PERIOD: 'fortnight' });
+		assert.throws(() => getConfig(), { message: /Invalid period: fortnight/ });
+		clearEnv(['INPUT_PERIOD']);
+		setEnv({ INPUT_PERIOD_START: '2025-02-30' });
+		assert.throws(() => getConfig(), { message: /Invalid period-start: 2025-02-30/ });
+	});
+
+	it('rejects inconsistent inputs', () => {
+		setEnv({ INPUT_PERIOD: 'sprint' });
+		assert.throws(() => getConfig(), { message: /needs sprint-anchor/ });
+		setEnv({ INPUT_PERIOD: 'month', INPUT_PERIOD_START: '2025-01-01' });
+		assert.throws(() => getConfig(), { message: /cannot be used with period: month/ });
+		setEnv({ INPUT_PERIOD: 'custom', INPUT_PERIOD_START: '2025-02-01', INPUT_PERIOD_END: '2025-01-01' });
+		assert.throws(() => getConfig(), { message: /is before period-start/ });
+	});
+
+	it('reads a project iteration source', () => {
+		setEnv({ INPUT_PERIOD: 'iteration', INPUT_PROJECT: 'acme/12', INPUT_ITERATION_FIELD: 'Sprint', INPUT_LINKED_PRS_ONLY: 'true' });
+		assert.deepStrictEqual(getConfig().periodSource, {
+			type: 'iteration',
+			current: false,
+			linkedOnly: true,
+			projectOwner: 'acme',
+			projectNumber: 12,
+			iterationField: 'Sprint',
+		});
+	});
+
+	it('defaults the project owner to the repository owner', () => {
+		setEnv({ INPUT_PERIOD: 'iteration', INPUT_PROJECT: '3' });
+		const source = getConfig().periodSource!;
+		assert.strictEqual(source.projectOwner, undefined);
+		assert.strictEqual(source.projectNumber, 3);
+	});
+
+	it('needs a project for iterations', () => {
+		setEnv({ INPUT_PERIOD: 'iteration' });
+		assert.throws(() => getConfig(), { message: /period: iteration needs project/ });
+		setEnv({ INPUT_PROJECT: 'https://github.com/orgs/acme/projects/3' });
+		assert.throws(() => getConfig(), { message: /Invalid project/ });
+	});
+
+	it('reads a milestone source for the milestone in progress', () => {
+		setEnv({ INPUT_PERIOD: 'milestone', INPUT_CURRENT_PERIOD: 'true' });
+		assert.deepStrictEqual(getConfig().periodSource, { type: 'milestone', current: true, linkedOnly: false });
+	});
+
+	it('reads a release range, inferred from the tags', () => {
+		setEnv({ INPUT_FROM_TAG: 'v1.2.0', INPUT_TO_TAG: 'v1.3.0' });
+		assert.deepStrictEqual(getConfig().periodSource, {
+			type: 'release',
+			current: false,
+			linkedOnly: false,
+			fromTag: 'v1.2.0',
+			toTag: 'v1.3.0',
+		});
+	});
+
+	it('uses the latest releases without tags', () => {
+		setEnv({ INPUT_PERIOD: 'release' });
+		const source = getConfig().periodSource!;
+		assert.strictEqual(source.type, 'release');
+		assert.strictEqual(source.fromTag, undefined);
+	});
+
+	it('needs both tags, and only for releases', () => {
+		setEnv({ INPUT_FROM_TAG: 'v1.2.0' });
+		assert.throws(() => getConfig(), { message: /must be given together/ });
+		setEnv({ INPUT_PERIOD: 'month', INPUT_TO_TAG: 'v1.3.0' });
+		assert.throws(() => getConfig(), { message: /cannot be used with period: month/ });
+	});
+
+	it('has no source for other modes', () => {
+		setEnv({ INPUT_LINKED_PRS_ONLY: 'true' });
+		assert.strictEqual(getConfig().periodSource, undefined);
+	});
+});
+
+describe('getConfig — working calendar', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('uses wall-clock hours by default', () => {
+		setEnv({ INPUT_TIMEZONE: 'Europe/Berlin' });
+		assert.strictEqual(getConfig().workingCalendar, undefined);
+	});
+
+	it('defaults to Mon–Fri 09:00–17:00 UTC', () => {
+		setEnv({ INPUT_WORKING_DAYS: 'mon-fri' });
+		assert.deepStrictEqual(getConfig().workingCalendar, {
+			workingDays: [1, 2, 3, 4, 5],
+			startMinute: 540,
+			endMinute: 1020,
+			timezone: 'UTC',
+			holidays: [],
+		});
+	});
+
+	it('reads days, hours and timezone', () => {
+		setEnv({ INPUT_WORKING_DAYS: 'Sun-Wed, thursday', INPUT_WORKING_HOURS: '08:30 - 16:30', INPUT_TIMEZONE: 'Asia/Jerusalem' });
+		assert.deepStrictEqual(getConfig().workingCalendar, {
+			workingDays: [0, 1, 2, 3, 4],
+			startMinute: 510,
+			endMinute: 990,
+			timezone: 'Asia/Jerusalem',
+			holidays: [],
+		});
+	});
+
+	it('keeps wall-clock hours with only holidays', () => {
+		setEnv({ INPUT_HOLIDAYS: '2025-12-25,2025-12-26' });
+		assert.deepStrictEqual(getConfig().workingCalendar, {
+			workingDays: [0, 1, 2, 3, 4, 5, 6],
+			startMinute: 0,
+			endMinute: 1440,
+			timezone: 'UTC',
+			holidays: ['2025-12-25', '2025-12-26'],
+		});
+	});
+
+	it('adds holidays to business hours', () => {
+		setEnv({ INPUT_WORKING_DAYS: 'mon-fri', INPUT_HOLIDAYS: '2025-12-24..2025-12-26' });
+		assert.deepStrictEqual(getConfig().workingCalendar!.holidays, ['2025-12-24', '2025-12-25', '2025-12-26']);
+	});
+
+	it('wraps day ranges around the weekend', () => {
+		setEnv({ INPUT_WORKING_DAYS: 'fri-mon' });
+		assert.deepStrictEqual(getConfig().workingCalendar!.workingDays, [0, 1, 5, 6]);
+	});
+
+	it('rejects unknown days', () => {
+		setEnv({ INPUT_WORKING_DAYS: 'mon-funday' });
+		assert.throws(() => getConfig(), { message: /Invalid working-days entry "mon-funday"/ });
+	});
+
+	it('rejects malformed or empty hours', () => {
+		for (const hours of ['9-5', '17:00-09:00', '09:00-25:00', '09:75-17:00']) {
+			setEnv({ INPUT_WORKING_HOURS: hours });
+			assert.throws(() => getConfig(), { message: /Invalid working-hours/ }, hours);
+		}
+	});
+
+	it('rejects unknown timezones', () => {
+		setEnv({ INPUT_WORKING_HOURS: '09:00-17:00', INPUT_TIMEZONE: 'Mars/Olympus' });
+		assert.throws(() => getConfig(), { message: /Invalid timezone: Mars\/Olympus/ });
+	});
+});
+
+describe('getConfig — config file', () => {
+	let dir: string;
+
+	function writeConfigFile(lines: string[], name = '.github/pr-metrics.yml') {
+		fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+		fs.writeFileSync(path.join(dir, name), lines.join('\n'));
+	}
+
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-file-'));
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r', GITHUB_WORKSPACE: dir });
+	});
+	afterEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('reads thresholds, filters and output options from .github/pr-metrics.yml', () => {
+		writeConfigFile([
+			'thresholds:',
+			'  cycle-time-warning-hours: 48',
+			'  concentration-warning: 0.5',
+			'  pr-size-critical: 800',
+			'  build-success-warning: 95',
+			'filters:',
+			'  workflow-filter: ci.yml',
+			'  deployment-environment: production',
+			'  repositories:',
+			'    - o/api',
+			'    - o/web',
+			'output:',
+			'  post-as: issue-comment',
+			'  issue-number: 7',
+			'  compare-previous: true',
+		]);
+		const config = getConfig();
+		assert.strictEqual(config.thresholds.cycleTimeWarningHours, 48);
+		assert.strictEqual(config.thresholds.cycleTimeCriticalHours, 168);
+		assert.strictEqual(config.thresholds.concentrationWarning, 0.5);
+		assert.strictEqual(config.thresholds.prSizeCritical, 800);
+		assert.strictEqual(config.thresholds.buildSuccessWarning, 95);
+		assert.strictEqual(config.workflowFilter, 'ci.yml');
+		assert.strictEqual(config.deploymentEnvironment, 'production');
+		assert.deepStrictEqual(config.repositories, ['o/api', 'o/web']);
+		assert.strictEqual(config.postAs, 'issue-comment');
+		assert.strictEqual(config.issueNumber, 7);
+		assert.strictEqual(config.comparePrevious, true);
+	});
+
+	it('reads measurement and storage options from the file', () => {
+		writeConfigFile([
+			'measurement:',
+			'  sprint-length-days: 7',
+			'  cycle-time-start: ready',
+			'  timezone: Europe/Berlin',
+			'  working-days: mon-thu',
+			'  working-hours: 08:00-16:00',
+			'  holidays:',
+			'    - 2025-12-25',
+			'    - 2025-12-26',
+			'storage:',
+			'  cache-path: .cache',
+			'  cache-refresh: true',
+			'  history-branch: metrics',
+			'  history-limit: 4',
+		]);
+		const config = getConfig();
+		assert.strictEqual(config.sprintLengthDays, 7);
+		assert.strictEqual(config.cycleTimeStart, 'ready');
+		assert.strictEqual(config.timezone, 'Europe/Berlin');
+		assert.deepStrictEqual(config.workingCalendar, {
+			workingDays: [1, 2, 3, 4],
+			startMinute: 8 * 60,
+			endMinute: 16 * 60,
+			timezone: 'Europe/Berlin',
+			holidays: ['2025-12-25', '2025-12-26'],
+		});
+		assert.strictEqual(config.cachePath, '.cache');
+		assert.strictEqual(config.cacheRefresh, true);
+		assert.deepStrictEqual(config.history, { branch: 'metrics', path: 'history', limit: 4 });
+	});
+
+	it('lets inputs override the file', () => {
+		writeConfigFile(['thresholds:', '  review-warning-hours: 12', 'output:', '  compare-previous: true']);
+		setEnv({ INPUT_REVIEW_WARNING_HOURS: '30', INPUT_COMPARE_PREVIOUS: 'false' });
+		const config = getConfig();
+		assert.strictEqual(config.thresholds.reviewWarningHours, 30);
+		assert.strictEqual(config.comparePrevious, false);
+	});
+
+	it('lets action inputs override the file', () => {
+		writeConfigFile(['thresholds:', '  wip-warning-ratio: 1.5', '  wip-critical-ratio: 4']);
+		setEnv({ GITHUB_ACTIONS: 'true', 'INPUT_WIP-WARNING-RATIO': '2.5' });
+		const config = getConfig();
+		assert.strictEqual(config.thresholds.wipWarningRatio, 2.5);
+		assert.strictEqual(config.thresholds.wipCriticalRatio, 4);
+	});
+
+	it('reads another file given by config-file', () => {
+		writeConfigFile(['output:', '  trend-charts: true'], 'metrics/team.yml');
+		setEnv({ INPUT_CONFIG_FILE: 'metrics/team.yml', INPUT_HISTORY_BRANCH: 'metrics' });
+		assert.strictEqual(getConfig().trendCharts, true);
+	});
+
+	it('runs without a file at the default path but not at an explicit one', () => {
+		assert.strictEqual(getConfig().thresholds.prSizeWarning, 400);
+		setEnv({ INPUT_CONFIG_FILE: 'missing.yml' });
+		assert.throws(() => getConfig(), { message: /Could not read config-file missing.yml/ });
+	});
+
+	it('rejects an invalid file, pointing at the line', () => {
+		writeConfigFile(['output:', '  post-as: summary', '  post-as-comment: true']);
+		assert.throws(() => getConfig(), { message: /\.github\/pr-metrics\.yml:3: unknown setting output\.post-as-comment/ });
+	});
+
+	it('logs the effective configuration without credentials in debug mode', (t) => {
+		writeConfigFile(['thresholds:', '  pr-size-warning: 250']);
+		setEnv({ RUNNER_DEBUG: '1', GITHUB_TOKEN: 'secret-token' });
+		const write = t.mock.method(process.stdout, 'write', () => true);
+		getConfig();
+		const output = write.mock.calls.map((c) => String(c.arguments[0])).join('');
+		write.mock.restore();
+		assert.match(output, /::debug::Effective configuration:/);
+		assert.match(output, /"prSizeWarning": 250/);
+		assert.ok(!output.includes('secret-token'));
+	});
+});
+
+describe('getConfig — metrics history', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('is disabled by default', () => {
+		assert.strictEqual(getConfig().history, undefined);
+	});
+
+	it('defaults the path on a data branch', () => {
+		setEnv({ INPUT_HISTORY_BRANCH: 'pr-metrics-data' });
+		assert.deepStrictEqual(getConfig().history, { branch: 'pr-metrics-data', path: 'history', limit: 12 });
+	});
+
+	it('stores on the default branch when only a path is set', () => {
+		setEnv({ INPUT_HISTORY_PATH: '/.github/metrics/', INPUT_HISTORY_LIMIT: '4' });
+		assert.deepStrictEqual(getConfig().history, { branch: undefined, path: '.github/metrics', limit: 4 });
+	});
+
+	it('enables trend charts only with history', () => {
+		setEnv({ INPUT_TREND_CHARTS: 'true' });
+		assert.strictEqual(getConfig().trendCharts, false);
+		setEnv({ INPUT_HISTORY_BRANCH: 'data' });
+		assert.strictEqual(getConfig().trendCharts, true);
+	});
+
+	it('rejects an invalid history-limit', () => {
+		setEnv({ INPUT_HISTORY_BRANCH: 'data', INPUT_HISTORY_LIMIT: '0' });
+		assert.throws(() => getConfig(), { message: /Invalid history-limit/ });
+	});
+});
+
+describe('getConfig — repositories', () => {
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+	});
+	afterEach(() => clearEnv(ALL_ENV_KEYS));
+
+	it('defaults to no extra repositories', () => {
+		const config = getConfig();
+		assert.deepStrictEqual(config.repositories, []);
+		assert.strictEqual(config.repositoryTopic, undefined);
+	});
+
+	it('parses newline and comma separated entries', () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/api\nacme/web,  acme/service-*\n' });
+		assert.deepStrictEqual(getConfig().repositories, ['acme/api', 'acme/web', 'acme/service-*']);
+	});
+
+	it('reads repository-topic', () => {
+		setEnv({ INPUT_REPOSITORIES: 'acme/*', INPUT_REPOSITORY_TOPIC: 'team-core' });
+		assert.strictEqual(getConfig().repositoryTopic, 'team-core');
+	});
+
+	it('rejects entries without an owner', () => {
+		setEnv({ INPUT_REPOSITORIES: 'api' });
+		assert.throws(() => getConfig(), { message: /Invalid repositories entry "api"/ });
+	});
+});
+
+describe('getConfig — record and replay', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		setEnv({ GITHUB_TOKEN: 't', GITHUB_REPOSITORY: 'o/r' });
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-replay-'));
+	});
+	afterEach(() => {
+		clearEnv(ALL_ENV_KEYS);
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('reads record-path', () => {
+		setEnv({ INPUT_RECORD_PATH: 'run.json' });
+		const config = getConfig();
+		assert.strictEqual(config.recordPath, 'run.json');
+		assert.strictEqual(config.replayPath, undefined);
+	});
+
+	it('rejects record-path together with replay-path', () => {
+		setEnv({ INPUT_RECORD_PATH: 'a.json', INPUT_REPLAY_PATH: 'b.json' });
+		assert.throws(() => getConfig(), { message: /cannot be used together/ });
+	});
+
+	it('takes repository and period from the recording on replay', () => {
+		const file = path.join(dir, 'recording.json');
+		fs.writeFileSync(file, JSON.stringify({
+			version: 1,
+			recordedAt: '2025-01-14T00:00:00.000Z',
+			meta: {
+				repository: 'customer/app',
+				periodStart: '2025-01-01T00:00:00.000Z',
+				periodEnd: '2025-01-08T00:00:00.000Z',
+				sprintLengthDays: 7,
+				cycleTimeStart: 'ready',
+			},
+			exchanges: [],
+		}));
+		clearEnv(['GITHUB_TOKEN', 'GITHUB_REPOSITORY']);
+		setEnv({ INPUT_REPLAY_PATH: file });
+
+		const config = getConfig();
+		assert.strictEqual(config.cycleTimeStart, 'ready');
+		assert.strictEqual(config.owner, 'customer');
+		assert.strictEqual(config.repo, 'app');
+		assert.strictEqual(config.sprintLengthDays, 7);
+		assert.strictEqual(config.periodStart.toISOString(), '2025-01-01T00:00:00.000Z');
+		assert.strictEqual(config.periodEnd.toISOString(), '2025-01-08T00:00:00.000Z');
+		assert.strictEqual(config.periodMode, 'rolling');
+		assert.strictEqual(config.previousPeriod.start.toISOString(), '2024-12-25T00:00:00.000Z');
+	});
+
+	it('takes the period mode, label and previous window from the recording', () => {
+		const file = path.join(dir, 'recording.json');
+		fs.writeFileSync(file, JSON.stringify({
+			version: 1,
+			recordedAt: '2025-04-02T00:00:00.000Z',
+			meta: {
+				repository: 'customer/app',
+				periodStart: '2025-03-01T00:00:00.000Z',
+				periodEnd: '2025-03-31T23:59:59.999Z',
+				sprintLengthDays: 31,
+				periodMode: 'month',
+				periodLabel: 'March 2025',
+				previousPeriodStart: '2025-02-01T00:00:00.000Z',
+				previousPeriodEnd: '2025-02-28T23:59:59.999Z',
+				previousPeriodDays: 28,
+				timezone: 'Europe/Berlin',
+			},
+			exchanges: [],
+		}));
+		clearEnv(['GITHUB_TOKEN', 'GITHUB_REPOSITORY']);
+		setEnv({ INPUT_REPLAY_PATH: file, INPUT_PERIOD: 'quarter', INPUT_TIMEZONE: 'Asia/Tokyo' });
+
+		const config = getConfig();
+		assert.strictEqual(config.periodMode, 'month');
+		assert.strictEqual(config.periodLabel, 'March 2025');
+		assert.strictEqual(config.previousPeriod.lengthDays, 28);
+		assert.strictEqual(config.previousPeriod.start.toISOString(), '2025-02-01T00:00:00.000Z');
+		assert.strictEqual(config.timezone, 'Europe/Berlin');
+	});
 });
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+	changeFailureRateBand,
+	classifyDora,
+	deploymentFrequencyBand,
+	leadTimeBand,
+	timeToRestoreBand,
+} from '../dora';
+import { SprintMetrics } from '../metrics';
+
+function makeMetrics(overrides: Partial<SprintMetrics> = {}): SprintMetrics {
+	return {
+		cycleTimeMedianHours: 20,
+		cycleTimeP90Hours: 30,
+		cycleTimePhases: { coding: null, pickup: null, review: null, merge: null },
+		throughputCount: 5,
+		wipCount: 2,
+		draftTimeMedianHours: null,
+		draftPRCount: 0,
+		prSizeMedian: null,
+		prSizeCategory: null,
+		buildSuccessRate: null,
+		buildTotalRuns: null,
+		shipFrequency: null,
+		shipCount: null,
+		shipSource: null,
+		leadTimeMedianHours: null,
+		changeFailureRate: null,
+		failedChangeCount: 0,
+		failedChanges: [],
+		timeToRestoreMedianHours: null,
+		incidentCount: 0,
+		reviewTurnaroundMedianHours: 8,
+		collaboratorCount: 4,
+		concentrationRatio: 0.3,
+		reviewDepthScore: 2.0,
+		workingHoursPerDay: null,
+		nonWorkingDays: 0,
+		cycleTimeTrend: 'stable',
+		previousCycleTimeMedianHours: null,
+		prNumbers: [1, 2, 3, 4, 5],
+		...overrides,
+	};
+}
+
+describe('DORA bands', () => {
+	it('bands deployment frequency per day', () => {
+		assert.strictEqual(deploymentFrequencyBand(3), 'elite');
+		assert.strictEqual(deploymentFrequencyBand(1), 'elite');
+		assert.strictEqual(deploymentFrequencyBand(1 / 7), 'high');
+		assert.strictEqual(deploymentFrequencyBand(0.1), 'medium');
+		assert.strictEqual(deploymentFrequencyBand(1 / 30), 'medium');
+		assert.strictEqual(deploymentFrequencyBand(0.02), 'low');
+	});
+
+	it('bands lead time in hours', () => {
+		assert.strictEqual(leadTimeBand(2), 'elite');
+		assert.strictEqual(leadTimeBand(24), 'high');
+		assert.strictEqual(leadTimeBand(168), 'high');
+		assert.strictEqual(leadTimeBand(169), 'medium');
+		assert.strictEqual(leadTimeBand(720), 'medium');
+		assert.strictEqual(leadTimeBand(1000), 'low');
+	});
+
+	it('bands change failure rate in percent', () => {
+		assert.strictEqual(changeFailureRateBand(0), 'elite');
+		assert.strictEqual(changeFailureRateBand(15), 'elite');
+		assert.strictEqual(changeFailureRateBand(20), 'high');
+		assert.strictEqual(changeFailureRateBand(45), 'medium');
+		assert.strictEqual(changeFailureRateBand(60), 'low');
+	});
+
+	it('bands time to restore in hours', () => {
+		assert.strictEqual(timeToRestoreBand(0.5), 'elite');
+		assert.strictEqual(timeToRestoreBand(1), 'high');
+		assert.strictEqual(timeToRestoreBand(30), 'medium');
+		assert.strictEqual(timeToRestoreBand(168), 'low');
+	});
+});
+
+describe('classifyDora', () => {
+	it('has no overall band when nothing could be measured', () => {
+		const dora = classifyDora(makeMetrics());
+		assert.strictEqual(dora.overall, null);
+		assert.deepStrictEqual(dora.keys.map((k) => [k.key, k.band]), [
+			['deployment-frequency', null],
+			['lead-time', null],
+			['change-failure-rate', null],
+			['time-to-restore', null],
+		]);
+		assert.strictEqual(dora.keys[0].reason, 'no deployments or releases in the period');
+	});
+
+	it('takes the lowest band of the measured keys', () => {
+		const dora = classifyDora(makeMetrics({ shipFrequency: 2, shipCount: 28, shipSource: 'deployment', leadTimeMedianHours: 72 }));
+		assert.strictEqual(dora.keys[0].band, 'elite');
+		assert.strictEqual(dora.keys[1].band, 'high');
+		assert.strictEqual(dora.overall, 'high');
+	});
+
+	it('bands the change failure rate', () => {
+		const dora = classifyDora(makeMetrics({ changeFailureRate: 20 }));
+		assert.deepStrictEqual(dora.keys[2], { key: 'change-failure-rate', value: 20, band: 'high' });
+		assert.strictEqual(dora.overall, 'high');
+	});
+
+	it('bands time to restore in wall-clock hours', () => {
+		const dora = classifyDora(makeMetrics({ timeToRestoreMedianHours: 2, timeToRestoreWallClockHours: 30, incidentCount: 1 }));
+		assert.deepStrictEqual(dora.keys[3], { key: 'time-to-restore', value: 30, band: 'medium' });
+	});
+
+	it('explains a missing time to restore', () => {
+		assert.strictEqual(classifyDora(makeMetrics()).keys[3].reason, 'no incidents in the period');
+	});
+
+	it('passes on why the incident issues could not be listed', () => {
+		const dora = classifyDora(makeMetrics({ timeToRestoreError: 'could not list issues labelled sev1: 403 Forbidden' }));
+		assert.strictEqual(dora.keys[3].reason, 'could not list issues labelled sev1: 403 Forbidden');
+	});
+
+	it('explains a missing lead time when there were deployments', () => {
+		const dora = classifyDora(makeMetrics({ shipFrequency: 0.5, shipCount: 7, shipSource: 'deployment' }));
+		assert.strictEqual(dora.keys[1].band, null);
+		assert.strictEqual(dora.keys[1].reason, 'no merged PR reached a deployment or release');
+		assert.strictEqual(dora.overall, 'high');
+	});
+
+	it('uses wall-clock lead time when durations are business hours', () => {
+		const dora = classifyDora(makeMetrics({
+			shipFrequency: 1,
+			shipCount: 14,
+			shipSource: 'deployment',
+			leadTimeMedianHours: 16,
+			leadTimeWallClockHours: 96,
+			workingHoursPerDay: 8,
+		}));
+		assert.strictEqual(dora.keys[1].value, 96);
+		assert.strictEqual(dora.keys[1].band, 'high');
+	});
+});
@@ -0,0 +1,391 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert';
+import { GitHubClient } from '../github-client';
+import { RequestScheduler } from '../request-scheduler';
+
+// ---------------------------------------------------------------------------
+// Helpers: a stand-in for the Octokit methods the client calls, shared
+// with the client the way forRepository shares a connection
+// ---------------------------------------------------------------------------
+
+interface FakeOctokit {
+	graphql: ReturnType<typeof mock.fn>;
+	paginate?: ReturnType<typeof mock.fn>;
+	rest: Record<string, Record<string, ReturnType<typeof mock.fn>>>;
+}
+
+function makeClient(octokit: FakeOctokit): GitHubClient {
+	return new GitHubClient('', 'acme', 'api', undefined, {
+		octokit: octokit as any,
+		scheduler: new RequestScheduler(),
+	});
+}
+
+function makeOctokit(overrides: Partial<FakeOctokit> = {}): FakeOctokit {
+	const unexpected = (name: string) => mock.fn(async () => {
+		throw new Error(`unexpected call to ${name}`);
+	});
+	return {
+		graphql: unexpected('graphql'),
+		...overrides,
+		rest: {
+			pulls: {
+				listReviews: unexpected('pulls.listReviews'),
+				listReviewComments: unexpected('pulls.listReviewComments'),
+				get: unexpected('pulls.get'),
+				listCommits: unexpected('pulls.listCommits'),
+			},
+			issues: { listEventsForTimeline: unexpected('issues.listEventsForTimeline') },
+			search: { issuesAndPullRequests: unexpected('search.issuesAndPullRequests') },
+			...overrides.rest,
+		},
+	};
+}
+
+function reviewNode(author: string, comments = 0) {
+	return { author: { login: author }, state: 'APPROVED', submittedAt: '2025-01-02T00:00:00Z', body: '', comments: { totalCount: comments } };
+}
+
+function prNode(number: number, overrides: Record<string, unknown> = {}) {
+	return {
+		number,
+		additions: number * 10,
+		deletions: number,
+		reviews: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [reviewNode('bob')] },
+		commits: { nodes: [{ commit: { authoredDate: '2025-01-01T00:00:00Z', committedDate: '2025-01-01T01:00:00Z' } }] },
+		timelineItems: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] },
+		...overrides,
+	};
+}
+
+/**
+ * Answers batch queries from the aliases they ask for
+ */
+function batchGraphql(nodeFor: (n: number) => unknown = (n) => prNode(n)) {
+	return mock.fn(async (query: string) => {
+		const numbers = [...query.matchAll(/pr(\d+): pullRequest/g)].map((m) => Number(m[1]));
+		return { repository: Object.fromEntries(numbers.map((n) => [`pr${n}`, nodeFor(n)])) };
+	});
+}
+
+// ---------------------------------------------------------------------------
+// getReviewsAndSizes — GraphQL batching
+// ---------------------------------------------------------------------------
+
+describe('GitHubClient.getReviewsAndSizes', () => {
+	it('maps each alias back to its PR, batching 25 PRs per query', async () => {
+		const graphql = batchGraphql((n) => (n === 3 ? null : prNode(n)));
+		const client = makeClient(makeOctokit({ graphql }));
+		const numbers = Array.from({ length: 30 }, (_, i) => i + 1);
+
+		const { reviewsByPR, sizesByPR } = await client.getReviewsAndSizes(numbers);
+
+		assert.strictEqual(graphql.mock.callCount(), 2);
+		assert.match(graphql.mock.calls[0].arguments[0] as string, /pr25: pullRequest\(number: 25\)/);
+		assert.deepStrictEqual(sizesByPR.get(2), { additions: 20, deletions: 2 });
+		assert.deepStrictEqual(sizesByPR.get(30), { additions: 300, deletions: 30 });
+		assert.strictEqual(reviewsByPR.get(2)![0].prNumber, 2);
+		// A PR missing from the response gets empty details
+		assert.deepStrictEqual(sizesByPR.get(3), { additions: 0, deletions: 0 });
+		assert.deepStrictEqual(reviewsByPR.get(3), []);
+	});
+
+	it('pages through reviews past the first 100, counting their comments', async () => {
+		const graphql = mock.fn(async (query: string, variables: { cursor?: string }) => {
+			if (!variables.cursor) {
+				return { repository: { pr1: prNode(1, {
+					reviews: { pageInfo: { hasNextPage: true, endCursor: 'c1' }, nodes: [reviewNode('bob', 2)] },
+				}) } };
+			}
+			assert.match(query, /after: \$cursor/);
+			const page = variables.cursor === 'c1'
+				? { pageInfo: { hasNextPage: true, endCursor: 'c2' }, nodes: [reviewNode('carol', 1)] }
+				: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [reviewNode('dave', 3)] };
+			return { repository: { pullRequest: { reviews: page } } };
+		});
+		const client = makeClient(makeOctokit({ graphql }));
+
+		const { reviewsByPR } = await client.getReviewsAndSizes([1]);
+
+		assert.strictEqual(graphql.mock.callCount(), 3);
+		const reviews = reviewsByPR.get(1)!;
+		assert.deepStrictEqual(reviews.map((r) => r.author), ['bob', 'carol', 'dave']);
+		// 6 inline comments spread over the 3 reviews
+		assert.strictEqual(reviews.reduce((sum, r) => sum + r.commentCount, 0), 6);
+	});
+
+	it('pages through draft events past the first 100', async () => {
+		const event = (type: string, createdAt: string) => ({ __typename: type, createdAt });
+		const graphql = mock.fn(async (query: string, variables: { cursor?: string }) => {
+			if (!variables.cursor) {
+				return { repository: { pr1: prNode(1, {
+					timelineItems: { pageInfo: { hasNextPage: true, endCursor: 't1' }, nodes: [event('ConvertToDraftEvent', '2025-01-01T02:00:00Z')] },
+				}) } };
+			}
+			assert.match(query, /timelineItems\(first: 100, after: \$cursor/);
+			const page = { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [event('ReadyForReviewEvent', '2025-01-01T06:00:00Z')] };
+			return { repository: { pullRequest: { timelineItems: page } } };
+		});
+		const client = makeClient(makeOctokit({ graphql }));
+
+		const { draftEventsByPR } = await client.getReviewsAndSizes([1]);
+
+		assert.strictEqual(graphql.mock.callCount(), 2);
+		assert.deepStrictEqual(draftEventsByPR.get(1)!.map((e) => e.type), ['convert_to_draft', 'ready_for_review']);
+	});
+
+	it('falls back to REST for a batch when its query fails', async () => {
+		const graphql = mock.fn(async () => {
+			throw new Error('Something went wrong while executing your query');
+		});
+		const pulls = {
+			listReviews: mock.fn(async () => ({ data: [{ user: { login: 'bob' }, state: 'APPROVED', submitted_at: '2025-01-02T00:00:00Z', body: 'LGTM' }] })),
+			listReviewComments: mock.fn(async () => ({ data: [{}, {}] })),
+			get: mock.fn(async ({ pull_number }: { pull_number: number }) => ({ data: { additions: pull_number * 100, deletions: 5 } })),
+			listCommits: mock.fn(async () => ({ data: [] })),
+		};
+		const issues = { listEventsForTimeline: mock.fn(async () => ({ data: [{ event: 'ready_for_review', created_at: '2025-01-01T06:00:00Z' }] })) };
+		const client = makeClient(makeOctokit({ graphql, rest: { pulls, issues } }));
+
+		const { reviewsByPR, sizesByPR, draftEventsByPR } = await client.getReviewsAndSizes([1, 2]);
+
+		assert.strictEqual(pulls.get.mock.callCount(), 2);
+		assert.deepStrictEqual(sizesByPR.get(2), { additions: 200, deletions: 5 });
+		// The review body plus both inline comments
+		assert.strictEqual(reviewsByPR.get(1)![0].commentCount, 3);
+		assert.strictEqual(draftEventsByPR.get(1)![0].type, 'ready_for_review');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// getFirstCommitDates — reuse of fetched details
+// ---------------------------------------------------------------------------
+
+describe('GitHubClient.getFirstCommitDates', () => {
+	it('reuses first commits fetched with the reviews', async () => {
+		const graphql = batchGraphql();
+		const octokit = makeOctokit({ graphql });
+		const client = makeClient(octokit);
+
+		await client.getReviewsAndSizes([1, 2]);
+		const dates = await client.getFirstCommitDates([1, 2]);
+
+		assert.strictEqual(graphql.mock.callCount(), 1);
+		assert.strictEqual(octokit.rest.pulls.listCommits.mock.callCount(), 0);
+		assert.deepStrictEqual(dates.get(1), new Date('2025-01-01T00:00:00Z'));
+	});
+
+	it('shares an in-flight fetch with a concurrent caller', async () => {
+		const graphql = batchGraphql();
+		const client = makeClient(makeOctokit({ graphql }));
+
+		const [{ sizesByPR }, dates] = await Promise.all([
+			client.getReviewsAndSizes([1, 2]),
+			client.getFirstCommitDates([1, 2]),
+		]);
+
+		assert.strictEqual(graphql.mock.callCount(), 1);
+		assert.deepStrictEqual(sizesByPR.get(1), { additions: 10, deletions: 1 });
+		assert.strictEqual(dates.size, 2);
+	});
+
+	it('looks up first commits over REST when the details came from the fallback', async () => {
+		const graphql = mock.fn(async () => {
+			throw new Error('GraphQL unavailable');
+		});
+		const pulls = {
+			listReviews: mock.fn(async () => ({ data: [] })),
+			listReviewComments: mock.fn(async () => ({ data: [] })),
+			get: mock.fn(async () => ({ data: { additions: 1, deletions: 1 } })),
+			listCommits: mock.fn(async () => ({ data: [{ commit: { author: { date: '2024-12-30T00:00:00Z' }, committer: null } }] })),
+		};
+		const issues = { listEventsForTimeline: mock.fn(async () => ({ data: [] })) };
+		const client = makeClient(makeOctokit({ graphql, rest: { pulls, issues } }));
+
+		await client.getReviewsAndSizes([1]);
+		const dates = await client.getFirstCommitDates([1]);
+
+		assert.strictEqual(pulls.listCommits.mock.callCount(), 1);
+		assert.deepStrictEqual(dates.get(1), new Date('2024-12-30T00:00:00Z'));
+	});
+});
+
+// ---------------------------------------------------------------------------
+// getMergedPRs — search windows
+// ---------------------------------------------------------------------------
+
+/**
+ * Search over PRs by merge time, honouring the merged: range, the
+ * 1000-result cap and paging. `slackMs` widens the lower bound, as
+ * search can match the boundary second in both halves of a split.
+ */
+function searchOver(mergedAts: Date[], slackMs = 0) {
+	const prs = mergedAts.map((mergedAt, i) => ({
+		number: i + 1,
+		title: `PR #${i + 1}`,
+		created_at: '2024-12-01T00:00:00Z',
+		updated_at: mergedAt.toISOString(),
+		user: { login: 'alice' },
+		body: '',
+		labels: [],
+		pull_request: { merged_at: mergedAt.toISOString() },
+	}));
+	return mock.fn(async ({ q, page, per_page }: { q: string; page: number; per_page: number }) => {
+		const [, fromText, toText] = q.match(/merged:(\S+)\.\.(\S+)/)!;
+		const from = new Date(fromText.includes('T') ? fromText : `${fromText}T00:00:00Z`).getTime() - slackMs;
+		const to = new Date(toText.includes('T') ? toText : `${toText}T23:59:59Z`).getTime();
+		const matching = prs.filter((pr) => {
+			const merged = new Date(pr.pull_request.merged_at).getTime();
+			return merged >= from && merged <= to;
+		});
+		const capped = matching.slice(0, 1000);
+		return { data: { total_count: matching.length, items: capped.slice((page - 1) * per_page, page * per_page) } };
+	});
+}
+
+function spread(count: number, from: string, stepMs: number): Date[] {
+	return Array.from({ length: count }, (_, i) => new Date(new Date(from).getTime() + i * stepMs));
+}
+
+describe('GitHubClient.getMergedPRs', () => {
+	const start = new Date('2025-01-01T00:00:00Z');
+	const end = new Date('2025-01-02T23:59:59Z');
+
+	function queries(search: ReturnType<typeof mock.fn>): string[] {
+		return [...new Set(search.mock.calls.map((c) => (c.arguments[0] as { q: string }).q))];
+	}
+
+	it('searches whole days as dates', async () => {
+		const search = searchOver(spread(3, '2025-01-01T10:00:00Z', 3600000));
+		const client = makeClient(makeOctokit({ rest: { search: { issuesAndPullRequests: search } } }));
+
+		const prs = await client.getMergedPRs(start, end);
+
+		assert.strictEqual(prs.length, 3);
+		assert.deepStrictEqual(queries(search), ['repo:acme/api is:pr is:merged merged:2025-01-01..2025-01-02']);
+		assert.strictEqual(client.getMergedPRsQueryCount(), 1);
+	});
+
+	it('searches timestamps for days in another timezone', async () => {
+		const search = searchOver([]);
+		const client = makeClient(makeOctokit({ rest: { search: { issuesAndPullRequests: search } } }));
+
+		await client.getMergedPRs(start, end, 'Australia/Sydney');
+
+		// Sydney is UTC+11 in January, so the period runs Jan 1 to Jan 3 there
+		assert.deepStrictEqual(queries(search), ['repo:acme/api is:pr is:merged merged:2024-12-31T13:00:00Z..2025-01-03T12:59:59Z']);
+	});
+
+	it('splits a window over 1000 results into halves', async () => {
+		const search = searchOver([
+			...spread(600, '2025-01-01T00:00:00Z', 60000),
+			...spread(600, '2025-01-02T00:00:00Z', 60000),
+		]);
+		const client = makeClient(makeOctokit({ rest: { search: { issuesAndPullRequests: search } } }));
+
+		const prs = await client.getMergedPRs(start, end);
+
+		assert.strictEqual(prs.length, 1200);
+		assert.strictEqual(client.getMergedPRsQueryCount(), 2);
+		assert.deepStrictEqual(queries(search).slice(1), [
+			'repo:acme/api is:pr is:merged merged:2025-01-01..2025-01-01',
+			'repo:acme/api is:pr is:merged merged:2025-01-02..2025-01-02',
+		]);
+	});
+
+	it('returns a PR on the split boundary once', async () => {
+		const boundary = new Date('2025-01-01T23:59:59Z');
+		const search = searchOver([
+			...spread(600, '2025-01-01T00:00:00Z', 60000),
+			boundary,
+			...spread(600, '2025-01-02T00:00:00Z', 60000),
+		], 1000);
+		const client = makeClient(makeOctokit({ rest: { search: { issuesAndPullRequests: search } } }));
+
+		const prs = await client.getMergedPRs(start, end);
+
+		assert.strictEqual(prs.filter((pr) => pr.mergedAt.getTime() === boundary.getTime()).length, 1);
+		assert.strictEqual(new Set(prs.map((pr) => pr.number)).size, prs.length);
+	});
+
+	it('stops splitting a window that is still capped at one second', async () => {
+		const search = searchOver(spread(1500, '2025-01-01T12:00:00Z', 0));
+		const client = makeClient(makeOctokit({ rest: { search: { issuesAndPullRequests: search } } }));
+
+		const prs = await client.getMergedPRs(start, end);
+
+		// Search cannot return more than 1000 for the busy second
+		assert.strictEqual(prs.length, 1000);
+		assert.ok(search.mock.callCount() < 100, `${search.mock.callCount()} searches`);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// getWorkflowRuns — created: range
+// ---------------------------------------------------------------------------
+
+describe('GitHubClient.getWorkflowRuns', () => {
+	const start = new Date('2025-01-01T00:00:00Z');
+	const end = new Date('2025-01-02T23:59:59Z');
+
+	function runsOctokit() {
+		const iterator = mock.fn(async function* (_endpoint: unknown, _params: { created: string }) {
+			yield { data: [{ conclusion: 'success' }, { conclusion: 'failure' }, { conclusion: 'cancelled' }] };
+		});
+		const octokit = makeOctokit({
+			paginate: Object.assign(mock.fn(), { iterator }) as any,
+			rest: { actions: { listWorkflowRunsForRepo: mock.fn(), listWorkflowRuns: mock.fn() } },
+		});
+		return { octokit, created: () => iterator.mock.calls.map((c) => c.arguments[1].created) };
+	}
+
+	it('queries whole UTC days as dates', async () => {
+		const { octokit, created } = runsOctokit();
+		const runs = await makeClient(octokit).getWorkflowRuns(start, end);
+		assert.deepStrictEqual(created(), ['2025-01-01..2025-01-02']);
+		assert.deepStrictEqual(runs, { totalRuns: 2, successCount: 1, failureCount: 1 });
+	});
+
+	it('queries the days of another timezone as timestamps', async () => {
+		const { octokit, created } = runsOctokit();
+		// Local midnight Jan 1 to the end of Jan 2 in Sydney (UTC+11)
+		await makeClient(octokit).getWorkflowRuns(
+			new Date('2024-12-31T13:00:00Z'), new Date('2025-01-02T12:59:59Z'), undefined, 'Australia/Sydney'
+		);
+		assert.deepStrictEqual(created(), ['2024-12-31T13:00:00Z..2025-01-02T12:59:59Z']);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// getIncidents
+// ---------------------------------------------------------------------------
+
+describe('GitHubClient.getIncidents', () => {
+	const start = new Date('2025-01-01T00:00:00Z');
+	const end = new Date('2025-01-14T23:59:59Z');
+
+	it('keeps issues closed in the period, once each', async () => {
+		const issue = (number: number, closedAt: string) =>
+			({ number, title: `Outage ${number}`, created_at: '2024-12-31T00:00:00Z', closed_at: closedAt });
+		const paginate = mock.fn(async (_method: unknown, params: { labels: string }) => params.labels === 'sev1'
+			? [issue(1, '2025-01-02T00:00:00Z'), issue(2, '2025-01-20T00:00:00Z')]
+			: [issue(1, '2025-01-02T00:00:00Z'), { ...issue(3, '2025-01-03T00:00:00Z'), pull_request: {} }]);
+		const octokit = makeOctokit({ paginate, rest: { issues: { listForRepo: mock.fn() } } });
+
+		const incidents = await makeClient(octokit).getIncidents(start, end, ['sev1', 'outage']);
+		assert.deepStrictEqual(incidents.map((i) => i.number), [1]);
+		assert.strictEqual(paginate.mock.callCount(), 2);
+	});
+
+	it('throws instead of returning a partial list', async () => {
+		const paginate = mock.fn(async () => {
+			throw Object.assign(new Error('Forbidden'), { status: 403 });
+		});
+		const octokit = makeOctokit({ paginate, rest: { issues: { listForRepo: mock.fn() } } });
+
+		await assert.rejects(
+			makeClient(octokit).getIncidents(start, end, ['sev1']),
+			{ message: 'could not list issues labelled sev1: 403 Forbidden' }
+		);
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { MetricsHistory, createSnapshot, findPreviousSnapshot, HISTORY_SCHEMA_VERSION, HistorySnapshot } from '../history';
+import { SprintMetrics } from '../metrics';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory stand-in for the contents API methods of GitHubClient
+ */
+class FakeRepository {
+	files = new Map<string, { content: string; sha: string; branch?: string }>();
+	branches = new Set<string>(['main']);
+	writes: { path: string; branch?: string; sha?: string; message: string }[] = [];
+	private nextSha = 1;
+
+	async listDirectory(dir: string, ref?: string): Promise<string[]> {
+		return [...this.files.entries()]
+			.filter(([p, f]) => p.startsWith(`${dir}/`) && f.branch === ref)
+			.map(([p]) => p.slice(dir.length + 1));
+	}
+
+	async getFileContent(path: string, ref?: string) {
+		const file = this.files.get(path);
+		return file && file.branch === ref ? { content: file.content, sha: file.sha } : null;
+	}
+
+	async writeFile(path: string, content: string, message: string, branch?: string, sha?: string) {
+		this.writes.push({ path, branch, sha, message });
+		this.files.set(path, { content, sha: `sha-${this.nextSha++}`, branch });
+	}
+
+	async ensureBranch(branch: string) {
+		this.branches.add(branch);
+	}
+
+	put(path: string, snapshot: object, branch?: string) {
+		this.files.set(path, { content: JSON.stringify(snapshot), sha: `sha-${this.nextSha++}`, branch });
+	}
+}
+
+function makeMetrics(overrides: Partial<SprintMetrics> = {}): SprintMetrics {
+	return {
+		cycleTimeMedianHours: 20,
+		cycleTimeP90Hours: 30,
+		cycleTimePhases: { coding: null, pickup: null, review: null, merge: null },
+		throughputCount: 5,
+		wipCount: 2,
+		draftTimeMedianHours: null,
+		draftPRCount: 0,
+		prSizeMedian: null,
+		prSizeCategory: null,
+		buildSuccessRate: null,
+		buildTotalRuns: null,
+		shipFrequency: null,
+		shipCount: null,
+		shipSource: null,
+		leadTimeMedianHours: null,
+		changeFailureRate: null,
+		failedChangeCount: 0,
+		failedChanges: [],
+		timeToRestoreMedianHours: null,
+		incidentCount: 0,
+		reviewTurnaroundMedianHours: 4,
+		collaboratorCount: 3,
+		concentrationRatio: 0.4,
+		reviewDepthScore: 1.5,
+		workingHoursPerDay: null,
+		nonWorkingDays: 0,
+		cycleTimeTrend: 'stable',
+		previousCycleTimeMedianHours: null,
+		prNumbers: [1, 2, 3, 4, 5],
+		...overrides,
+	};
+}
+
+function makeSnapshot(periodEnd: string, overrides: Partial<HistorySnapshot> = {}): HistorySnapshot {
+	const end = new Date(`${periodEnd}T12:00:00Z`);
+	const start = new Date(end.getTime() - 14 * 24 * 60 * 60 * 1000);
+	return { ...createSnapshot(['o/r'], start, end, 14, makeMetrics()), ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// MetricsHistory
+// ---------------------------------------------------------------------------
+
+describe('MetricsHistory — load', () => {
+	let repo: FakeRepository;
+
+	beforeEach(() => {
+		repo = new FakeRepository();
+	});
+
+	it('returns nothing when the directory does not exist', async () => {
+		const history = new MetricsHistory(repo as any, { path: 'history', limit: 5 });
+		assert.deepStrictEqual(await history.load(new Date('2025-03-01T00:00:00Z')), []);
+	});
+
+	it('loads the latest snapshots before this period, oldest first', async () => {
+		for (const date of ['2025-01-01', '2025-01-15', '2025-01-29', '2025-02-12']) {
+			repo.put(`history/${date}.json`, makeSnapshot(date), 'pr-metrics-data');
+		}
+		const history = new MetricsHistory(repo as any, { branch: 'pr-metrics-data', path: 'history', limit: 2 });
+		const snapshots = await history.load(new Date('2025-02-26T00:00:00Z'));
+		assert.deepStrictEqual(snapshots.map((s) => s.periodEnd.split('T')[0]), ['2025-01-29', '2025-02-12']);
+	});
+
+	it('skips a snapshot for the current period (an earlier run today)', async () => {
+		repo.put('history/2025-02-12.json', makeSnapshot('2025-02-12'));
+		repo.put('history/2025-02-26.json', makeSnapshot('2025-02-26'));
+		const history = new MetricsHistory(repo as any, { path: 'history', limit: 5 });
+		const snapshots = await history.load(new Date('2025-02-26T18:00:00Z'));
+		assert.strictEqual(snapshots.length, 1);
+	});
+
+	it('skips other schema versions, unreadable and unrelated files', async () => {
+		repo.put('history/2025-01-01.json', makeSnapshot('2025-01-01', { schemaVersion: HISTORY_SCHEMA_VERSION + 1 }));
+		repo.files.set('history/2025-01-15.json', { content: '{not json', sha: 'x' });
+		repo.put('history/README.json', { hello: 'world' });
+		repo.put('history/2025-01-29.json', makeSnapshot('2025-01-29'));
+		const history = new MetricsHistory(repo as any, { path: 'history', limit: 5 });
+		const snapshots = await history.load(new Date('2025-02-26T00:00:00Z'));
+		assert.deepStrictEqual(snapshots.map((s) => s.periodEnd.split('T')[0]), ['2025-01-29']);
+	});
+});
+
+describe('MetricsHistory — save', () => {
+	it('creates the data branch and writes a file per period end', async () => {
+		const repo = new FakeRepository();
+		const history = new MetricsHistory(repo as any, { branch: 'pr-metrics-data', path: 'history', limit: 5 });
+		await history.save(makeSnapshot('2025-02-26'));
+
+		assert.ok(repo.branches.has('pr-metrics-data'));
+		assert.strictEqual(repo.writes.length, 1);
+		assert.strictEqual(repo.writes[0].path, 'history/2025-02-26.json');
+		assert.strictEqual(repo.writes[0].branch, 'pr-metrics-data');
+		assert.strictEqual(repo.writes[0].sha, undefined);
+		const stored = JSON.parse(repo.files.get('history/2025-02-26.json')!.content);
+		assert.strictEqual(stored.schemaVersion, HISTORY_SCHEMA_VERSION);
+		assert.strictEqual(stored.metrics.throughputCount, 5);
+	});
+
+	it('replaces an earlier snapshot for the same period', async () => {
+		const repo = new FakeRepository();
+		repo.put('history/2025-02-26.json', makeSnapshot('2025-02-26'));
+		const history = new MetricsHistory(repo as any, { path: 'history', limit: 5 });
+		await history.save(makeSnapshot('2025-02-26'));
+		assert.strictEqual(repo.writes[0].sha, 'sha-1');
+		assert.strictEqual(repo.branches.size, 1);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// findPreviousSnapshot
+// ---------------------------------------------------------------------------
+
+describe('findPreviousSnapshot', () => {
+	const snapshots = ['2025-01-15', '2025-01-29', '2025-02-05'].map((d) => makeSnapshot(d));
+
+	it('picks the latest snapshot ending by the start of this period', () => {
+		const previous = findPreviousSnapshot(snapshots, new Date('2025-01-30T12:00:00Z'));
+		assert.strictEqual(previous!.periodEnd.split('T')[0], '2025-01-29');
+	});
+
+	it('ignores snapshots overlapping this period', () => {
+		const previous = findPreviousSnapshot(snapshots, new Date('2025-01-20T00:00:00Z'));
+		assert.strictEqual(previous!.periodEnd.split('T')[0], '2025-01-15');
+	});
+
+	it('returns null when there is none', () => {
+		assert.strictEqual(findPreviousSnapshot(snapshots, new Date('2025-01-01T00:00:00Z')), null);
+	});
+});
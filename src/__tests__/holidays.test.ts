@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { loadHolidays, parseICalendar } from '../holidays';
+
+// ---------------------------------------------------------------------------
+// loadHolidays
+// ---------------------------------------------------------------------------
+
+describe('loadHolidays', () => {
+	it('reads dates and ranges, sorted and de-duplicated', () => {
+		assert.deepStrictEqual(
+			loadHolidays('2026-01-01, 2025-12-24..2025-12-26\n2025-12-25'),
+			['2025-12-24', '2025-12-25', '2025-12-26', '2026-01-01']
+		);
+	});
+
+	it('expands ranges across month and year ends', () => {
+		assert.deepStrictEqual(loadHolidays('2025-12-31..2026-01-02'), ['2025-12-31', '2026-01-01', '2026-01-02']);
+	});
+
+	it('reads .ics files through the file reader', () => {
+		const files: string[] = [];
+		const dates = loadHolidays('2025-05-01 .github/holidays.ics', (file) => {
+			files.push(file);
+			return 'BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20251225\nEND:VEVENT\nEND:VCALENDAR\n';
+		});
+		assert.deepStrictEqual(files, ['.github/holidays.ics']);
+		assert.deepStrictEqual(dates, ['2025-05-01', '2025-12-25']);
+	});
+
+	it('rejects malformed entries', () => {
+		for (const entry of ['25-12-2025', '2025-02-30', '2025-12-26..2025-12-24', 'next-friday']) {
+			assert.throws(() => loadHolidays(entry), { message: /Invalid holidays entry/ }, entry);
+		}
+	});
+
+	it('reports a missing calendar file', () => {
+		assert.throws(() => loadHolidays('does-not-exist.ics'), { message: /Could not read holiday calendar does-not-exist.ics/ });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// parseICalendar
+// ---------------------------------------------------------------------------
+
+describe('parseICalendar', () => {
+	it('treats an all-day DTEND as exclusive', () => {
+		const ics = [
+			'BEGIN:VCALENDAR',
+			'BEGIN:VEVENT',
+			'SUMMARY:Winter shutdown',
+			'DTSTART;VALUE=DATE:20251224',
+			'DTEND;VALUE=DATE:20251227',
+			'END:VEVENT',
+			'END:VCALENDAR',
+		].join('\r\n');
+		assert.deepStrictEqual(parseICalendar(ics), ['2025-12-24', '2025-12-25', '2025-12-26']);
+	});
+
+	it('ignores timed events, however long', () => {
+		const ics = [
+			'BEGIN:VEVENT',
+			'SUMMARY:Dentist',
+			'DTSTART;TZID=Europe/Berlin:20250430T100000',
+			'DTEND;TZID=Europe/Berlin:20250430T110000',
+			'END:VEVENT',
+			'BEGIN:VEVENT',
+			'SUMMARY:Team offsite',
+			'DTSTART:20250505T070000Z',
+			'DTEND:20250506T160000Z',
+			'END:VEVENT',
+			'BEGIN:VEVENT',
+			'SUMMARY:Labour Day',
+			'DTSTART;VALUE=DATE:20250501',
+			'END:VEVENT',
+		].join('\n');
+		assert.deepStrictEqual(parseICalendar(ics), ['2025-05-01']);
+	});
+
+	it('unfolds continuation lines and ignores dates outside events', () => {
+		const ics = [
+			'BEGIN:VCALENDAR',
+			'DTSTART:20250101T000000Z',
+			'BEGIN:VEVENT',
+			'SUMMARY:A very long',
+			'  holiday name',
+			'DTSTART;VALUE=DATE:2025',
+			' 0704',
+			'END:VEVENT',
+			'END:VCALENDAR',
+		].join('\n');
+		assert.deepStrictEqual(parseICalendar(ics), ['2025-07-04']);
+	});
+});
@@ -23,14 +23,21 @@ const defaultThresholds: Thresholds = {
 	prSizeCritical: 1000,
 	buildSuccessWarning: 90,
 	buildSuccessCritical: 75,
+	leadTimeWarningHours: 168,
+	leadTimeCriticalHours: 336,
+	shipFrequencyWarningPerWeek: 1,
+	shipFrequencyCriticalPerWeek: 0.25,
 };
 
 function makeMetrics(overrides: Partial<SprintMetrics> = {}): SprintMetrics {
 	return {
 		cycleTimeMedianHours: 20,
 		cycleTimeP90Hours: 30,
+		cycleTimePhases: { coding: null, pickup: null, review: null, merge: null },
 		throughputCount: 5,
 		wipCount: 2,
+		draftTimeMedianHours: null,
+		draftPRCount: 0,
 		prSizeMedian: null,
 		prSizeCategory: null,
 		buildSuccessRate: null,
@@ -39,11 +46,19 @@ function makeMetrics(overrides: Partial<SprintMetrics> = {}): SprintMetrics {
 		shipCount: null,
 		shipSource: null,
 		leadTimeMedianHours: null,
+		changeFailureRate: null,
+		failedChangeCount: 0,
+		failedChanges: [],
+		timeToRestoreMedianHours: null,
+		incidentCount: 0,
 		reviewTurnaroundMedianHours: 8,
 		collaboratorCount: 4,
 		concentrationRatio: 0.3,
 		reviewDepthScore: 2.0,
+		workingHoursPerDay: null,
+		nonWorkingDays: 0,
 		cycleTimeTrend: 'stable',
+		previousCycleTimeMedianHours: null,
 		prNumbers: [1, 2, 3, 4, 5],
 		...overrides,
 	};
@@ -126,6 +141,13 @@ describe('detectInsights — cycle time regression', () => {
 		);
 		assert.ok(insights[0].message.includes('7 days'));
 	});
+
+	it('names business hours and working days when on a working calendar', () => {
+		const warning = detectInsights(makeMetrics({ cycleTimeMedianHours: 80, workingHoursPerDay: 8 }), defaultThresholds);
+		assert.ok(warning[0].message.includes('80 business hours'));
+		const critical = detectInsights(makeMetrics({ cycleTimeMedianHours: 168, workingHoursPerDay: 8 }), defaultThresholds);
+		assert.ok(critical[0].message.includes('21 working days'));
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -396,6 +418,26 @@ describe('getHealthEmoji', () => {
 			'🟢',
 		);
 	});
+
+	it('follows the lead time thresholds', () => {
+		assert.strictEqual(getHealthEmoji(makeMetrics({ leadTimeMedianHours: 200 }), defaultThresholds), '🟡');
+		assert.strictEqual(getHealthEmoji(makeMetrics({ leadTimeMedianHours: 400 }), defaultThresholds), '🔴');
+		assert.strictEqual(
+			getHealthEmoji(makeMetrics({ leadTimeMedianHours: 400 }), { ...defaultThresholds, leadTimeWarningHours: 500, leadTimeCriticalHours: 800 }),
+			'🟢',
+		);
+	});
+
+	it('follows the ship frequency thresholds', () => {
+		// Per day: 0.1 is 0.7 a week, 0.02 is 0.14 a week
+		assert.strictEqual(getHealthEmoji(makeMetrics({ shipFrequency: 0.1 }), defaultThresholds, true), '🟡');
+		assert.strictEqual(getHealthEmoji(makeMetrics({ shipFrequency: 0.02 }), defaultThresholds, true), '🔴');
+		assert.strictEqual(getHealthEmoji(makeMetrics({ shipFrequency: 1 / 7 }), defaultThresholds, true), '🟢');
+	});
+
+	it('leaves ship frequency out unless the team set its cadence', () => {
+		assert.strictEqual(getHealthEmoji(makeMetrics({ shipFrequency: 0.02 }), defaultThresholds), '🟢');
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -488,4 +530,120 @@ describe('detectInsights — slow lead time', () => {
 		const leadInsights = insights.filter(i => i.type === 'slow-lead-time');
 		assert.strictEqual(leadInsights.length, 0);
 	});
+
+	it('is critical at the critical threshold', () => {
+		const [insight] = detectInsights(makeMetrics({ leadTimeMedianHours: 336 }), defaultThresholds);
+		assert.strictEqual(insight.type, 'slow-lead-time');
+		assert.strictEqual(insight.severity, 'critical');
+	});
+
+	it('uses custom lead time thresholds', () => {
+		const relaxed = { ...defaultThresholds, leadTimeWarningHours: 240, leadTimeCriticalHours: 480 };
+		assert.deepStrictEqual(detectInsights(makeMetrics({ leadTimeMedianHours: 200 }), relaxed), []);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// detectInsights — infrequent shipping
+// ---------------------------------------------------------------------------
+
+describe('detectInsights — infrequent shipping', () => {
+	it('warns below the weekly target', () => {
+		const [insight] = detectInsights(makeMetrics({ shipFrequency: 0.1 }), defaultThresholds);
+		assert.strictEqual(insight.type, 'infrequent-shipping');
+		assert.strictEqual(insight.severity, 'warning');
+		assert.ok(insight.message.includes('0.7 times a week'));
+	});
+
+	it('is critical below the critical target', () => {
+		const [insight] = detectInsights(makeMetrics({ shipFrequency: 0.02 }), defaultThresholds);
+		assert.strictEqual(insight.type, 'infrequent-shipping');
+		assert.strictEqual(insight.severity, 'critical');
+	});
+
+	it('leaves a team that deploys weekly alone with a relaxed target', () => {
+		const weekly = { ...defaultThresholds, shipFrequencyWarningPerWeek: 0.5, shipFrequencyCriticalPerWeek: 0.2 };
+		assert.deepStrictEqual(detectInsights(makeMetrics({ shipFrequency: 0.1 }), weekly), []);
+	});
+
+	it('does not flag without deployments or releases', () => {
+		assert.deepStrictEqual(detectInsights(makeMetrics({ shipFrequency: null }), defaultThresholds), []);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// detectInsights — cycle time bottleneck
+// ---------------------------------------------------------------------------
+
+describe('detectInsights — cycle time bottleneck', () => {
+	const phase = (medianHours: number) => ({ medianHours, p90Hours: medianHours * 2, count: 5 });
+
+	it('flags the phase holding most of the cycle time', () => {
+		const insights = detectInsights(
+			makeMetrics({
+				cycleTimePhases: { coding: phase(4), pickup: phase(30), review: phase(3), merge: phase(1) },
+			}),
+			defaultThresholds,
+		);
+		assert.strictEqual(insights[0].type, 'cycle-time-bottleneck');
+		assert.strictEqual(insights[0].severity, 'info');
+		assert.ok(insights[0].message.includes('first review'));
+		assert.ok(insights[0].message.includes('79%'));
+	});
+
+	it('takes the cycle time severity when cycle time is above threshold', () => {
+		const insights = detectInsights(
+			makeMetrics({
+				cycleTimeMedianHours: 200,
+				cycleTimePhases: { coding: phase(2), pickup: phase(4), review: phase(3), merge: phase(60) },
+			}),
+			defaultThresholds,
+		);
+		assert.strictEqual(insights[0].type, 'cycle-time-bottleneck');
+		assert.strictEqual(insights[0].severity, 'critical');
+		assert.ok(insights[0].message.includes('merged'));
+	});
+
+	it('does not flag evenly spread phases', () => {
+		const insights = detectInsights(
+			makeMetrics({
+				cycleTimePhases: { coding: phase(5), pickup: phase(6), review: phase(5), merge: phase(4) },
+			}),
+			defaultThresholds,
+		);
+		assert.strictEqual(insights.filter(i => i.type === 'cycle-time-bottleneck').length, 0);
+	});
+
+	it('needs at least two measured phases', () => {
+		const insights = detectInsights(
+			makeMetrics({
+				cycleTimePhases: { coding: null, pickup: phase(30), review: null, merge: null },
+			}),
+			defaultThresholds,
+		);
+		assert.strictEqual(insights.filter(i => i.type === 'cycle-time-bottleneck').length, 0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// detectInsights — cycle time trend
+// ---------------------------------------------------------------------------
+
+describe('detectInsights — cycle time trend', () => {
+	it('flags a significant slowdown below the thresholds', () => {
+		const insights = detectInsights(
+			makeMetrics({ cycleTimeMedianHours: 40, previousCycleTimeMedianHours: 20, cycleTimeTrend: 'degrading' }),
+			defaultThresholds,
+		);
+		assert.strictEqual(insights[0].type, 'cycle-time-regression');
+		assert.ok(insights[0].message.includes('20.0 hours to 1.7 days'));
+	});
+
+	it('does not flag a stable trend', () => {
+		const insights = detectInsights(
+			makeMetrics({ cycleTimeMedianHours: 40, previousCycleTimeMedianHours: 20, cycleTimeTrend: 'stable' }),
+			defaultThresholds,
+		);
+		assert.strictEqual(insights.filter(i => i.type === 'cycle-time-regression').length, 0);
+	});
 });
@@ -1,7 +1,8 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { calculateMetrics, formatDuration } from '../metrics';
-import { PullRequest, Review } from '../github-client';
+import { calculateMetrics, combineRepositoryData, formatDuration, RepositoryData } from '../metrics';
+import { DraftEvent, PullRequest, Review } from '../github-client';
+import { WorkingCalendar } from '../working-time';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -59,6 +60,11 @@ describe('formatDuration', () => {
 	it('formats fractional days', () => {
 		assert.strictEqual(formatDuration(36), '1.5 days');
 	});
+
+	it('formats business hours as working days', () => {
+		assert.strictEqual(formatDuration(6, 8), '6.0 hours');
+		assert.strictEqual(formatDuration(12, 8), '1.5 working days');
+	});
 });
 
 // ---------------------------------------------------------------------------
@@ -66,14 +72,14 @@ describe('formatDuration', () => {
 // ---------------------------------------------------------------------------
 
 describe('calculateMetrics — empty sprint', () => {
-	it('returns zeroed metrics for no PRs', () => {
+	it('returns zeroed metrics and no medians for no PRs', () => {
 		const metrics = calculateMetrics([], new Map(), 0);
 
-		assert.strictEqual(metrics.cycleTimeMedianHours, 0);
+		assert.strictEqual(metrics.cycleTimeMedianHours, null);
 		assert.strictEqual(metrics.cycleTimeP90Hours, 0);
 		assert.strictEqual(metrics.throughputCount, 0);
 		assert.strictEqual(metrics.wipCount, 0);
-		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 0);
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, null);
 		assert.strictEqual(metrics.collaboratorCount, 0);
 		assert.strictEqual(metrics.concentrationRatio, 0);
 		assert.strictEqual(metrics.reviewDepthScore, 0);
@@ -121,7 +127,7 @@ describe('calculateMetrics — single PR', () => {
 		]);
 
 		const metrics = calculateMetrics([pr], reviews, 0);
-		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 0);
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, null);
 	});
 
 	it('calculates review turnaround from external review', () => {
@@ -347,10 +353,64 @@ describe('calculateMetrics — review depth', () => {
 // ---------------------------------------------------------------------------
 
 describe('calculateMetrics — trend', () => {
-	it('defaults to stable (TODO in source)', () => {
+	// PRs merged Jan 10 with the given cycle times in hours
+	function prsWithCycleTimes(hours: number[]): PullRequest[] {
+		const mergedAt = new Date('2025-01-10T00:00:00Z');
+		return hours.map((h, i) => makePR({
+			number: i + 1,
+			createdAt: new Date(mergedAt.getTime() - h * 60 * 60 * 1000),
+			mergedAt,
+		}));
+	}
+
+	it('is stable without a previous period', () => {
 		const pr = makePR({ number: 1 });
 		const metrics = calculateMetrics([pr], new Map(), 0);
 		assert.strictEqual(metrics.cycleTimeTrend, 'stable');
+		assert.strictEqual(metrics.previousCycleTimeMedianHours, null);
+	});
+
+	it('reports the previous median', () => {
+		const metrics = calculateMetrics(prsWithCycleTimes([10]), new Map(), 0, {
+			previousPullRequests: prsWithCycleTimes([4, 6, 8]),
+		});
+		assert.strictEqual(metrics.previousCycleTimeMedianHours, 6);
+	});
+
+	it('detects a significant slowdown as degrading', () => {
+		const metrics = calculateMetrics(prsWithCycleTimes([30, 35, 40, 45, 50, 55, 60, 65]), new Map(), 0, {
+			previousPullRequests: prsWithCycleTimes([10, 12, 14, 16, 18, 20, 22, 24]),
+		});
+		assert.strictEqual(metrics.cycleTimeTrend, 'degrading');
+	});
+
+	it('detects a significant speed-up as improving', () => {
+		const metrics = calculateMetrics(prsWithCycleTimes([10, 12, 14, 16, 18, 20, 22, 24]), new Map(), 0, {
+			previousPullRequests: prsWithCycleTimes([30, 35, 40, 45, 50, 55, 60, 65]),
+		});
+		assert.strictEqual(metrics.cycleTimeTrend, 'improving');
+	});
+
+	it('stays stable when the distributions overlap', () => {
+		// Medians differ by more than 10%, but the spread makes it noise
+		const metrics = calculateMetrics(prsWithCycleTimes([2, 8, 20, 30, 60, 90, 150]), new Map(), 0, {
+			previousPullRequests: prsWithCycleTimes([3, 10, 15, 25, 70, 100, 140]),
+		});
+		assert.strictEqual(metrics.cycleTimeTrend, 'stable');
+	});
+
+	it('stays stable for changes under 10%', () => {
+		const metrics = calculateMetrics(prsWithCycleTimes([21, 21, 21, 21, 21, 21]), new Map(), 0, {
+			previousPullRequests: prsWithCycleTimes([20, 20, 20, 20, 20, 20]),
+		});
+		assert.strictEqual(metrics.cycleTimeTrend, 'stable');
+	});
+
+	it('stays stable with too few PRs to judge', () => {
+		const metrics = calculateMetrics(prsWithCycleTimes([100, 120]), new Map(), 0, {
+			previousPullRequests: prsWithCycleTimes([10, 12]),
+		});
+		assert.strictEqual(metrics.cycleTimeTrend, 'stable');
 	});
 });
 
@@ -537,6 +597,26 @@ describe('calculateMetrics — lead time', () => {
 		assert.strictEqual(metrics.leadTimeMedianHours, 48);
 	});
 
+	it('skips failed deployments for lead time and ship frequency', () => {
+		const pr = makePR({
+			number: 1,
+			createdAt: new Date('2025-01-01T00:00:00Z'),
+			mergedAt: new Date('2025-01-02T00:00:00Z'),
+		});
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-02T06:00:00Z'), source: 'deployment' as const, label: 'prod', state: 'failure' },
+			{ id: 2, sha: 'b', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment' as const, label: 'prod', state: 'success' },
+		];
+		const firstCommitDates = new Map([[1, new Date('2025-01-01T00:00:00Z')]]);
+		const metrics = calculateMetrics([pr], new Map(), 0, { shipEvents, firstCommitDates, periodDays: 14 });
+		// Shipped by the successful deployment on Jan 3, not the failed one
+		assert.strictEqual(metrics.leadTimeMedianHours, 48);
+		assert.strictEqual(metrics.shipCount, 1);
+		assert.ok(Math.abs(metrics.shipFrequency! - 1 / 14) < 0.001);
+		// The failed deployment still counts as a failed change
+		assert.strictEqual(metrics.failedChangeCount, 1);
+	});
+
 	it('returns null when no first commit dates', () => {
 		const pr = makePR({ number: 1 });
 		const shipEvents = [
@@ -553,3 +633,524 @@ describe('calculateMetrics — lead time', () => {
 		assert.strictEqual(metrics.leadTimeMedianHours, null);
 	});
 });
+
+// ---------------------------------------------------------------------------
+// calculateMetrics — change failure rate
+// ---------------------------------------------------------------------------
+
+describe('calculateMetrics — change failure rate', () => {
+	it('counts a revert and links the reverted PR', () => {
+		const prs = [
+			makePR({ number: 1, title: 'Add cache' }),
+			makePR({ number: 2, title: 'Revert "Add cache"', body: 'Reverts acme/api#1', mergedAt: new Date('2025-01-03T00:00:00Z') }),
+			makePR({ number: 3 }),
+			makePR({ number: 4 }),
+		];
+		const metrics = calculateMetrics(prs, new Map(), 0);
+		assert.strictEqual(metrics.changeFailureRate, 25);
+		assert.deepStrictEqual(metrics.failedChanges.map((c) => [c.kind, c.prNumbers]), [['revert', [2, 1]]]);
+	});
+
+	it('recognises "This reverts" in the body', () => {
+		const prs = [makePR({ number: 1, title: 'Back out the cache', body: 'This reverts commit abc123.' })];
+		const metrics = calculateMetrics(prs, new Map(), 0);
+		assert.deepStrictEqual(metrics.failedChanges.map((c) => [c.kind, c.prNumbers]), [['revert', [1]]]);
+	});
+
+	it('counts PRs with a hotfix label, ignoring case', () => {
+		const prs = [
+			makePR({ number: 1, labels: ['HotFix'] }),
+			makePR({ number: 2, labels: ['bug'] }),
+		];
+		const metrics = calculateMetrics(prs, new Map(), 0, { hotfixLabels: ['hotfix', 'incident'] });
+		assert.strictEqual(metrics.changeFailureRate, 50);
+		assert.deepStrictEqual(metrics.failedChanges.map((c) => [c.kind, c.prNumbers]), [['hotfix', [1]]]);
+	});
+
+	it('counts a labelled revert once', () => {
+		const prs = [makePR({ number: 1, title: 'Revert "Add cache"', labels: ['hotfix'] })];
+		const metrics = calculateMetrics(prs, new Map(), 0, { hotfixLabels: ['hotfix'] });
+		assert.strictEqual(metrics.failedChanges.length, 1);
+		assert.strictEqual(metrics.changeFailureRate, 100);
+	});
+
+	it('attributes a failed deployment to the PRs merged since the previous deployment', () => {
+		const prs = [
+			makePR({ number: 1, mergedAt: new Date('2025-01-02T00:00:00Z') }),
+			makePR({ number: 2, mergedAt: new Date('2025-01-04T00:00:00Z') }),
+			makePR({ number: 3, mergedAt: new Date('2025-01-05T00:00:00Z') }),
+			makePR({ number: 4, mergedAt: new Date('2025-01-07T00:00:00Z') }),
+		];
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+			{ id: 2, sha: 'b', createdAt: new Date('2025-01-04T12:00:00Z'), source: 'deployment' as const, label: 'staging', state: 'success' },
+			{ id: 3, sha: 'c', createdAt: new Date('2025-01-06T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+		];
+		const metrics = calculateMetrics(prs, new Map(), 0, { shipEvents });
+		assert.deepStrictEqual(metrics.failedChanges.map((c) => [c.kind, c.prNumbers, c.title]), [
+			['failed-deployment', [2, 3], 'production'],
+		]);
+		assert.strictEqual(metrics.failedChangeCount, 2);
+		assert.strictEqual(metrics.changeFailureRate, 50);
+	});
+
+	it('counts a hotfix shipped by a failed deployment once', () => {
+		const prs = [makePR({ number: 1, labels: ['hotfix'], mergedAt: new Date('2025-01-02T00:00:00Z') })];
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+		];
+		const metrics = calculateMetrics(prs, new Map(), 0, { shipEvents, hotfixLabels: ['hotfix'] });
+		assert.strictEqual(metrics.failedChanges.length, 2);
+		assert.strictEqual(metrics.failedChangeCount, 1);
+		assert.strictEqual(metrics.changeFailureRate, 100);
+	});
+
+	it('lists a failed deployment without new PRs but does not count it', () => {
+		const prs = [makePR({ number: 1, mergedAt: new Date('2025-01-02T00:00:00Z') })];
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+			{ id: 2, sha: 'b', createdAt: new Date('2025-01-04T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+		];
+		const metrics = calculateMetrics(prs, new Map(), 0, { shipEvents });
+		assert.deepStrictEqual(metrics.failedChanges.map((c) => [c.kind, c.prNumbers]), [['failed-deployment', []]]);
+		assert.strictEqual(metrics.changeFailureRate, 0);
+	});
+
+	it('ignores releases and deployments without a failed status', () => {
+		const prs = [makePR({ number: 1 })];
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'release' as const, label: 'v1.0' },
+			{ id: 2, sha: 'b', createdAt: new Date('2025-01-04T00:00:00Z'), source: 'deployment' as const, label: 'production' },
+		];
+		const metrics = calculateMetrics(prs, new Map(), 0, { shipEvents });
+		assert.deepStrictEqual(metrics.failedChanges, []);
+		assert.strictEqual(metrics.changeFailureRate, 0);
+	});
+
+	it('returns null without merged PRs', () => {
+		const metrics = calculateMetrics([], new Map(), 0);
+		assert.strictEqual(metrics.changeFailureRate, null);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// calculateMetrics — time to restore
+// ---------------------------------------------------------------------------
+
+describe('calculateMetrics — time to restore', () => {
+	it('measures incident issues from opening to closing', () => {
+		const incidents = [
+			{ number: 10, title: 'API down', openedAt: new Date('2025-01-03T00:00:00Z'), closedAt: new Date('2025-01-03T02:00:00Z') },
+			{ number: 11, title: 'Login broken', openedAt: new Date('2025-01-05T00:00:00Z'), closedAt: new Date('2025-01-05T06:00:00Z') },
+			{ number: 12, title: 'Slow pages', openedAt: new Date('2025-01-06T00:00:00Z'), closedAt: new Date('2025-01-07T00:00:00Z') },
+		];
+		const metrics = calculateMetrics([makePR({ number: 1 })], new Map(), 0, { incidents });
+		assert.strictEqual(metrics.timeToRestoreMedianHours, 6);
+		assert.strictEqual(metrics.incidentCount, 3);
+	});
+
+	it('measures a run of failed deployments until the next successful one to the same environment', () => {
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+			{ id: 2, sha: 'b', createdAt: new Date('2025-01-03T01:00:00Z'), source: 'deployment' as const, label: 'staging', state: 'success' },
+			{ id: 3, sha: 'c', createdAt: new Date('2025-01-03T02:00:00Z'), source: 'deployment' as const, label: 'production', state: 'error' },
+			{ id: 4, sha: 'd', createdAt: new Date('2025-01-03T04:00:00Z'), source: 'deployment' as const, label: 'production', state: 'inactive' },
+			{ id: 5, sha: 'e', createdAt: new Date('2025-01-04T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+		];
+		const metrics = calculateMetrics([makePR({ number: 1 })], new Map(), 0, { shipEvents });
+		// Jan 3 00:00 → 04:00; the last failure is not restored yet
+		assert.strictEqual(metrics.timeToRestoreMedianHours, 4);
+		assert.strictEqual(metrics.incidentCount, 1);
+	});
+
+	it('measures an outage open at the period start from the failure before it', () => {
+		const priorDeployments = [
+			{ id: 1, sha: 'a', createdAt: new Date('2024-12-31T20:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+			{ id: 2, sha: 'b', createdAt: new Date('2024-12-31T22:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+		];
+		const shipEvents = [
+			{ id: 3, sha: 'c', createdAt: new Date('2025-01-01T03:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+		];
+		const metrics = calculateMetrics([makePR({ number: 1 })], new Map(), 0, { shipEvents, priorDeployments });
+		// Dec 31 22:00 → Jan 1 03:00
+		assert.strictEqual(metrics.timeToRestoreMedianHours, 5);
+		assert.strictEqual(metrics.incidentCount, 1);
+	});
+
+	it('does not count outages restored before the period', () => {
+		const priorDeployments = [
+			{ id: 1, sha: 'a', createdAt: new Date('2024-12-31T20:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+			{ id: 2, sha: 'b', createdAt: new Date('2024-12-31T22:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+		];
+		const shipEvents = [
+			{ id: 3, sha: 'c', createdAt: new Date('2025-01-01T03:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+		];
+		const metrics = calculateMetrics([makePR({ number: 1 })], new Map(), 0, { shipEvents, priorDeployments });
+		assert.strictEqual(metrics.timeToRestoreMedianHours, null);
+		assert.strictEqual(metrics.incidentCount, 0);
+	});
+
+	it('returns null without incidents', () => {
+		const metrics = calculateMetrics([makePR({ number: 1 })], new Map(), 0);
+		assert.strictEqual(metrics.timeToRestoreMedianHours, null);
+		assert.strictEqual(metrics.incidentCount, 0);
+		assert.strictEqual(metrics.timeToRestoreError, undefined);
+	});
+
+	it('reports why when the incident issues could not be listed', () => {
+		const shipEvents = [
+			{ id: 1, sha: 'a', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment' as const, label: 'production', state: 'failure' },
+			{ id: 2, sha: 'b', createdAt: new Date('2025-01-03T04:00:00Z'), source: 'deployment' as const, label: 'production', state: 'success' },
+		];
+		const metrics = calculateMetrics([makePR({ number: 1 })], new Map(), 0, {
+			shipEvents,
+			incidentError: 'could not list issues labelled sev1: 403 Forbidden',
+		});
+		assert.strictEqual(metrics.timeToRestoreMedianHours, null);
+		assert.strictEqual(metrics.timeToRestoreError, 'could not list issues labelled sev1: 403 Forbidden');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Cycle time phases
+// ---------------------------------------------------------------------------
+
+describe('calculateMetrics — cycle time phases', () => {
+	const pr = makePR({
+		number: 1,
+		createdAt: new Date('2025-01-01T00:00:00Z'),
+		mergedAt: new Date('2025-01-02T00:00:00Z'),
+	});
+
+	it('splits cycle time into coding, pickup, review and merge', () => {
+		const reviews = new Map([[1, [
+			makeReview({ prNumber: 1, state: 'COMMENTED', submittedAt: new Date('2025-01-01T04:00:00Z') }),
+			makeReview({ prNumber: 1, state: 'APPROVED', submittedAt: new Date('2025-01-01T10:00:00Z') }),
+		]]]);
+		const firstCommitDates = new Map([[1, new Date('2024-12-31T12:00:00Z')]]);
+		const { cycleTimePhases } = calculateMetrics([pr], reviews, 0, { firstCommitDates });
+
+		assert.strictEqual(cycleTimePhases.coding!.medianHours, 12);
+		assert.strictEqual(cycleTimePhases.pickup!.medianHours, 4);
+		assert.strictEqual(cycleTimePhases.review!.medianHours, 6);
+		assert.strictEqual(cycleTimePhases.merge!.medianHours, 14);
+	});
+
+	it('measures review and merge from the final approval', () => {
+		const reviews = new Map([[1, [
+			makeReview({ prNumber: 1, state: 'APPROVED', submittedAt: new Date('2025-01-01T02:00:00Z') }),
+			makeReview({ prNumber: 1, state: 'APPROVED', submittedAt: new Date('2025-01-01T20:00:00Z') }),
+		]]]);
+		const { cycleTimePhases } = calculateMetrics([pr], reviews, 0);
+		assert.strictEqual(cycleTimePhases.review!.medianHours, 18);
+		assert.strictEqual(cycleTimePhases.merge!.medianHours, 4);
+	});
+
+	it('ignores self-reviews and reviews after merge', () => {
+		const reviews = new Map([[1, [
+			makeReview({ prNumber: 1, author: 'alice', state: 'APPROVED', submittedAt: new Date('2025-01-01T01:00:00Z') }),
+			makeReview({ prNumber: 1, state: 'APPROVED', submittedAt: new Date('2025-01-03T00:00:00Z') }),
+		]]]);
+		const { cycleTimePhases } = calculateMetrics([pr], reviews, 0);
+		assert.strictEqual(cycleTimePhases.pickup, null);
+		assert.strictEqual(cycleTimePhases.merge, null);
+	});
+
+	it('leaves review and merge unmeasured without an approval', () => {
+		const reviews = new Map([[1, [
+			makeReview({ prNumber: 1, state: 'COMMENTED', submittedAt: new Date('2025-01-01T04:00:00Z') }),
+		]]]);
+		const { cycleTimePhases } = calculateMetrics([pr], reviews, 0);
+		assert.strictEqual(cycleTimePhases.pickup!.count, 1);
+		assert.strictEqual(cycleTimePhases.review, null);
+		assert.strictEqual(cycleTimePhases.merge, null);
+		assert.strictEqual(cycleTimePhases.coding, null);
+	});
+
+	it('reports P90 per phase', () => {
+		const prs = Array.from({ length: 10 }, (_, i) => makePR({
+			number: i + 1,
+			createdAt: new Date('2025-01-01T00:00:00Z'),
+			mergedAt: new Date('2025-01-05T00:00:00Z'),
+		}));
+		const reviews = new Map(prs.map((p) => [p.number, [
+			makeReview({ prNumber: p.number, submittedAt: new Date(Date.UTC(2025, 0, 1, p.number)) }),
+		]]));
+		const { cycleTimePhases } = calculateMetrics(prs, reviews, 0);
+		assert.strictEqual(cycleTimePhases.pickup!.medianHours, 5.5);
+		assert.strictEqual(cycleTimePhases.pickup!.p90Hours, 9);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Business hours
+// ---------------------------------------------------------------------------
+
+describe('calculateMetrics — business hours', () => {
+	const workingCalendar: WorkingCalendar = {
+		workingDays: [1, 2, 3, 4, 5],
+		startMinute: 9 * 60,
+		endMinute: 17 * 60,
+		timezone: 'UTC',
+	};
+	// Opened Friday 16:00, reviewed Monday 10:00, merged Monday 15:00
+	const pr = makePR({
+		number: 1,
+		createdAt: new Date('2025-01-10T16:00:00Z'),
+		mergedAt: new Date('2025-01-13T15:00:00Z'),
+	});
+	const reviews = new Map([[1, [makeReview({ prNumber: 1, submittedAt: new Date('2025-01-13T10:00:00Z') })]]]);
+
+	it('uses wall-clock hours by default', () => {
+		const metrics = calculateMetrics([pr], reviews, 0);
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 66);
+		assert.strictEqual(metrics.cycleTimeMedianHours, 71);
+		assert.strictEqual(metrics.workingHoursPerDay, null);
+	});
+
+	it('measures cycle time, review speed and phases in business hours', () => {
+		const metrics = calculateMetrics([pr], reviews, 0, { workingCalendar });
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 2);
+		assert.strictEqual(metrics.cycleTimeMedianHours, 7);
+		assert.strictEqual(metrics.cycleTimePhases.pickup!.medianHours, 2);
+		assert.strictEqual(metrics.cycleTimePhases.merge!.medianHours, 5);
+		assert.strictEqual(metrics.workingHoursPerDay, 8);
+	});
+
+	it('measures lead time in business hours', () => {
+		const metrics = calculateMetrics([pr], reviews, 0, {
+			workingCalendar,
+			firstCommitDates: new Map([[1, new Date('2025-01-10T09:00:00Z')]]),
+			shipEvents: [{ id: 1, sha: 'a', createdAt: new Date('2025-01-14T09:00:00Z'), source: 'deployment', label: 'prod' }],
+		});
+		// Fri 8h + Mon 8h
+		assert.strictEqual(metrics.leadTimeMedianHours, 16);
+		// Fri 09:00 → Tue 09:00 for the DORA bands
+		assert.strictEqual(metrics.leadTimeWallClockHours, 96);
+	});
+
+	it('skips holidays', () => {
+		const metrics = calculateMetrics([pr], reviews, 0, {
+			workingCalendar: { ...workingCalendar, holidays: ['2025-01-13'] },
+		});
+		// Only Friday 16:00–17:00 is working time
+		assert.strictEqual(metrics.cycleTimeMedianHours, 1);
+	});
+
+	it('leaves holidays out of the ship frequency denominator', () => {
+		const shipEvents = Array.from({ length: 6 }, (_, i) => ({
+			id: i, sha: `s${i}`, createdAt: new Date('2025-01-13T12:00:00Z'), source: 'deployment' as const, label: 'prod',
+		}));
+		const metrics = calculateMetrics([pr], reviews, 0, { shipEvents, periodDays: 14, nonWorkingDays: 2 });
+		assert.strictEqual(metrics.shipFrequency, 0.5);
+		assert.strictEqual(metrics.nonWorkingDays, 2);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Draft time
+// ---------------------------------------------------------------------------
+
+describe('calculateMetrics — draft time', () => {
+	// Opened as a draft on Jan 1, ready on Jan 3, merged Jan 4
+	const pr = makePR({
+		number: 1,
+		createdAt: new Date('2025-01-01T00:00:00Z'),
+		mergedAt: new Date('2025-01-04T00:00:00Z'),
+	});
+	const openedAsDraft: DraftEvent[] = [
+		{ type: 'ready_for_review', createdAt: new Date('2025-01-03T00:00:00Z') },
+	];
+	const reviews = new Map([[1, [
+		makeReview({ prNumber: 1, submittedAt: new Date('2025-01-03T06:00:00Z') }),
+	]]]);
+
+	it('measures cycle time from creation by default', () => {
+		const metrics = calculateMetrics([pr], reviews, 0, { draftEvents: new Map([[1, openedAsDraft]]) });
+		assert.strictEqual(metrics.cycleTimeMedianHours, 72);
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 54);
+	});
+
+	it('measures cycle time, review speed and pickup from ready for review', () => {
+		const metrics = calculateMetrics([pr], reviews, 0, {
+			draftEvents: new Map([[1, openedAsDraft]]),
+			cycleTimeStart: 'ready',
+		});
+		assert.strictEqual(metrics.cycleTimeMedianHours, 24);
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 6);
+		assert.strictEqual(metrics.cycleTimePhases.pickup!.medianHours, 6);
+	});
+
+	it('starts at creation for PRs opened ready and later converted to draft', () => {
+		const events: DraftEvent[] = [
+			{ type: 'convert_to_draft', createdAt: new Date('2025-01-02T00:00:00Z') },
+			{ type: 'ready_for_review', createdAt: new Date('2025-01-02T12:00:00Z') },
+		];
+		const metrics = calculateMetrics([pr], new Map(), 0, {
+			draftEvents: new Map([[1, events]]),
+			cycleTimeStart: 'ready',
+		});
+		assert.strictEqual(metrics.cycleTimeMedianHours, 72);
+		assert.strictEqual(metrics.draftTimeMedianHours, 12);
+	});
+
+	it('reports draft time separately, summing every draft interval', () => {
+		const events: DraftEvent[] = [
+			// Listed out of order on purpose
+			{ type: 'ready_for_review', createdAt: new Date('2025-01-03T12:00:00Z') },
+			{ type: 'ready_for_review', createdAt: new Date('2025-01-02T00:00:00Z') },
+			{ type: 'convert_to_draft', createdAt: new Date('2025-01-03T00:00:00Z') },
+		];
+		const other = makePR({ number: 2 });
+		const metrics = calculateMetrics([pr, other], new Map(), 0, {
+			draftEvents: new Map([[1, events]]),
+		});
+		assert.strictEqual(metrics.draftTimeMedianHours, 36);
+		assert.strictEqual(metrics.draftPRCount, 1);
+	});
+
+	it('counts a PR still in draft until merge', () => {
+		const events: DraftEvent[] = [
+			{ type: 'convert_to_draft', createdAt: new Date('2025-01-03T00:00:00Z') },
+		];
+		const metrics = calculateMetrics([pr], new Map(), 0, { draftEvents: new Map([[1, events]]) });
+		assert.strictEqual(metrics.draftTimeMedianHours, 24);
+	});
+
+	it('has no draft time without draft events', () => {
+		const metrics = calculateMetrics([pr], new Map(), 0);
+		assert.strictEqual(metrics.draftTimeMedianHours, null);
+		assert.strictEqual(metrics.draftPRCount, 0);
+	});
+
+	it('measures the previous period from ready for review too', () => {
+		const current = Array.from({ length: 5 }, (_, i) => makePR({
+			number: i + 10,
+			createdAt: new Date('2025-01-10T00:00:00Z'),
+			mergedAt: new Date('2025-01-11T00:00:00Z'),
+		}));
+		const previous = Array.from({ length: 5 }, (_, i) => makePR({
+			number: i + 1,
+			createdAt: new Date('2024-12-20T00:00:00Z'),
+			mergedAt: new Date('2024-12-25T00:00:00Z'),
+		}));
+		const metrics = calculateMetrics(current, new Map(), 0, {
+			cycleTimeStart: 'ready',
+			previousPullRequests: previous,
+			previousDraftEvents: new Map(previous.map((p) => [p.number, [
+				{ type: 'ready_for_review', createdAt: new Date('2024-12-24T00:00:00Z') },
+			]])),
+		});
+		assert.strictEqual(metrics.previousCycleTimeMedianHours, 24);
+		assert.strictEqual(metrics.cycleTimeTrend, 'stable');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Multiple repositories
+// ---------------------------------------------------------------------------
+
+describe('combineRepositoryData', () => {
+	function makeRepositoryData(repository: string, overrides: Partial<RepositoryData> = {}): RepositoryData {
+		return {
+			repository,
+			pullRequests: [],
+			reviewsByPR: new Map(),
+			openPRCount: 0,
+			prSizes: new Map(),
+			workflowRuns: null,
+			shipEvents: [],
+			incidents: [],
+			incidentError: null,
+			priorDeployments: [],
+			firstCommitDates: new Map(),
+			draftEvents: new Map(),
+			previousPullRequests: [],
+			previousDraftEvents: new Map(),
+			...overrides,
+		};
+	}
+
+	it('keeps reviews apart for PRs with the same number', () => {
+		const api = makeRepositoryData('acme/api', {
+			pullRequests: [makePR({ number: 1, author: 'alice' })],
+			reviewsByPR: new Map([[1, [makeReview({ prNumber: 1, submittedAt: new Date('2025-01-01T02:00:00Z') })]]]),
+		});
+		const web = makeRepositoryData('acme/web', {
+			pullRequests: [makePR({ number: 1, author: 'carol' })],
+			reviewsByPR: new Map([[1, [makeReview({ prNumber: 1, submittedAt: new Date('2025-01-01T06:00:00Z') })]]]),
+		});
+
+		const combined = combineRepositoryData([api, web]);
+		const metrics = calculateMetrics(combined.pullRequests, combined.reviewsByPR, combined.openPRCount, combined.options);
+		assert.strictEqual(metrics.throughputCount, 2);
+		assert.strictEqual(metrics.collaboratorCount, 2);
+		// median of 2h and 6h
+		assert.strictEqual(metrics.reviewTurnaroundMedianHours, 4);
+	});
+
+	it('keeps failed deployments to same-named environments apart', () => {
+		const deployment = (id: number, hour: number, state: string) =>
+			({ id, sha: `s${id}`, createdAt: new Date(Date.UTC(2025, 0, 3, hour)), source: 'deployment' as const, label: 'production', state });
+		const combined = combineRepositoryData([
+			makeRepositoryData('acme/api', { pullRequests: [makePR({ number: 1 })], shipEvents: [deployment(1, 0, 'failure'), deployment(2, 5, 'success')] }),
+			makeRepositoryData('acme/web', { pullRequests: [makePR({ number: 1 })], shipEvents: [deployment(1, 1, 'success')] }),
+		]);
+		const metrics = calculateMetrics(combined.pullRequests, combined.reviewsByPR, combined.openPRCount, combined.options);
+		// acme/web's deployment does not restore acme/api's production
+		assert.strictEqual(metrics.timeToRestoreMedianHours, 5);
+	});
+
+	it('names the repositories whose incident issues could not be listed', () => {
+		const combined = combineRepositoryData([
+			makeRepositoryData('acme/api', { incidentError: 'could not list issues labelled sev1: 403 Forbidden' }),
+			makeRepositoryData('acme/web'),
+		]);
+		assert.strictEqual(combined.options.incidentError, 'acme/api: could not list issues labelled sev1: 403 Forbidden');
+	});
+
+	it('sums open PRs and workflow runs', () => {
+		const combined = combineRepositoryData([
+			makeRepositoryData('acme/api', { openPRCount: 3, workflowRuns: { totalRuns: 10, successCount: 9, failureCount: 1 } }),
+			makeRepositoryData('acme/web', { openPRCount: 2 }),
+			makeRepositoryData('acme/cli', { openPRCount: 1, workflowRuns: { totalRuns: 10, successCount: 7, failureCount: 3 } }),
+		]);
+		assert.strictEqual(combined.openPRCount, 6);
+		assert.deepStrictEqual(combined.options.workflowRuns, { totalRuns: 20, successCount: 16, failureCount: 4 });
+	});
+
+	it('matches lead time to ship events from the same repository', () => {
+		const api = makeRepositoryData('acme/api', {
+			pullRequests: [makePR({ number: 1, mergedAt: new Date('2025-01-02T00:00:00Z') })],
+			firstCommitDates: new Map([[1, new Date('2025-01-01T00:00:00Z')]]),
+			shipEvents: [{ id: 1, sha: 'a', createdAt: new Date('2025-01-05T00:00:00Z'), source: 'deployment', label: 'prod' }],
+		});
+		const web = makeRepositoryData('acme/web', {
+			shipEvents: [{ id: 2, sha: 'b', createdAt: new Date('2025-01-03T00:00:00Z'), source: 'deployment', label: 'prod' }],
+		});
+
+		const combined = combineRepositoryData([api, web]);
+		const metrics = calculateMetrics(combined.pullRequests, combined.reviewsByPR, combined.openPRCount, combined.options);
+		// acme/api's own deploy on Jan 5, not acme/web's on Jan 3
+		assert.strictEqual(metrics.leadTimeMedianHours, 96);
+		assert.strictEqual(metrics.shipCount, 2);
+	});
+
+	it('keeps draft events apart for PRs with the same number', () => {
+		const ready: DraftEvent[] = [{ type: 'ready_for_review', createdAt: new Date('2025-01-01T12:00:00Z') }];
+		const combined = combineRepositoryData([
+			makeRepositoryData('acme/api', {
+				pullRequests: [makePR({ number: 1 })],
+				draftEvents: new Map([[1, ready]]),
+				previousPullRequests: [makePR({ number: 1 })],
+			}),
+			makeRepositoryData('acme/web', {
+				pullRequests: [makePR({ number: 1 })],
+				previousPullRequests: [makePR({ number: 1 })],
+				previousDraftEvents: new Map([[1, ready]]),
+			}),
+		]);
+		assert.deepStrictEqual([...combined.options.draftEvents!.keys()], ['acme/api#1']);
+		assert.deepStrictEqual([...combined.options.previousDraftEvents!.keys()], ['acme/web#1']);
+	});
+});
@@ -0,0 +1,184 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { applyPeriodSource, milestoneSchedule, PeriodSourceConfig, selectPeriodPullRequests } from '../period-source';
+import type { Config } from '../config';
+import type { CommitRange, GitHubClient, Milestone, PullRequest } from '../github-client';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeMilestone(number: number, title: string, createdAt: string, dueOn: string | null): Milestone {
+	return { number, title, createdAt: new Date(createdAt), dueOn: dueOn ? new Date(dueOn) : null };
+}
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+	return {
+		owner: 'acme',
+		repo: 'api',
+		periodStart: new Date('2025-05-01T00:00:00Z'),
+		periodEnd: new Date('2025-05-14T10:30:00Z'),
+		...overrides,
+	} as Config;
+}
+
+/**
+ * Client answering milestone lookups for any repository
+ */
+function makeClient(milestonesByRepo: Record<string, Milestone[]>, prsByMilestone: Record<string, number[]>): GitHubClient {
+	const forRepo = (repository: string): any => ({
+		forRepository: (owner: string, repo: string) => forRepo(`${owner}/${repo}`),
+		getMilestones: async () => milestonesByRepo[repository] || [],
+		getMilestonePullRequests: async (number: number) => prsByMilestone[`${repository}#${number}`] || [],
+	});
+	return forRepo('acme/api');
+}
+
+const milestoneSource: PeriodSourceConfig = { type: 'milestone', current: false, linkedOnly: true };
+
+// ---------------------------------------------------------------------------
+// milestoneSchedule
+// ---------------------------------------------------------------------------
+
+describe('milestoneSchedule', () => {
+	it('runs each milestone from the day after the previous one is due', () => {
+		const schedule = milestoneSchedule([
+			makeMilestone(3, 'v1.2', '2025-01-10T00:00:00Z', '2025-02-28T08:00:00Z'),
+			makeMilestone(1, 'v1.0', '2025-01-02T12:00:00Z', '2025-01-17T08:00:00Z'),
+			makeMilestone(2, 'Backlog', '2025-01-02T00:00:00Z', null),
+			makeMilestone(4, 'v1.1', '2025-01-03T00:00:00Z', '2025-01-31T08:00:00Z'),
+		]);
+		assert.deepStrictEqual(schedule.map((p) => [p.title, p.start.toISOString().split('T')[0], p.lengthDays]), [
+			['v1.0', '2025-01-02', 16],
+			['v1.1', '2025-01-18', 14],
+			['v1.2', '2025-02-01', 28],
+		]);
+	});
+
+	it('gives milestones due on the same day one day', () => {
+		const schedule = milestoneSchedule([
+			makeMilestone(1, 'a', '2025-01-01T00:00:00Z', '2025-01-17T08:00:00Z'),
+			makeMilestone(2, 'b', '2025-01-01T00:00:00Z', '2025-01-17T09:00:00Z'),
+		]);
+		assert.strictEqual(schedule[1].start.toISOString(), '2025-01-17T00:00:00.000Z');
+		assert.strictEqual(schedule[1].lengthDays, 1);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// applyPeriodSource
+// ---------------------------------------------------------------------------
+
+describe('applyPeriodSource', () => {
+	const now = new Date('2025-05-14T10:30:00Z');
+	const milestones = [
+		makeMilestone(1, 'v1.0', '2025-04-01T00:00:00Z', '2025-04-18T08:00:00Z'),
+		makeMilestone(2, 'v1.1', '2025-04-01T00:00:00Z', '2025-05-02T08:00:00Z'),
+	];
+
+	it('takes the period and linked PRs from milestones across repositories', async () => {
+		const client = makeClient(
+			{ 'acme/api': milestones, 'acme/web': [makeMilestone(9, 'v1.1', '2025-04-01T00:00:00Z', '2025-05-02T08:00:00Z')] },
+			{ 'acme/api#2': [10, 11], 'acme/api#1': [4], 'acme/web#9': [7] }
+		);
+		const config = await applyPeriodSource(makeConfig(), milestoneSource, client, ['acme/api', 'acme/web'], now);
+		assert.strictEqual(config.periodMode, 'milestone');
+		assert.strictEqual(config.periodLabel, 'v1.1 (Apr 19 – May 2)');
+		assert.strictEqual(config.periodStart.toISOString(), '2025-04-19T00:00:00.000Z');
+		assert.strictEqual(config.sprintLengthDays, 14);
+		assert.deepStrictEqual([...config.linkedPullRequests!.current], ['acme/api#10', 'acme/api#11', 'acme/web#7']);
+		assert.deepStrictEqual([...config.linkedPullRequests!.previous], ['acme/api#4']);
+	});
+
+	it('resolves a replay as of the recorded period', async () => {
+		const client = makeClient({ 'acme/api': milestones }, {});
+		const recorded = makeConfig({
+			replayPath: 'recording.json',
+			periodEnd: new Date('2025-04-18T23:59:59.999Z'),
+		});
+		const config = await applyPeriodSource(recorded, { ...milestoneSource, linkedOnly: false }, client, ['acme/api'], now);
+		assert.strictEqual(config.periodLabel, 'v1.0 (Apr 1 – Apr 18)');
+		assert.strictEqual(config.linkedPullRequests, undefined);
+	});
+});
+
+describe('applyPeriodSource — releases', () => {
+	const ranges: Record<string, CommitRange> = {
+		'v1.1.0...v1.2.0': {
+			mergeBaseDate: new Date('2025-04-10T12:00:00Z'),
+			headDate: new Date('2025-04-24T09:00:00Z'),
+			shas: new Set(['c1', 'c2']),
+		},
+		'v1.0.0...v1.1.0': {
+			mergeBaseDate: new Date('2025-03-27T12:00:00Z'),
+			headDate: new Date('2025-04-10T12:00:00Z'),
+			shas: new Set(['b1']),
+		},
+	};
+	const compared: string[] = [];
+	const client = {
+		getLatestReleases: async () => [
+			{ tag: 'v1.2.0', publishedAt: new Date('2025-04-24T10:00:00Z') },
+			{ tag: 'v1.1.0', publishedAt: new Date('2025-04-10T13:00:00Z') },
+			{ tag: 'v1.0.0', publishedAt: new Date('2025-03-27T13:00:00Z') },
+		],
+		compareRefs: async (base: string, head: string) => {
+			compared.push(`${base}...${head}`);
+			return ranges[`${base}...${head}`];
+		},
+	} as unknown as GitHubClient;
+	const releaseSource: PeriodSourceConfig = { type: 'release', current: false, linkedOnly: false };
+
+	it('spans the latest two releases, with the release before for the trend', async () => {
+		const config = await applyPeriodSource(makeConfig(), releaseSource, client, ['acme/api']);
+		assert.strictEqual(config.periodMode, 'release');
+		assert.strictEqual(config.periodLabel, 'v1.1.0 → v1.2.0');
+		assert.strictEqual(config.periodStart.toISOString(), '2025-04-10T12:00:00.000Z');
+		assert.strictEqual(config.periodEnd.toISOString(), '2025-04-24T09:00:00.000Z');
+		assert.strictEqual(config.previousPeriod.start.toISOString(), '2025-03-27T12:00:00.000Z');
+		assert.deepStrictEqual([...config.releaseCommits!.current], ['c1', 'c2']);
+		assert.deepStrictEqual([...config.releaseCommits!.previous!], ['b1']);
+	});
+
+	it('compares two named tags', async () => {
+		compared.length = 0;
+		const config = await applyPeriodSource(makeConfig(), { ...releaseSource, fromTag: 'v1.1.0', toTag: 'v1.2.0' }, client, ['acme/api']);
+		assert.deepStrictEqual(compared, ['v1.1.0...v1.2.0']);
+		assert.strictEqual(config.releaseCommits!.previous, undefined);
+		assert.strictEqual(config.previousPeriod.lengthDays, 14);
+	});
+
+	it('needs two releases and a single repository', async () => {
+		const bare = { getLatestReleases: async () => [{ tag: 'v1.0.0', publishedAt: new Date() }] } as unknown as GitHubClient;
+		await assert.rejects(() => applyPeriodSource(makeConfig(), releaseSource, bare, ['acme/api']), /needs two published releases/);
+		await assert.rejects(() => applyPeriodSource(makeConfig(), releaseSource, client, ['acme/api', 'acme/web']), /one repository/);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// selectPeriodPullRequests
+// ---------------------------------------------------------------------------
+
+describe('selectPeriodPullRequests', () => {
+	const prs = [1, 2, 3].map((number) => ({ number }) as PullRequest);
+	const client = {
+		getMergeCommitShas: async () => new Map([[1, 'c1'], [2, 'x2'], [3, 'c3']]),
+	} as unknown as GitHubClient;
+
+	it('keeps the linked PRs of the repository', async () => {
+		const config = makeConfig({ linkedPullRequests: { current: new Set(['acme/api#2', 'acme/web#1']), previous: new Set() } });
+		const selected = await selectPeriodPullRequests(config, client, 'acme/api', prs, 'current');
+		assert.deepStrictEqual(selected.map((pr) => pr.number), [2]);
+	});
+
+	it('keeps PRs merged by a commit in the release range', async () => {
+		const config = makeConfig({ releaseCommits: { current: new Set(['c1', 'c3']) } });
+		assert.deepStrictEqual((await selectPeriodPullRequests(config, client, 'acme/api', prs, 'current')).map((pr) => pr.number), [1, 3]);
+		// The previous range is unknown for named tags
+		assert.strictEqual(await selectPeriodPullRequests(config, client, 'acme/api', prs, 'previous'), prs);
+	});
+
+	it('keeps everything for other periods', async () => {
+		assert.strictEqual(await selectPeriodPullRequests(makeConfig(), client, 'acme/api', prs, 'current'), prs);
+	});
+});
@@ -0,0 +1,263 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { PeriodOptions, ScheduledPeriod, resolvePeriod, resolveScheduledPeriod, rollingPrevious, spanPeriod } from '../periods';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Wednesday 2025-05-14, mid-morning
+const NOW = new Date('2025-05-14T10:30:00Z');
+
+function resolve(overrides: Partial<PeriodOptions>) {
+	return resolvePeriod({ mode: 'rolling', sprintLengthDays: 14, ...overrides }, NOW);
+}
+
+function iso(date: Date): string {
+	return date.toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Rolling and custom
+// ---------------------------------------------------------------------------
+
+describe('resolvePeriod — rolling', () => {
+	it('covers the last sprint-length days up to now', () => {
+		const period = resolve({});
+		assert.strictEqual(iso(period.start), '2025-04-30T10:30:00.000Z');
+		assert.strictEqual(period.end, NOW);
+		assert.strictEqual(period.lengthDays, 14);
+		assert.strictEqual(period.label, undefined);
+	});
+
+	it('compares with the same number of days ending the day before', () => {
+		const { previous } = resolve({});
+		assert.strictEqual(iso(previous.start), '2025-04-16T10:30:00.000Z');
+		assert.strictEqual(iso(previous.end), '2025-04-29T10:30:00.000Z');
+		assert.deepStrictEqual(previous, rollingPrevious(resolve({}).start, 14));
+	});
+});
+
+describe('resolvePeriod — custom', () => {
+	it('covers whole days from start to end', () => {
+		const period = resolve({ mode: 'custom', start: new Date('2025-03-03'), end: new Date('2025-03-09') });
+		assert.strictEqual(iso(period.start), '2025-03-03T00:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-03-09T23:59:59.999Z');
+		assert.strictEqual(period.lengthDays, 7);
+		assert.strictEqual(iso(period.previous.start), '2025-02-24T00:00:00.000Z');
+		assert.strictEqual(iso(period.previous.end), '2025-03-02T23:59:59.999Z');
+	});
+
+	it('runs up to now without an end date', () => {
+		const period = resolve({ mode: 'custom', start: new Date('2025-05-01') });
+		assert.strictEqual(period.end, NOW);
+		assert.strictEqual(period.lengthDays, 14);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Sprints
+// ---------------------------------------------------------------------------
+
+describe('resolvePeriod — sprint', () => {
+	const anchor = new Date('2025-01-06');
+
+	it('reports the last completed sprint', () => {
+		// Sprint 10 runs May 12 – May 25, so sprint 9 is the last one done
+		const period = resolve({ mode: 'sprint', anchor });
+		assert.strictEqual(iso(period.start), '2025-04-28T00:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-05-11T23:59:59.999Z');
+		assert.strictEqual(period.lengthDays, 14);
+		assert.strictEqual(period.label, 'Sprint 9 (Apr 28 – May 11)');
+	});
+
+	it('reports the sprint in progress up to now', () => {
+		const period = resolve({ mode: 'sprint', anchor, current: true });
+		assert.strictEqual(iso(period.start), '2025-05-12T00:00:00.000Z');
+		assert.strictEqual(period.end, NOW);
+		assert.strictEqual(period.lengthDays, 3);
+		assert.strictEqual(period.label, 'Sprint 10 (May 12 – May 25)');
+		// The previous sprint is still a whole sprint
+		assert.strictEqual(iso(period.previous.start), '2025-04-28T00:00:00.000Z');
+		assert.strictEqual(period.previous.lengthDays, 14);
+	});
+
+	it('throws before the first sprint has ended', () => {
+		assert.throws(() => resolve({ mode: 'sprint', anchor: new Date('2025-05-05') }), {
+			message: /No sprint has completed yet since sprint-anchor 2025-05-05/,
+		});
+		assert.throws(() => resolve({ mode: 'sprint', anchor: new Date('2025-06-02'), current: true }), {
+			message: /No sprint has started yet/,
+		});
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Calendar periods
+// ---------------------------------------------------------------------------
+
+describe('resolvePeriod — calendar', () => {
+	it('reports the last complete ISO week', () => {
+		const period = resolve({ mode: 'iso-week' });
+		assert.strictEqual(iso(period.start), '2025-05-05T00:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-05-11T23:59:59.999Z');
+		assert.strictEqual(period.label, 'Week 19, 2025 (May 5 – May 11)');
+		assert.strictEqual(iso(period.previous.start), '2025-04-28T00:00:00.000Z');
+	});
+
+	it('numbers ISO weeks across the year boundary', () => {
+		const period = resolvePeriod({ mode: 'iso-week', sprintLengthDays: 14 }, new Date('2025-01-08T12:00:00Z'));
+		assert.strictEqual(period.label, 'Week 1, 2025 (Dec 30 – Jan 5)');
+		const late = resolvePeriod({ mode: 'iso-week', sprintLengthDays: 14 }, new Date('2021-01-06T12:00:00Z'));
+		assert.strictEqual(late.label, 'Week 53, 2020 (Dec 28 – Jan 3)');
+	});
+
+	it('reports the last calendar month', () => {
+		const period = resolve({ mode: 'month' });
+		assert.strictEqual(iso(period.start), '2025-04-01T00:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-04-30T23:59:59.999Z');
+		assert.strictEqual(period.lengthDays, 30);
+		assert.strictEqual(period.label, 'April 2025');
+		assert.strictEqual(iso(period.previous.start), '2025-03-01T00:00:00.000Z');
+		assert.strictEqual(period.previous.lengthDays, 31);
+	});
+
+	it('reports the last quarter, across the year boundary', () => {
+		const period = resolvePeriod({ mode: 'quarter', sprintLengthDays: 14 }, new Date('2025-02-10T00:00:00Z'));
+		assert.strictEqual(iso(period.start), '2024-10-01T00:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2024-12-31T23:59:59.999Z');
+		assert.strictEqual(period.label, 'Q4 2024');
+		assert.strictEqual(iso(period.previous.start), '2024-07-01T00:00:00.000Z');
+	});
+
+	it('reports the month in progress up to now', () => {
+		const period = resolve({ mode: 'month', current: true });
+		assert.strictEqual(iso(period.start), '2025-05-01T00:00:00.000Z');
+		assert.strictEqual(period.end, NOW);
+		assert.strictEqual(period.label, 'May 2025');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Schedules (project iterations, milestones)
+// ---------------------------------------------------------------------------
+
+describe('resolveScheduledPeriod', () => {
+	const schedule: ScheduledPeriod[] = [
+		{ id: 'c', title: 'Iteration 3', start: new Date('2025-05-12'), lengthDays: 14 },
+		{ id: 'a', title: 'Iteration 1', start: new Date('2025-04-07'), lengthDays: 14 },
+		// A week's break before iteration 3
+		{ id: 'b', title: 'Iteration 2', start: new Date('2025-04-21'), lengthDays: 14 },
+	];
+
+	it('picks the last completed period and the one before it', () => {
+		const { period, entry, previousEntry } = resolveScheduledPeriod('iteration', schedule, false, NOW);
+		assert.strictEqual(entry.id, 'b');
+		assert.strictEqual(previousEntry!.id, 'a');
+		assert.strictEqual(iso(period.end), '2025-05-04T23:59:59.999Z');
+		assert.strictEqual(period.label, 'Iteration 2 (Apr 21 – May 4)');
+		assert.strictEqual(iso(period.previous.start), '2025-04-07T00:00:00.000Z');
+		assert.strictEqual(iso(period.previous.end), '2025-04-20T23:59:59.999Z');
+	});
+
+	it('picks the period in progress', () => {
+		const { period, entry } = resolveScheduledPeriod('iteration', schedule, true, NOW);
+		assert.strictEqual(entry.id, 'c');
+		assert.strictEqual(period.end, NOW);
+		assert.strictEqual(period.mode, 'iteration');
+	});
+
+	it('falls back to the same number of days before the first period', () => {
+		const { period, previousEntry } = resolveScheduledPeriod('milestone', schedule.slice(1, 2), false, NOW);
+		assert.strictEqual(previousEntry, undefined);
+		assert.strictEqual(iso(period.previous.start), '2025-03-24T00:00:00.000Z');
+	});
+
+	it('throws when nothing matches', () => {
+		assert.throws(() => resolveScheduledPeriod('milestone', [], false, NOW), { message: 'No completed milestone found' });
+		assert.throws(() => resolveScheduledPeriod('iteration', schedule.slice(0, 2), true, new Date('2025-05-06T00:00:00Z')), {
+			message: 'No iteration is in progress',
+		});
+	});
+});
+
+describe('spanPeriod', () => {
+	it('covers the span between two instants', () => {
+		const period = spanPeriod('release', 'v1 → v2', new Date('2025-04-10T12:00:00Z'), new Date('2025-04-20T09:00:00Z'), 'UTC');
+		assert.strictEqual(period.lengthDays, 10);
+		assert.strictEqual(iso(period.previous.start), '2025-03-31T12:00:00.000Z');
+		assert.strictEqual(iso(period.previous.end), '2025-04-10T11:59:59.999Z');
+	});
+
+	it('uses a known previous span', () => {
+		const previous = { start: new Date('2025-03-01T00:00:00Z'), end: new Date('2025-03-04T00:00:00Z') };
+		const period = spanPeriod('release', 'v1 → v2', new Date('2025-04-10T12:00:00Z'), new Date('2025-04-20T09:00:00Z'), 'UTC', previous);
+		assert.deepStrictEqual(period.previous, { ...previous, lengthDays: 3 });
+	});
+
+	it('counts days in the timezone across a DST change', () => {
+		// 13:00 CET to 13:30 CEST: six days and half an hour on the wall clock
+		const period = spanPeriod('release', 'v1 → v2', new Date('2025-03-28T12:00:00Z'), new Date('2025-04-03T11:30:00Z'), 'Europe/Berlin');
+		assert.strictEqual(period.lengthDays, 7);
+		assert.strictEqual(spanPeriod('release', 'v1 → v2', new Date('2025-03-28T12:00:00Z'), new Date('2025-04-03T11:30:00Z'), 'UTC').lengthDays, 6);
+	});
+
+	it('starts the previous window at the same local time', () => {
+		// 13:00 CEST; a week earlier 13:00 was still CET
+		const period = spanPeriod('release', 'v1 → v2', new Date('2025-04-03T11:00:00Z'), new Date('2025-04-10T11:00:00Z'), 'Europe/Berlin');
+		assert.strictEqual(period.lengthDays, 7);
+		assert.strictEqual(iso(period.previous.start), '2025-03-27T12:00:00.000Z');
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Timezones
+// ---------------------------------------------------------------------------
+
+describe('resolvePeriod — timezone', () => {
+	const timezone = 'Australia/Sydney';
+
+	it('starts and ends calendar periods at local midnight', () => {
+		// Monday morning in Sydney is still Sunday in UTC
+		const now = new Date('2025-05-11T22:00:00Z');
+		const period = resolvePeriod({ mode: 'iso-week', sprintLengthDays: 14, timezone }, now);
+		assert.strictEqual(iso(period.start), '2025-05-04T14:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-05-11T13:59:59.999Z');
+		assert.strictEqual(period.lengthDays, 7);
+		assert.strictEqual(period.label, 'Week 19, 2025 (May 5 – May 11)');
+		assert.strictEqual(iso(period.previous.start), '2025-04-27T14:00:00.000Z');
+	});
+
+	it('keeps whole days across a DST change', () => {
+		const period = resolvePeriod({ mode: 'month', sprintLengthDays: 14, timezone }, new Date('2025-11-03T00:00:00Z'));
+		assert.strictEqual(iso(period.start), '2025-09-30T14:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-10-31T12:59:59.999Z');
+		assert.strictEqual(period.lengthDays, 31);
+		assert.strictEqual(period.label, 'October 2025');
+		assert.strictEqual(period.previous.lengthDays, 30);
+	});
+
+	it('counts sprints from the anchor in local days', () => {
+		// Sprint 10 starts Monday May 12 in Sydney, on Sunday in UTC
+		const period = resolvePeriod({ mode: 'sprint', sprintLengthDays: 14, anchor: new Date('2025-01-06'), current: true, timezone },
+			new Date('2025-05-11T20:00:00Z'));
+		assert.strictEqual(period.label, 'Sprint 10 (May 12 – May 25)');
+		assert.strictEqual(iso(period.start), '2025-05-11T14:00:00.000Z');
+		assert.strictEqual(iso(period.previous.end), '2025-05-11T13:59:59.999Z');
+	});
+
+	it('reads explicit dates as local days', () => {
+		const period = resolve({ mode: 'custom', start: new Date('2025-03-03'), end: new Date('2025-03-09'), timezone });
+		assert.strictEqual(iso(period.start), '2025-03-02T13:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-03-09T12:59:59.999Z');
+		assert.strictEqual(period.lengthDays, 7);
+	});
+
+	it('places scheduled periods on local days', () => {
+		const schedule: ScheduledPeriod[] = [{ id: 'a', title: 'Iteration 1', start: new Date('2025-04-28'), lengthDays: 14 }];
+		const { period } = resolveScheduledPeriod('iteration', schedule, false, NOW, timezone);
+		assert.strictEqual(iso(period.start), '2025-04-27T14:00:00.000Z');
+		assert.strictEqual(iso(period.end), '2025-05-11T13:59:59.999Z');
+		assert.strictEqual(period.label, 'Iteration 1 (Apr 28 – May 11)');
+	});
+});
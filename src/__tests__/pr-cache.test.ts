@@ -0,0 +1,182 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PRCache } from '../pr-cache';
+import { PRDetails } from '../github-client';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeDetails(overrides: Partial<PRDetails> = {}): PRDetails {
+	return {
+		reviews: [{
+			prNumber: 1,
+			submittedAt: new Date('2025-01-01T12:00:00Z'),
+			author: 'bob',
+			state: 'APPROVED',
+			commentCount: 1.5,
+		}],
+		additions: 120,
+		deletions: 30,
+		firstCommitDate: new Date('2024-12-31T09:00:00Z'),
+		draftEvents: [{ type: 'ready_for_review', createdAt: new Date('2025-01-01T08:00:00Z') }],
+		...overrides,
+	};
+}
+
+const UPDATED = new Date('2025-01-02T00:00:00Z');
+
+// ---------------------------------------------------------------------------
+// PRCache
+// ---------------------------------------------------------------------------
+
+describe('PRCache', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pr-cache-'));
+	});
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('misses when nothing is cached', () => {
+		const cache = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(cache.get(1, UPDATED), undefined);
+		assert.deepStrictEqual(cache.getStats(), { hits: 0, misses: 1, stale: 0 });
+	});
+
+	it('round-trips details through disk', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.save();
+
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		const details = second.get(1, UPDATED);
+		assert.deepStrictEqual(details, makeDetails());
+		assert.deepStrictEqual(second.getStats(), { hits: 1, misses: 0, stale: 0 });
+	});
+
+	it('treats a changed updated_at as stale', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.save();
+
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(second.get(1, new Date('2025-01-05T00:00:00Z')), undefined);
+		assert.deepStrictEqual(second.getStats(), { hits: 0, misses: 1, stale: 1 });
+	});
+
+	it('misses when updated_at is unknown', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.save();
+
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(second.get(1, undefined), undefined);
+	});
+
+	it('keeps repositories separate', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.save();
+
+		const other = PRCache.load(dir, 'acme', 'gadgets');
+		assert.strictEqual(other.get(1, UPDATED), undefined);
+	});
+
+	it('ignores existing entries on refresh but keeps writing', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.save();
+
+		const refreshed = PRCache.load(dir, 'acme', 'widgets', true);
+		assert.strictEqual(refreshed.get(1, UPDATED), undefined);
+		refreshed.set(2, UPDATED, makeDetails({ additions: 5 }));
+		refreshed.save();
+
+		const third = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(third.get(1, UPDATED), undefined);
+		assert.strictEqual(third.get(2, UPDATED)?.additions, 5);
+	});
+
+	it('keeps entries for PRs not touched this run', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.save();
+
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		second.set(2, UPDATED, makeDetails());
+		second.save();
+
+		const third = PRCache.load(dir, 'acme', 'widgets');
+		assert.ok(third.get(1, UPDATED));
+		assert.ok(third.get(2, UPDATED));
+	});
+
+	it('drops entries no run has used for 90 days', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails());
+		first.set(2, UPDATED, makeDetails());
+		first.save(new Date('2025-01-02T00:00:00Z'));
+
+		// PR 2 is read again a month later, PR 1 is not
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		assert.ok(second.get(2, UPDATED));
+		second.save(new Date('2025-02-01T00:00:00Z'));
+
+		const third = PRCache.load(dir, 'acme', 'widgets');
+		third.save(new Date('2025-04-15T00:00:00Z'));
+
+		const fourth = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(fourth.get(1, UPDATED), undefined);
+		assert.ok(fourth.get(2, UPDATED));
+	});
+
+	it('saves fields filled in after set', () => {
+		const details = makeDetails({ firstCommitDate: undefined });
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, details);
+		details.firstCommitDate = new Date('2024-12-30T00:00:00Z');
+		first.save();
+
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(second.get(1, UPDATED)?.firstCommitDate?.toISOString(), '2024-12-30T00:00:00.000Z');
+	});
+
+	it('preserves an unfetched first commit date as undefined', () => {
+		const first = PRCache.load(dir, 'acme', 'widgets');
+		first.set(1, UPDATED, makeDetails({ firstCommitDate: undefined }));
+		first.save();
+
+		const second = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(second.get(1, UPDATED)?.firstCommitDate, undefined);
+	});
+
+	it('ignores files written by an older cache version', () => {
+		fs.writeFileSync(path.join(dir, 'acme__widgets.json'), JSON.stringify({
+			version: 1,
+			repository: 'acme/widgets',
+			prs: { 1: { updatedAt: UPDATED.toISOString(), reviews: [], additions: 1, deletions: 1 } },
+		}));
+		const cache = PRCache.load(dir, 'acme', 'widgets');
+		assert.strictEqual(cache.get(1, UPDATED), undefined);
+	});
+
+	it('ignores a corrupt cache file', () => {
+		fs.writeFileSync(path.join(dir, 'acme__widgets.json'), '{not json');
+		const warnings: unknown[] = [];
+		const originalWarn = console.warn;
+		console.warn = (msg: unknown) => warnings.push(msg);
+		try {
+			const cache = PRCache.load(dir, 'acme', 'widgets');
+			assert.strictEqual(cache.get(1, UPDATED), undefined);
+		} finally {
+			console.warn = originalWarn;
+		}
+		assert.strictEqual(warnings.length, 1);
+	});
+});
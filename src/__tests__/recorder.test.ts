@@ -0,0 +1,190 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiRecorder, readRecordingMeta } from '../recorder';
+
+// ---------------------------------------------------------------------------
+// CJS cache mocking: keep the real Octokit but route its HTTP through a
+// fake fetch, so requests flow through the client's real hooks.
+// ---------------------------------------------------------------------------
+
+const realGithub = require('@actions/github');
+const fakeFetch = mock.fn(async (_url: string, _init?: unknown): Promise<Response> => {
+	throw new Error('fetch not configured');
+});
+
+require.cache[require.resolve('@actions/github')] = {
+	id: require.resolve('@actions/github'),
+	filename: require.resolve('@actions/github'),
+	loaded: true,
+	children: [],
+	path: '',
+	paths: [],
+	exports: {
+		...realGithub,
+		getOctokit: (token: string) => realGithub.getOctokit(token, {
+			request: { fetch: (url: string, init?: unknown) => fakeFetch(url, init) },
+		}),
+	},
+} as any;
+
+const { GitHubClient } = require('../github-client');
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const META = {
+	repository: 'acme/widgets',
+	periodStart: '2025-01-01T00:00:00.000Z',
+	periodEnd: '2025-01-14T00:00:00.000Z',
+	sprintLengthDays: 14,
+};
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'content-type': 'application/json', 'x-ratelimit-remaining': '4999', ...headers },
+	});
+}
+
+const searchResult = {
+	total_count: 1,
+	incomplete_results: false,
+	items: [{
+		number: 7,
+		title: 'Add widgets',
+		created_at: '2025-01-02T00:00:00Z',
+		updated_at: '2025-01-03T00:00:00Z',
+		user: { login: 'alice' },
+		pull_request: { merged_at: '2025-01-03T00:00:00Z' },
+	}],
+};
+
+// ---------------------------------------------------------------------------
+// Record → replay through GitHubClient
+// ---------------------------------------------------------------------------
+
+describe('ApiRecorder — record and replay', () => {
+	let dir: string;
+	let file: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-'));
+		file = path.join(dir, 'recording.json');
+	});
+	afterEach(() => {
+		fakeFetch.mock.resetCalls();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('replays a recorded run without touching the network', async () => {
+		const fetchMock = fakeFetch;
+		fetchMock.mock.mockImplementation(async () => jsonResponse(searchResult));
+
+		const recorder = ApiRecorder.forRecording(file);
+		recorder.setMeta(META);
+		const recording = new GitHubClient('token', 'acme', 'widgets', recorder);
+		const recorded = await recording.getMergedPRs(new Date(META.periodStart), new Date(META.periodEnd));
+		recorder.save();
+		assert.ok(fetchMock.mock.callCount() > 0);
+
+		fetchMock.mock.mockImplementation(async () => {
+			throw new Error('network used during replay');
+		});
+		fetchMock.mock.resetCalls();
+
+		const replaying = new GitHubClient('replay', 'acme', 'widgets', ApiRecorder.forReplay(file));
+		const replayed = await replaying.getMergedPRs(new Date(META.periodStart), new Date(META.periodEnd));
+
+		assert.strictEqual(fetchMock.mock.callCount(), 0);
+		assert.deepStrictEqual(replayed, recorded);
+		assert.strictEqual(replayed[0].number, 7);
+	});
+
+	it('replays recorded failures as errors', async () => {
+		fakeFetch.mock.mockImplementation(async () => jsonResponse({ message: 'Not Found' }, 404));
+
+		const recorder = ApiRecorder.forRecording(file);
+		recorder.setMeta(META);
+		const recording = new GitHubClient('token', 'acme', 'widgets', recorder);
+		const warn = mock.method(console, 'warn', () => {});
+		const recordedRuns = await recording.getWorkflowRuns(new Date(META.periodStart), new Date(META.periodEnd));
+		recorder.save();
+
+		const replaying = new GitHubClient('replay', 'acme', 'widgets', ApiRecorder.forReplay(file));
+		const replayedRuns = await replaying.getWorkflowRuns(new Date(META.periodStart), new Date(META.periodEnd));
+		warn.mock.restore();
+
+		assert.strictEqual(recordedRuns, null);
+		assert.strictEqual(replayedRuns, null);
+	});
+
+	it('fails requests that were never recorded', async () => {
+		fakeFetch.mock.mockImplementation(async () => {
+			throw new Error('network used during replay');
+		});
+
+		const recorder = ApiRecorder.forRecording(file);
+		recorder.setMeta(META);
+		recorder.save();
+
+		const replaying = new GitHubClient('replay', 'acme', 'widgets', ApiRecorder.forReplay(file));
+		const warn = mock.method(console, 'warn', () => {});
+		const deployments = await replaying.getDeployments(new Date(META.periodStart), new Date(META.periodEnd));
+		warn.mock.restore();
+
+		assert.deepStrictEqual(deployments, []);
+		assert.strictEqual(fakeFetch.mock.callCount(), 0);
+		assert.ok(String(warn.mock.calls[0].arguments[0]).includes('No recorded response'));
+	});
+
+	it('keeps only pagination and rate limit headers', async () => {
+		fakeFetch.mock.mockImplementation(async () =>
+			jsonResponse(searchResult, 200, { 'set-cookie': 'secret', link: '<https://api.github.com/x?page=2>; rel="last"' })
+		);
+
+		const recorder = ApiRecorder.forRecording(file);
+		recorder.setMeta(META);
+		const client = new GitHubClient('token', 'acme', 'widgets', recorder);
+		await client.getOpenPRs();
+		recorder.save();
+
+		const saved = fs.readFileSync(file, 'utf-8');
+		assert.ok(!saved.includes('secret'));
+		assert.ok(!saved.includes('token'));
+		assert.ok(saved.includes('x-ratelimit-remaining'));
+		assert.ok(saved.includes('rel=\\"last\\"'));
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Metadata
+// ---------------------------------------------------------------------------
+
+describe('readRecordingMeta', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-meta-'));
+	});
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('returns the recorded repository and period', () => {
+		const file = path.join(dir, 'recording.json');
+		const recorder = ApiRecorder.forRecording(file);
+		recorder.setMeta(META);
+		recorder.save();
+		assert.deepStrictEqual(readRecordingMeta(file), META);
+	});
+
+	it('throws when the recording has no metadata', () => {
+		const file = path.join(dir, 'recording.json');
+		ApiRecorder.forRecording(file).save();
+		assert.throws(() => readRecordingMeta(file), { message: /no run metadata/ });
+	});
+});
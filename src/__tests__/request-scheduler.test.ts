@@ -0,0 +1,200 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { RequestScheduler, formatRequestStats } from '../request-scheduler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const noSleep = async () => {};
+
+function ok(headers: Record<string, string> = {}) {
+	return { status: 200, headers, data: {} };
+}
+
+function httpError(status: number, headers: Record<string, string> = {}, message = 'error') {
+	return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+// ---------------------------------------------------------------------------
+// Retries
+// ---------------------------------------------------------------------------
+
+describe('RequestScheduler — retries', () => {
+	it('returns the response on success', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep });
+		const response = await scheduler.schedule(async () => ok());
+		assert.strictEqual(response.status, 200);
+		assert.strictEqual(scheduler.getStats().requests, 1);
+		assert.strictEqual(scheduler.getStats().retries, 0);
+	});
+
+	it('retries 5xx responses and succeeds', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, baseDelayMs: 0 });
+		let calls = 0;
+		const response = await scheduler.schedule(async () => {
+			calls++;
+			if (calls < 3) throw httpError(502);
+			return ok();
+		});
+		assert.strictEqual(response.status, 200);
+		assert.strictEqual(calls, 3);
+		assert.strictEqual(scheduler.getStats().retries, 2);
+	});
+
+	it('gives up after maxRetries', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, baseDelayMs: 0, maxRetries: 2 });
+		let calls = 0;
+		await assert.rejects(() => scheduler.schedule(async () => {
+			calls++;
+			throw httpError(500);
+		}));
+		assert.strictEqual(calls, 3);
+		assert.strictEqual(scheduler.getStats().failures, 1);
+	});
+
+	it('does not retry client errors', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep });
+		let calls = 0;
+		await assert.rejects(() => scheduler.schedule(async () => {
+			calls++;
+			throw httpError(404);
+		}));
+		assert.strictEqual(calls, 1);
+		assert.strictEqual(scheduler.getStats().retries, 0);
+	});
+
+	it('does not retry a plain 403 (permissions)', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep });
+		await assert.rejects(() => scheduler.schedule(async () => {
+			throw httpError(403, {}, 'Resource not accessible by integration');
+		}));
+		assert.strictEqual(scheduler.getStats().retries, 0);
+	});
+
+	it('honours retry-after on secondary rate limits', async () => {
+		const sleeps: number[] = [];
+		const scheduler = new RequestScheduler({ sleep: async (ms) => { sleeps.push(ms); } });
+		let calls = 0;
+		await scheduler.schedule(async () => {
+			calls++;
+			if (calls === 1) throw httpError(403, { 'retry-after': '2' }, 'You have exceeded a secondary rate limit');
+			return ok();
+		});
+		assert.strictEqual(calls, 2);
+		assert.ok(sleeps.length > 0);
+		assert.ok(sleeps[0] > 1000 && sleeps[0] <= 2000, `Expected ~2s wait, got ${sleeps[0]}`);
+	});
+
+	it('retries abuse-limit 403s without retry-after', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, baseDelayMs: 0 });
+		let calls = 0;
+		await scheduler.schedule(async () => {
+			calls++;
+			if (calls === 1) throw httpError(403, {}, 'You have triggered an abuse detection mechanism');
+			return ok();
+		});
+		assert.strictEqual(calls, 2);
+	});
+
+	it('gives up when the rate limit reset is too far away', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, maxWaitMs: 1000 });
+		const reset = String(Math.floor(Date.now() / 1000) + 3600);
+		await assert.rejects(() => scheduler.schedule(async () => {
+			throw httpError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset });
+		}));
+		assert.strictEqual(scheduler.getStats().retries, 0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Adaptive concurrency
+// ---------------------------------------------------------------------------
+
+describe('RequestScheduler — adaptive concurrency', () => {
+	it('halves concurrency on secondary rate limits', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, maxConcurrency: 8 });
+		let calls = 0;
+		await scheduler.schedule(async () => {
+			calls++;
+			if (calls === 1) throw httpError(429, { 'retry-after': '1' });
+			return ok();
+		});
+		assert.strictEqual(scheduler.getConcurrency(), 4);
+	});
+
+	it('drops to minimum concurrency when quota is low', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, maxConcurrency: 8, minConcurrency: 2 });
+		await scheduler.schedule(async () => ok({ 'x-ratelimit-remaining': '100', 'x-ratelimit-limit': '5000' }));
+		assert.strictEqual(scheduler.getConcurrency(), 2);
+	});
+
+	it('steps concurrency back up after a run of successes', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, maxConcurrency: 8 });
+		let calls = 0;
+		await scheduler.schedule(async () => {
+			calls++;
+			if (calls === 1) throw httpError(429, { 'retry-after': '1' });
+			return ok();
+		});
+		for (let i = 0; i < 40; i++) {
+			await scheduler.schedule(async () => ok());
+		}
+		assert.strictEqual(scheduler.getConcurrency(), 6);
+	});
+
+	it('never runs more requests at once than the limit', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep, maxConcurrency: 3 });
+		let inFlight = 0;
+		let peak = 0;
+		await Promise.all(Array.from({ length: 10 }, () => scheduler.schedule(async () => {
+			inFlight++;
+			peak = Math.max(peak, inFlight);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			inFlight--;
+			return ok();
+		})));
+		assert.strictEqual(peak, 3);
+		assert.strictEqual(scheduler.getStats().requests, 10);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Stats
+// ---------------------------------------------------------------------------
+
+describe('RequestScheduler — stats', () => {
+	it('records rate limit headers', async () => {
+		const scheduler = new RequestScheduler({ sleep: noSleep });
+		await scheduler.schedule(async () => ok({
+			'x-ratelimit-remaining': '4321',
+			'x-ratelimit-limit': '5000',
+			'x-ratelimit-reset': '1735689600',
+		}));
+		const stats = scheduler.getStats();
+		assert.strictEqual(stats.rateLimitRemaining, 4321);
+		assert.strictEqual(stats.rateLimitLimit, 5000);
+		assert.strictEqual(stats.rateLimitReset?.toISOString(), '2025-01-01T00:00:00.000Z');
+	});
+
+	it('formats a summary line', () => {
+		const line = formatRequestStats({
+			requests: 120,
+			retries: 2,
+			failures: 1,
+			concurrency: 10,
+			rateLimitRemaining: 4321,
+			rateLimitLimit: 5000,
+			rateLimitReset: new Date('2025-01-01T00:00:00Z'),
+		});
+		assert.strictEqual(line, '120 requests, 2 retries, 1 failed, 4321/5000 quota remaining (resets 2025-01-01T00:00:00Z)');
+	});
+
+	it('omits quota when no headers were seen', () => {
+		const line = formatRequestStats({
+			requests: 0, retries: 0, failures: 0, concurrency: 10,
+			rateLimitRemaining: null, rateLimitLimit: null, rateLimitReset: null,
+		});
+		assert.strictEqual(line, '0 requests, 0 retries');
+	});
+});
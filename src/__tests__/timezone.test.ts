@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { endOfLocalDay, formatDateRange, isoDateIn, localDate, startOfLocalDay, wallClock } from '../timezone';
+
+describe('localDate', () => {
+	it('takes the calendar date in the timezone', () => {
+		const instant = new Date('2025-05-11T20:00:00Z');
+		assert.strictEqual(localDate(instant, 'UTC').toISOString(), '2025-05-11T00:00:00.000Z');
+		assert.strictEqual(localDate(instant, 'Australia/Sydney').toISOString(), '2025-05-12T00:00:00.000Z');
+		assert.strictEqual(isoDateIn(instant, 'Australia/Sydney'), '2025-05-12');
+	});
+});
+
+describe('startOfLocalDay and endOfLocalDay', () => {
+	it('bound the local day', () => {
+		const day = new Date('2025-05-12T00:00:00Z');
+		assert.strictEqual(startOfLocalDay(day, 'Australia/Sydney').toISOString(), '2025-05-11T14:00:00.000Z');
+		assert.strictEqual(endOfLocalDay(day, 'Australia/Sydney').toISOString(), '2025-05-12T13:59:59.999Z');
+	});
+
+	it('follow a DST change within the day', () => {
+		// Sydney moves to UTC+11 at 2am on Oct 5, 2025
+		const day = new Date('2025-10-05T00:00:00Z');
+		assert.strictEqual(startOfLocalDay(day, 'Australia/Sydney').toISOString(), '2025-10-04T14:00:00.000Z');
+		assert.strictEqual(endOfLocalDay(day, 'Australia/Sydney').toISOString(), '2025-10-05T12:59:59.999Z');
+	});
+});
+
+describe('wallClock', () => {
+	it('reads the local time as if it were UTC', () => {
+		assert.strictEqual(wallClock(new Date('2025-05-11T20:30:00.250Z'), 'Australia/Sydney').toISOString(), '2025-05-12T06:30:00.250Z');
+	});
+});
+
+describe('formatDateRange', () => {
+	it('formats both ends in the timezone', () => {
+		const start = new Date('2025-05-11T14:00:00Z');
+		const end = new Date('2025-05-25T13:59:59.999Z');
+		assert.strictEqual(formatDateRange(start, end, 'Australia/Sydney'), 'May 12 – May 25');
+		assert.strictEqual(formatDateRange(start, end, 'UTC'), 'May 11 – May 25');
+	});
+});
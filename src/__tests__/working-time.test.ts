@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+	WorkingCalendar,
+	describeWorkingCalendar,
+	holidaysBetween,
+	isAroundTheClock,
+	workingHoursBetween,
+	workingHoursPerDay,
+} from '../working-time';
+import { isValidTimeZone } from '../timezone';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeCalendar(overrides: Partial<WorkingCalendar> = {}): WorkingCalendar {
+	return {
+		workingDays: [1, 2, 3, 4, 5],
+		startMinute: 9 * 60,
+		endMinute: 17 * 60,
+		timezone: 'UTC',
+		holidays: [],
+		...overrides,
+	};
+}
+
+// ---------------------------------------------------------------------------
+// workingHoursBetween
+// ---------------------------------------------------------------------------
+
+describe('workingHoursBetween', () => {
+	it('counts only the overlap with working hours on one day', () => {
+		// Wed 2025-01-08, 07:00 → 12:30
+		const hours = workingHoursBetween(new Date('2025-01-08T07:00:00Z'), new Date('2025-01-08T12:30:00Z'), makeCalendar());
+		assert.strictEqual(hours, 3.5);
+	});
+
+	it('skips the weekend between Friday evening and Monday morning', () => {
+		// Fri 2025-01-10 18:00 → Mon 2025-01-13 10:00
+		const hours = workingHoursBetween(new Date('2025-01-10T18:00:00Z'), new Date('2025-01-13T10:00:00Z'), makeCalendar());
+		assert.strictEqual(hours, 1);
+	});
+
+	it('counts full working days in between', () => {
+		// Mon 09:00 → Fri 17:00
+		const hours = workingHoursBetween(new Date('2025-01-06T09:00:00Z'), new Date('2025-01-10T17:00:00Z'), makeCalendar());
+		assert.strictEqual(hours, 40);
+	});
+
+	it('returns 0 when the end is not after the start', () => {
+		const at = new Date('2025-01-08T10:00:00Z');
+		assert.strictEqual(workingHoursBetween(at, at, makeCalendar()), 0);
+		assert.strictEqual(workingHoursBetween(at, new Date('2025-01-08T09:00:00Z'), makeCalendar()), 0);
+	});
+
+	it('uses working hours in the team timezone', () => {
+		// 09:00–17:00 in Berlin is 08:00–16:00 UTC in winter
+		const calendar = makeCalendar({ timezone: 'Europe/Berlin' });
+		const hours = workingHoursBetween(new Date('2025-01-08T06:00:00Z'), new Date('2025-01-08T09:00:00Z'), calendar);
+		assert.strictEqual(hours, 1);
+	});
+
+	it('follows daylight saving time changes', () => {
+		// 09:00 in New York is 14:00 UTC before 9 March 2025 and 13:00 UTC after
+		const calendar = makeCalendar({ timezone: 'America/New_York' });
+		assert.strictEqual(workingHoursBetween(new Date('2025-03-07T13:00:00Z'), new Date('2025-03-07T15:00:00Z'), calendar), 1);
+		assert.strictEqual(workingHoursBetween(new Date('2025-03-10T13:00:00Z'), new Date('2025-03-10T15:00:00Z'), calendar), 2);
+	});
+
+	it('skips holidays', () => {
+		// Tue 2025-12-23 09:00 → Mon 2025-12-29 09:00 over Christmas
+		const calendar = makeCalendar({ holidays: ['2025-12-24', '2025-12-25', '2025-12-26'] });
+		assert.strictEqual(workingHoursBetween(new Date('2025-12-23T09:00:00Z'), new Date('2025-12-29T09:00:00Z'), calendar), 8);
+	});
+
+	it('skips holidays on local dates', () => {
+		// Dec 25 starts at 15:00 UTC on Dec 24 in Tokyo
+		const calendar = makeCalendar({ workingDays: [0, 1, 2, 3, 4, 5, 6], startMinute: 0, endMinute: 1440, timezone: 'Asia/Tokyo', holidays: ['2025-12-25'] });
+		assert.strictEqual(workingHoursBetween(new Date('2025-12-24T12:00:00Z'), new Date('2025-12-24T16:00:00Z'), calendar), 3);
+	});
+
+	it('uses the local working week', () => {
+		// Sun–Thu week: Sunday counts, Friday does not
+		const calendar = makeCalendar({ workingDays: [0, 1, 2, 3, 4] });
+		assert.strictEqual(workingHoursBetween(new Date('2025-01-12T00:00:00Z'), new Date('2025-01-13T00:00:00Z'), calendar), 8);
+		assert.strictEqual(workingHoursBetween(new Date('2025-01-10T00:00:00Z'), new Date('2025-01-11T00:00:00Z'), calendar), 0);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Helpers for the card and config
+// ---------------------------------------------------------------------------
+
+describe('holidaysBetween', () => {
+	it('counts holidays on the dates of the period', () => {
+		const calendar = makeCalendar({ holidays: ['2025-12-20', '2025-12-25', '2026-01-01', '2026-01-06'] });
+		assert.strictEqual(holidaysBetween(new Date('2025-12-22T10:00:00Z'), new Date('2026-01-01T10:00:00Z'), calendar), 2);
+	});
+
+	it('skips holidays on days that are already off', () => {
+		// Christmas 2027 is a Saturday
+		const calendar = makeCalendar({ holidays: ['2027-12-24', '2027-12-25'] });
+		assert.strictEqual(holidaysBetween(new Date('2027-12-20T10:00:00Z'), new Date('2027-12-31T10:00:00Z'), calendar), 1);
+	});
+});
+
+describe('isAroundTheClock', () => {
+	it('is true only for every hour of every day', () => {
+		assert.strictEqual(isAroundTheClock(makeCalendar()), false);
+		assert.strictEqual(isAroundTheClock(makeCalendar({ workingDays: [0, 1, 2, 3, 4, 5, 6], startMinute: 0, endMinute: 1440 })), true);
+	});
+});
+
+describe('workingHoursPerDay', () => {
+	it('is the length of the working window', () => {
+		assert.strictEqual(workingHoursPerDay(makeCalendar({ startMinute: 8 * 60 + 30, endMinute: 17 * 60 })), 8.5);
+	});
+});
+
+describe('describeWorkingCalendar', () => {
+	it('collapses consecutive days into a range', () => {
+		assert.strictEqual(describeWorkingCalendar(makeCalendar({ timezone: 'Europe/Berlin' })), 'Mon–Fri 09:00–17:00 (Europe/Berlin)');
+	});
+
+	it('lists other days individually', () => {
+		assert.strictEqual(
+			describeWorkingCalendar(makeCalendar({ workingDays: [1, 3, 5], startMinute: 8 * 60 + 30 })),
+			'Mon, Wed, Fri 08:30–17:00 (UTC)'
+		);
+	});
+});
+
+describe('isValidTimeZone', () => {
+	it('accepts IANA names and rejects others', () => {
+		assert.strictEqual(isValidTimeZone('Asia/Tokyo'), true);
+		assert.strictEqual(isValidTimeZone('Mars/Olympus'), false);
+	});
+});
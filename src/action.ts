@@ -5,95 +5,540 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { getConfig, Config } from './config';
-import { GitHubClient, ShipEvent } from './github-client';
-import { calculateMetrics, SprintMetrics } from './metrics';
-import { renderHealthCard, AURORA_LOGO } from './card';
+import { GitHubClient, PullRequest, ShipEvent } from './github-client';
+import { calculateMetrics, combineRepositoryData, prKey, PRKey, RepositoryData, SprintMetrics } from './metrics';
+import { renderHealthCard, PreviousMetrics, RepositoryMetrics, TrendPoint, AURORA_LOGO } from './card';
+import { formatRequestStats } from './request-scheduler';
+import { PRCache } from './pr-cache';
+import { ApiRecorder, RecordingMeta } from './recorder';
+import { applyPeriodSource, PeriodSourceConfig, selectPeriodPullRequests } from './period-source';
+import { createSnapshot, findPreviousSnapshot, HistorySnapshot, MetricsHistory } from './history';
+import { holidaysBetween } from './working-time';
+import { formatDateRange, isoDateIn } from './timezone';
+import { DORA_KEYS, classifyDora } from './dora';
 
 export async function run(): Promise<void> {
 	const config = getConfig();
 
 	console.log(`📊 Sprint Health Card`);
 	console.log(`   Repository: ${config.owner}/${config.repo}`);
-	console.log(`   Sprint length: ${config.sprintLengthDays} days`);
-	console.log(`   Period: ${config.periodStart.toISOString().split('T')[0]} to ${config.periodEnd.toISOString().split('T')[0]}`);
+	if (config.periodSource) {
+		console.log(`   Period: from the ${config.periodSource.type}`);
+	} else {
+		console.log(`   Sprint length: ${config.sprintLengthDays} days`);
+		console.log(`   Period: ${isoDateIn(config.periodStart, config.timezone)} to ${isoDateIn(config.periodEnd, config.timezone)}`);
+	}
 	console.log('');
 
-	// Initialize GitHub client
-	const client = new GitHubClient(config.token, config.owner, config.repo);
+	// Record or replay API traffic if configured
+	let recorder: ApiRecorder | undefined;
+	if (config.replayPath) {
+		console.log(`📼 Replaying GitHub API responses from ${config.replayPath}`);
+		recorder = ApiRecorder.forReplay(config.replayPath);
+	} else if (config.recordPath) {
+		recorder = ApiRecorder.forRecording(config.recordPath);
+		recorder.setMeta(recordingMeta(config));
+	}
 
-	// Fetch PR data
-	console.log('📥 Fetching pull request data...');
-	const pullRequests = await client.getMergedPRs(config.periodStart, config.periodEnd);
-	console.log(`   Found ${pullRequests.length} merged PRs in period`);
+	// Initialize GitHub client (a replay needs no real token)
+	const client = new GitHubClient(config.token || 'replay', config.owner, config.repo, recorder);
+
+	try {
+		await generateReport(config, client, recorder);
+	} finally {
+		if (recorder && recorder.mode === 'record') {
+			recorder.save();
+			console.log(`📼 Recorded GitHub API responses to ${config.recordPath}`);
+		}
+	}
+}
+
+/**
+ * The repository and period, stored with a recording so a replay
+ * reproduces the same queries
+ */
+function recordingMeta(config: Config): RecordingMeta {
+	return {
+		repository: `${config.owner}/${config.repo}`,
+		repositories: config.repositories,
+		repositoryTopic: config.repositoryTopic,
+		periodStart: config.periodStart.toISOString(),
+		periodEnd: config.periodEnd.toISOString(),
+		sprintLengthDays: config.sprintLengthDays,
+		periodMode: config.periodMode,
+		periodLabel: config.periodLabel,
+		previousPeriodStart: config.previousPeriod.start.toISOString(),
+		previousPeriodEnd: config.previousPeriod.end.toISOString(),
+		previousPeriodDays: config.previousPeriod.lengthDays,
+		periodSource: config.periodSource,
+		timezone: config.timezone,
+		comparePrevious: config.comparePrevious,
+		cycleTimeStart: config.cycleTimeStart,
+		history: config.history,
+	};
+}
+
+function describePeriodSource(config: Config, source: PeriodSourceConfig): string {
+	switch (source.type) {
+		case 'iteration':
+			return `iteration in project ${source.projectOwner || config.owner}/${source.projectNumber}`;
+		case 'release':
+			return source.fromTag ? `commits from ${source.fromTag} to ${source.toTag}` : 'latest releases';
+		default:
+			return 'milestone';
+	}
+}
 
-	if (pullRequests.length === 0) {
+async function generateReport(config: Config, client: GitHubClient, recorder?: ApiRecorder): Promise<void> {
+	const repositories = await resolveRepositories(config, client);
+	const isMultiRepo = repositories.length > 1;
+	if (isMultiRepo) {
+		console.log(`📚 Combining ${repositories.length} repositories: ${repositories.join(', ')}`);
+	} else if (repositories.length === 0) {
+		throw new Error('No repositories matched the repositories input');
+	}
+
+	const notes: string[] = [];
+
+	// Sprint boundaries from a project iteration, milestones or releases
+	if (config.periodSource) {
+		const source = config.periodSource;
+		console.log(`🗓️  Looking up the ${describePeriodSource(config, source)}...`);
+		config = await applyPeriodSource(config, source, client, repositories);
+		console.log(`   ${config.periodLabel}: ${isoDateIn(config.periodStart, config.timezone)} to ${isoDateIn(config.periodEnd, config.timezone)}`);
+		if (recorder && recorder.mode === 'record') {
+			recorder.setMeta(recordingMeta(config));
+		}
+		if (config.linkedPullRequests) {
+			notes.push(`Only PRs linked to the ${source.type} are counted.`);
+		}
+	}
+
+	// Earlier snapshots from the metrics history, if enabled
+	const history = config.history ? new MetricsHistory(client, config.history) : null;
+	const snapshots = history ? await loadHistory(history, config) : [];
+	const previousSnapshot = config.comparePrevious ? findPreviousSnapshot(snapshots, config.periodStart) : null;
+	if (previousSnapshot) {
+		console.log(`📚 Comparing with the stored snapshot for ${previousSnapshot.periodEnd.split('T')[0]}`);
+	}
+
+	const datasets: RepositoryData[] = [];
+	const previousDatasets: RepositoryData[] = [];
+	for (const repository of repositories) {
+		const [owner, repo] = repository.split('/');
+		const repoClient = owner === config.owner && repo === config.repo
+			? client
+			: client.forRepository(owner, repo);
+		if (isMultiRepo) {
+			console.log(`\n📁 ${repository}`);
+		}
+		const collected = await collectRepositoryData(config, repoClient, repository, notes, !previousSnapshot, isMultiRepo);
+		datasets.push(collected.current);
+		if (collected.previous) {
+			previousDatasets.push(collected.previous);
+		}
+	}
+
+	if (datasets.every((d) => d.pullRequests.length === 0)) {
 		console.log('⚠️  No merged PRs found in this period');
 		const emptyCard = renderEmptyCard(config);
 		outputResults(config, emptyCard, null);
+		logRequestSummary(client);
 		return;
 	}
 
+	// Calculate metrics
+	console.log('🧮 Calculating metrics...');
+	const combined = combineRepositoryData(datasets);
+	const metrics = calculateMetrics(combined.pullRequests, combined.reviewsByPR, combined.openPRCount, {
+		...combined.options,
+		cycleTimeStart: config.cycleTimeStart,
+		workingCalendar: config.workingCalendar,
+		periodDays: config.sprintLengthDays,
+		nonWorkingDays: countNonWorkingDays(config, { start: config.periodStart, end: config.periodEnd }),
+		hotfixLabels: config.hotfixLabels,
+	});
+
+	// Comparison mode: the previous period's metrics for the delta column
+	let previousMetrics: PreviousMetrics | undefined;
+	if (previousSnapshot) {
+		previousMetrics = previousSnapshot.metrics;
+	} else if (config.comparePrevious) {
+		const previous = combineRepositoryData(previousDatasets);
+		previousMetrics = {
+			...calculateMetrics(previous.pullRequests, previous.reviewsByPR, 0, {
+				...previous.options,
+				cycleTimeStart: config.cycleTimeStart,
+				workingCalendar: config.workingCalendar,
+				periodDays: config.previousPeriod.lengthDays,
+				nonWorkingDays: countNonWorkingDays(config, config.previousPeriod),
+				hotfixLabels: config.hotfixLabels,
+			}),
+			// Open PRs can't be counted as of a past date
+			wipCount: null,
+		};
+	}
+
+	// Per-repository rows alongside the combined card
+	const repositoryBreakdown: RepositoryMetrics[] = isMultiRepo
+		? datasets
+			.filter((d) => d.pullRequests.length > 0)
+			.map((d) => ({ repository: d.repository, metrics: calculateRepositoryMetrics(config, d) }))
+		: [];
+
+	// Earlier snapshots plus this period, for sparklines and charts
+	const trend: TrendPoint[] | undefined = config.trendCharts
+		? [
+			...snapshots.map((snapshot) => ({ periodEnd: new Date(snapshot.periodEnd), metrics: snapshot.metrics })),
+			{ periodEnd: config.periodEnd, metrics },
+		]
+		: undefined;
+
+	// Render health card
+	const healthCard = renderHealthCard(config, metrics, config.thresholds, {
+		notes,
+		repositoryBreakdown,
+		previousMetrics,
+		trend,
+	});
+
+	// Output results
+	outputResults(config, healthCard, metrics);
+
+	// Post the card if configured
+	await postHealthCard(config, client, healthCard);
+
+	// Push to Aurora if configured (never from a replay)
+	if (config.auroraApiKey && config.auroraTeamId && !config.replayPath) {
+		// PR numbers repeat across repositories, so combined cards send owner/repo#n
+		const prKeys = isMultiRepo || config.repositories.length > 0
+			? combined.pullRequests.map((pr) => prKey(pr))
+			: metrics.prNumbers;
+		await pushToAurora(config, metrics, repositoryBreakdown, prKeys);
+	}
+
+	// Store this run's snapshot (never from a replay)
+	if (history && !config.replayPath) {
+		await saveHistory(history, createSnapshot(repositories, config.periodStart, config.periodEnd, config.sprintLengthDays, metrics));
+	}
+
+	logRequestSummary(client);
+}
+
+/**
+ * Expand the repositories input (owner/repo entries and owner/<glob>
+ * patterns) into concrete repositories, skipping archived ones and
+ * filtering by topic. Defaults to the current repository.
+ */
+async function resolveRepositories(config: Config, client: GitHubClient): Promise<string[]> {
+	// A topic on its own selects from all of the owner's repositories
+	const fallback = config.repositoryTopic ? `${config.owner}/*` : `${config.owner}/${config.repo}`;
+	const entries = config.repositories.length > 0 ? config.repositories : [fallback];
+	const resolved = new Set<string>();
+
+	for (const entry of entries) {
+		const [owner, pattern] = entry.split('/');
+		if (!/[*?]/.test(pattern) && !config.repositoryTopic) {
+			resolved.add(entry);
+			continue;
+		}
+
+		const matcher = globToRegExp(pattern);
+		const listed = await client.listOwnerRepositories(owner);
+		for (const r of listed) {
+			if (r.archived || !matcher.test(r.name)) continue;
+			if (config.repositoryTopic && !r.topics.includes(config.repositoryTopic)) continue;
+			resolved.add(`${owner}/${r.name}`);
+		}
+	}
+
+	return [...resolved];
+}
+
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+	return new RegExp(`^${source}$`, 'i');
+}
+
+interface Period {
+	start: Date;
+	end: Date;
+}
+
+// How far before a period to look for a failed deployment that is still
+// unresolved at its start
+const RESTORE_LOOKBACK_DAYS = 30;
+
+interface CollectedData {
+	current: RepositoryData;
+	// Previous period, only in comparison mode
+	previous: RepositoryData | null;
+}
+
+/**
+ * Fetch one repository's merged PRs and everything derived from them
+ */
+async function collectRepositoryData(
+	config: Config,
+	client: GitHubClient,
+	repository: string,
+	notes: string[],
+	fetchPrevious: boolean,
+	combining: boolean
+): Promise<CollectedData> {
+	const [owner, repo] = repository.split('/');
+	const empty: RepositoryData = {
+		repository,
+		pullRequests: [],
+		reviewsByPR: new Map(),
+		openPRCount: 0,
+		prSizes: new Map(),
+		workflowRuns: null,
+		shipEvents: [],
+		incidents: [],
+		incidentError: null,
+		priorDeployments: [],
+		firstCommitDates: new Map(),
+		draftEvents: new Map(),
+		previousPullRequests: [],
+		previousDraftEvents: new Map(),
+	};
+
+	// The cache would hide requests from a recording, and a replay must
+	// come entirely from the recording
+	let cache: PRCache | null = null;
+	if (config.cachePath && (config.recordPath || config.replayPath)) {
+		console.log('💾 PR cache disabled while recording or replaying');
+	} else if (config.cachePath) {
+		cache = PRCache.load(config.cachePath, owner, repo, config.cacheRefresh);
+		client.useCache(cache);
+		if (config.cacheRefresh) {
+			console.log('💾 Cache refresh requested — refetching all PRs');
+		}
+	}
+
+	// Fetch PR data
+	console.log('📥 Fetching pull request data...');
+	const merged = await client.getMergedPRs(config.periodStart, config.periodEnd, config.timezone);
+	console.log(`   Found ${merged.length} merged PRs in period`);
+	const pullRequests = await selectPeriodPullRequests(config, client, repository, merged, 'current');
+	if (pullRequests.length < merged.length) {
+		console.log(`   ${pullRequests.length} of them count towards ${config.periodLabel}`);
+	}
+
+	const searchQueries = client.getMergedPRsQueryCount();
+	if (searchQueries > 1) {
+		const scope = config.repositories.length > 0 ? ` for ${repository}` : '';
+		console.log(`   Assembled from ${searchQueries} date-split searches (search API caps at 1000 results)`);
+		notes.push(`Merged PRs${scope} were assembled from ${searchQueries} date-split searches, as GitHub search returns at most 1000 results per query.`);
+	}
+
+	// On its own, a repository without merged PRs gets the empty card; a
+	// combined card still counts its open PRs, builds, deployments and
+	// previous period
+	if (pullRequests.length === 0 && !combining) {
+		return { current: empty, previous: null };
+	}
+
+	// The equivalent window before this period, for the cycle time trend
+	const previous = config.previousPeriod;
+	const previousPullRequests = await selectPeriodPullRequests(
+		config,
+		client,
+		repository,
+		await client.getMergedPRs(previous.start, previous.end, config.timezone),
+		'previous'
+	);
+	console.log(`   Found ${previousPullRequests.length} merged PRs in the previous period`);
+
+	const current = await fetchPeriodData(config, client, repository, pullRequests, {
+		start: config.periodStart,
+		end: config.periodEnd,
+	}, true);
+	current.previousPullRequests = previousPullRequests;
+
+	// Comparison mode: the previous period in full, for the delta column,
+	// even without merged PRs (builds and deployments still count)
+	let previousData: RepositoryData | null = null;
+	if (config.comparePrevious && fetchPrevious) {
+		console.log('📥 Fetching previous period data for comparison...');
+		previousData = await fetchPeriodData(config, client, repository, previousPullRequests, previous, false);
+		current.previousDraftEvents = previousData.draftEvents;
+	} else if (config.cycleTimeStart === 'ready' && previousPullRequests.length > 0) {
+		// The trend must measure the previous period from ready for review too
+		console.log('📥 Fetching previous period draft events...');
+		const previousDetails = await client.getReviewsAndSizes(previousPullRequests.map((pr) => pr.number));
+		current.previousDraftEvents = previousDetails.draftEventsByPR;
+	}
+
+	if (cache) {
+		saveCache(cache, config.cachePath!);
+	}
+
+	return { current, previous: previousData };
+}
+
+/**
+ * Fetch reviews, sizes, builds, ship events and first commit dates for the
+ * PRs merged in one period. Open PRs can only be counted as of now.
+ */
+async function fetchPeriodData(
+	config: Config,
+	client: GitHubClient,
+	repository: string,
+	pullRequests: PullRequest[],
+	period: Period,
+	countOpenPRs: boolean
+): Promise<RepositoryData> {
 	// Fetch all data in parallel where possible
 	const prNumbers = pullRequests.map((pr) => pr.number);
-	console.log('📥 Fetching reviews + PR sizes, open PRs, workflow runs, deployments...');
+	console.log(countOpenPRs
+		? '📥 Fetching reviews + PR sizes, open PRs, workflow runs, deployments, incidents...'
+		: '📥 Fetching reviews + PR sizes, workflow runs, deployments, incidents...');
 
-	const [reviewsAndSizes, openPRs, workflowRuns, deployments] = await Promise.all([
+	const lookbackStart = new Date(period.start.getTime() - RESTORE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+	const [reviewsAndSizes, openPRs, workflowRuns, deployments, incidents] = await Promise.all([
 		client.getReviewsAndSizes(prNumbers),
-		client.getOpenPRs(),
-		client.getWorkflowRuns(config.periodStart, config.periodEnd, config.workflowFilter),
-		client.getDeployments(config.periodStart, config.periodEnd, config.deploymentEnvironment),
+		countOpenPRs ? client.getOpenPRs() : Promise.resolve(0),
+		client.getWorkflowRuns(period.start, period.end, config.workflowFilter, config.timezone),
+		client.getDeployments(lookbackStart, period.end, config.deploymentEnvironment),
+		client.getIncidents(period.start, period.end, config.incidentLabels).then(
+			(found) => ({ found, error: null }),
+			(error: Error) => ({ found: [], error: error.message })
+		),
 	]);
+	if (incidents.error) {
+		console.warn(`   ⚠️  Time to restore not measured: ${incidents.error}`);
+	}
 
-	const reviews = reviewsAndSizes.reviewsByPR;
-	const prSizes = reviewsAndSizes.sizesByPR;
-
-	// Ship events: prefer deployments, fall back to releases
+	// Ship events: prefer deployments (with their latest status, for
+	// failed deployments), fall back to releases
+	const periodDeployments = deployments.filter((d) => d.createdAt >= period.start);
 	let shipEvents: ShipEvent[] = [];
-	if (deployments.length > 0) {
-		shipEvents = deployments;
+	let priorDeployments: ShipEvent[] = [];
+	if (periodDeployments.length > 0) {
+		const states = await client.getDeploymentStates(periodDeployments.map((d) => d.id));
+		shipEvents = periodDeployments.map((d) => ({ ...d, state: states.get(d.id) }));
+		const environments = new Set(periodDeployments.map((d) => d.label));
+		priorDeployments = await findPriorFailures(
+			client,
+			deployments.filter((d) => d.createdAt < period.start && environments.has(d.label))
+		);
 	} else {
-		shipEvents = await client.getReleases(config.periodStart, config.periodEnd);
+		shipEvents = await client.getReleases(period.start, period.end);
 	}
 
-	// First commit dates only needed if we have ship events
-	let firstCommitDates = new Map<number, Date>();
-	if (shipEvents.length > 0) {
-		console.log('📥 Fetching first commit dates...');
-		firstCommitDates = await client.getFirstCommitDates(prNumbers);
-	}
+	// First commit dates: coding time, and lead time when there are ship events
+	console.log('📥 Fetching first commit dates...');
+	const firstCommitDates = await client.getFirstCommitDates(prNumbers);
 
-	// Calculate metrics
-	console.log('🧮 Calculating metrics...');
-	const metrics = calculateMetrics(pullRequests, reviews, openPRs, {
-		prSizes,
+	return {
+		repository,
+		pullRequests,
+		reviewsByPR: reviewsAndSizes.reviewsByPR,
+		openPRCount: openPRs,
+		prSizes: reviewsAndSizes.sizesByPR,
 		workflowRuns,
 		shipEvents,
+		incidents: incidents.found,
+		incidentError: incidents.error,
+		priorDeployments,
 		firstCommitDates,
+		draftEvents: reviewsAndSizes.draftEventsByPR,
+		previousPullRequests: [],
+		previousDraftEvents: new Map(),
+	};
+}
+
+/**
+ * The deployments before a period that an outage open at its start began
+ * with: per environment, the failures since the last successful
+ * deployment, and that success. Deployments are newest first, and their
+ * statuses are read only until the success.
+ */
+async function findPriorFailures(client: GitHubClient, deployments: ShipEvent[]): Promise<ShipEvent[]> {
+	const prior: ShipEvent[] = [];
+	const settled = new Set<string>();
+	for (const deployment of deployments) {
+		if (settled.has(deployment.label)) continue;
+		const state = (await client.getDeploymentStates([deployment.id])).get(deployment.id);
+		prior.push({ ...deployment, state });
+		if (state === 'success' || state === 'inactive') settled.add(deployment.label);
+	}
+	return prior;
+}
+
+/**
+ * Holidays in a period, left out of the ship frequency denominator
+ */
+function countNonWorkingDays(config: Config, period: Period): number {
+	return config.workingCalendar ? holidaysBetween(period.start, period.end, config.workingCalendar) : 0;
+}
+
+function calculateRepositoryMetrics(config: Config, data: RepositoryData): SprintMetrics {
+	return calculateMetrics(data.pullRequests, data.reviewsByPR, data.openPRCount, {
+		prSizes: data.prSizes,
+		workflowRuns: data.workflowRuns,
+		shipEvents: data.shipEvents,
+		firstCommitDates: data.firstCommitDates,
+		draftEvents: data.draftEvents,
+		cycleTimeStart: config.cycleTimeStart,
+		workingCalendar: config.workingCalendar,
+		previousPullRequests: data.previousPullRequests,
+		previousDraftEvents: data.previousDraftEvents,
 		periodDays: config.sprintLengthDays,
+		nonWorkingDays: countNonWorkingDays(config, { start: config.periodStart, end: config.periodEnd }),
+		hotfixLabels: config.hotfixLabels,
+		incidents: data.incidents,
+		incidentError: data.incidentError,
+		priorDeployments: data.priorDeployments,
 	});
+}
 
-	// Render health card
-	const healthCard = renderHealthCard(config, metrics, config.thresholds);
-
-	// Output results
-	outputResults(config, healthCard, metrics);
+async function loadHistory(history: MetricsHistory, config: Config): Promise<HistorySnapshot[]> {
+	try {
+		const snapshots = await history.load(config.periodEnd);
+		console.log(`📚 Loaded ${snapshots.length} earlier snapshots from the metrics history`);
+		return snapshots;
+	} catch (error) {
+		console.warn(`⚠️  Could not load metrics history: ${error}`);
+		return [];
+	}
+}
 
-	// Post the card if configured
-	await postHealthCard(config, client, healthCard);
+async function saveHistory(history: MetricsHistory, snapshot: HistorySnapshot): Promise<void> {
+	try {
+		await history.save(snapshot);
+		console.log('✅ Saved metrics snapshot to history');
+	} catch (error) {
+		console.warn(`⚠️  Failed to save metrics snapshot: ${error}`);
+	}
+}
 
-	// Push to Aurora if configured
-	if (config.auroraApiKey && config.auroraTeamId) {
-		await pushToAurora(config, metrics);
+function saveCache(cache: PRCache, cachePath: string): void {
+	const { hits, misses, stale } = cache.getStats();
+	console.log(`💾 PR cache: ${hits} hits, ${misses} misses (${stale} changed since cached)`);
+	try {
+		cache.save();
+	} catch (error) {
+		console.warn(`⚠️  Failed to write PR cache to ${cachePath}: ${error}`);
 	}
 }
 
+function logRequestSummary(client: GitHubClient): void {
+	console.log(`📡 GitHub API: ${formatRequestStats(client.getRequestStats())}`);
+}
+
 function renderEmptyCard(config: Config): string {
 	return `
 \`\`\`text
 ${AURORA_LOGO}
 \`\`\`
 
-## 📊 Sprint Health — ${formatDateRange(config.periodStart, config.periodEnd)}
+## 📊 Sprint Health — ${config.periodLabel || formatDateRange(config.periodStart, config.periodEnd, config.timezone)}
 
 No pull requests merged during this period.
 
@@ -102,12 +547,6 @@ No pull requests merged during this period.
 `.trim();
 }
 
-function formatDateRange(start: Date, end: Date): string {
-	const formatDate = (d: Date) =>
-		d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-	return `${formatDate(start)} – ${formatDate(end)}`;
-}
-
 function outputResults(config: Config, healthCard: string, metrics: SprintMetrics | null): void {
 	// Always log the card to console
 	console.log('\n' + '='.repeat(60));
@@ -118,9 +557,13 @@ function outputResults(config: Config, healthCard: string, metrics: SprintMetric
 	if (process.env.GITHUB_ACTIONS) {
 		core.setOutput('health-card', healthCard);
 		if (metrics) {
-			core.setOutput('cycle-time-hours', metrics.cycleTimeMedianHours.toFixed(1));
+			if (metrics.cycleTimeMedianHours !== null) {
+				core.setOutput('cycle-time-hours', metrics.cycleTimeMedianHours.toFixed(1));
+			}
 			core.setOutput('throughput', metrics.throughputCount);
-			core.setOutput('review-turnaround-hours', metrics.reviewTurnaroundMedianHours.toFixed(1));
+			if (metrics.reviewTurnaroundMedianHours !== null) {
+				core.setOutput('review-turnaround-hours', metrics.reviewTurnaroundMedianHours.toFixed(1));
+			}
 			if (metrics.prSizeMedian !== null) {
 				core.setOutput('pr-size-median', Math.round(metrics.prSizeMedian));
 			}
@@ -133,6 +576,20 @@ function outputResults(config: Config, healthCard: string, metrics: SprintMetric
 			if (metrics.leadTimeMedianHours !== null) {
 				core.setOutput('lead-time-hours', metrics.leadTimeMedianHours.toFixed(1));
 			}
+			if (metrics.changeFailureRate !== null) {
+				core.setOutput('change-failure-rate', metrics.changeFailureRate);
+			}
+			if (metrics.timeToRestoreMedianHours !== null) {
+				core.setOutput('time-to-restore-hours', metrics.timeToRestoreMedianHours.toFixed(1));
+			}
+		}
+
+		// DORA bands, 'unknown' where a key could not be measured (every key
+		// on the empty-period card)
+		const dora = metrics ? classifyDora(metrics) : null;
+		core.setOutput('dora-band', dora?.overall || 'unknown');
+		for (const key of DORA_KEYS) {
+			core.setOutput(`dora-${key}-band`, dora?.keys.find((result) => result.key === key)?.band || 'unknown');
 		}
 	}
 }
@@ -152,7 +609,12 @@ async function postHealthCard(config: Config, client: GitHubClient, healthCard:
 	}
 }
 
-async function pushToAurora(config: Config, metrics: SprintMetrics): Promise<void> {
+async function pushToAurora(
+	config: Config,
+	metrics: SprintMetrics,
+	repositoryBreakdown: RepositoryMetrics[] = [],
+	prKeys: PRKey[] = metrics.prNumbers
+): Promise<void> {
 	if (!config.auroraApiKey || !config.auroraTeamId) {
 		return;
 	}
@@ -163,13 +625,22 @@ async function pushToAurora(config: Config, metrics: SprintMetrics): Promise<voi
 
 	const payload = {
 		source: 'github',
-		periodStart: config.periodStart.toISOString().split('T')[0],
-		periodEnd: config.periodEnd.toISOString().split('T')[0],
+		periodStart: isoDateIn(config.periodStart, config.timezone),
+		periodEnd: isoDateIn(config.periodEnd, config.timezone),
+		// Whether the hour values below are wall-clock or business hours
+		clock: metrics.workingHoursPerDay ? 'business' : 'wall',
+		nonWorkingDays: metrics.nonWorkingDays,
 		delivery: {
 			cycleTimeMedianHours: metrics.cycleTimeMedianHours,
 			cycleTimeP90Hours: metrics.cycleTimeP90Hours,
+			cycleTimeStart: config.cycleTimeStart,
+			cycleTimePhases: metrics.cycleTimePhases,
+			cycleTimeTrend: metrics.cycleTimeTrend,
+			previousCycleTimeMedianHours: metrics.previousCycleTimeMedianHours,
 			throughputCount: metrics.throughputCount,
 			wipCount: metrics.wipCount,
+			draftTimeMedianHours: metrics.draftTimeMedianHours,
+			draftPRCount: metrics.draftPRCount,
 			prSizeMedian: metrics.prSizeMedian,
 			leadTimeMedianHours: metrics.leadTimeMedianHours,
 		},
@@ -184,10 +655,30 @@ async function pushToAurora(config: Config, metrics: SprintMetrics): Promise<voi
 			shipFrequency: metrics.shipFrequency,
 			shipCount: metrics.shipCount,
 			shipSource: metrics.shipSource,
+			changeFailureRate: metrics.changeFailureRate,
+			failedChangeCount: metrics.failedChangeCount,
+			failedChanges: metrics.failedChanges.map((change) => ({
+				kind: change.kind,
+				prNumbers: change.prNumbers,
+				at: change.at.toISOString(),
+				...(change.repository && { repository: change.repository }),
+			})),
+			timeToRestoreMedianHours: metrics.timeToRestoreMedianHours,
+			incidentCount: metrics.incidentCount,
 		},
 		raw: {
 			repoName: `${config.owner}/${config.repo}`,
-			prNumbers: metrics.prNumbers,
+			prNumbers: prKeys,
+			...(repositoryBreakdown.length > 0 && {
+				repositories: repositoryBreakdown.map(({ repository, metrics: m }) => ({
+					repository,
+					throughputCount: m.throughputCount,
+					cycleTimeMedianHours: m.cycleTimeMedianHours,
+					reviewTurnaroundHours: m.reviewTurnaroundMedianHours,
+					collaboratorCount: m.collaboratorCount,
+					wipCount: m.wipCount,
+				})),
+			}),
 		},
 	};
 
@@ -5,8 +5,12 @@
  */
 
 import { Config, Thresholds } from './config';
-import { SprintMetrics, formatDuration } from './metrics';
+import { SprintMetrics, CYCLE_TIME_PHASES, CycleTimeStart, FailedChange, formatDuration } from './metrics';
 import { getHealthEmoji } from './insights';
+import { describeWorkingCalendar, isAroundTheClock } from './working-time';
+import { formatDateRange, formatDay } from './timezone';
+import { THRESHOLD_PRESETS } from './threshold-presets';
+import { DoraBand, DoraClassification, DoraKey, DoraKeyResult, classifyDora } from './dora';
 
 // Aurora Coach cat logo in ASCII (23 chars wide)
 export const AURORA_LOGO = `\
@@ -23,32 +27,97 @@ export const AURORA_LOGO = `\
 ██░░░░░░██▓░░░▓▓██▓░░██
 ░▓███████████████████▓░`;
 
+export interface RepositoryMetrics {
+	repository: string;
+	metrics: SprintMetrics;
+}
+
+export interface CardOptions {
+	// Context about how the data was gathered, shown above the footer
+	notes?: string[];
+	// Per-repository rows when the card combines several repositories
+	repositoryBreakdown?: RepositoryMetrics[];
+	// Adds a 'vs last sprint' column
+	previousMetrics?: PreviousMetrics;
+	// Earlier periods and this one, oldest first, for sparklines and charts
+	trend?: TrendPoint[];
+}
+
+export interface TrendPoint {
+	periodEnd: Date;
+	metrics: SprintMetrics;
+}
+
+/**
+ * Metrics for the period being compared against. The open PR count is a
+ * point-in-time value, so it is null unless it was captured back then.
+ */
+export type PreviousMetrics = Omit<SprintMetrics, 'wipCount'> & { wipCount: number | null };
+
 export function renderHealthCard(
 	config: Config,
 	metrics: SprintMetrics,
-	thresholds: Thresholds
+	thresholds: Thresholds,
+	options: CardOptions = {}
 ): string {
-	const healthEmoji = getHealthEmoji(metrics, thresholds);
-	const dateRange = formatDateRange(config.periodStart, config.periodEnd);
+	const healthEmoji = getHealthEmoji(metrics, thresholds, !!config.shipFrequencyInHealth);
+	const title = config.periodLabel || formatDateRange(config.periodStart, config.periodEnd, config.timezone);
 
 	// Format metrics
-	const cycleTime = formatCycleTime(metrics.cycleTimeMedianHours, metrics.cycleTimeP90Hours);
-	const reviewSpeed = formatDuration(metrics.reviewTurnaroundMedianHours);
+	const perDay = metrics.workingHoursPerDay;
+	const cycleTime = metrics.cycleTimeMedianHours !== null
+		? formatCycleTime(metrics.cycleTimeMedianHours, metrics.cycleTimeP90Hours, perDay) + formatCycleTimeTrend(metrics)
+		: '—';
+	const reviewSpeed = formatMedianDuration(metrics.reviewTurnaroundMedianHours, perDay);
 	const reviewDepth = formatReviewDepth(metrics.reviewDepthScore);
 	const throughput = `${metrics.throughputCount} PRs`;
 	const wip = formatWIP(metrics.wipCount, metrics.collaboratorCount);
 	const collaboration = formatCollaboration(metrics.collaboratorCount, metrics.concentrationRatio);
 
+	// 'vs last sprint' cells (empty when not comparing)
+	const previous = options.previousMetrics;
+	const vs = (
+		current: (m: PreviousMetrics) => number | null,
+		better: 'lower' | 'higher',
+		unit: 'percent' | 'points' = 'percent'
+	) => previous ? ` ${formatDelta(current(metrics), current(previous), better, unit)} |` : '';
+
+	// Sparklines over earlier periods (empty with fewer than two points)
+	const trend = options.trend && options.trend.length >= 2 ? options.trend : null;
+	const spark = (value: (m: SprintMetrics) => number | null) => {
+		if (!trend) return '';
+		const values = trend.map((point) => value(point.metrics) ?? null);
+		return values.filter((v) => v !== null).length >= 2 ? ` ${sparkline(values)}` : '';
+	};
+
 	// Conditionally rendered rows for new metrics
 	const prSizeRow = metrics.prSizeMedian !== null
-		? `| PR Size | ${formatPRSize(metrics.prSizeMedian, metrics.prSizeCategory)} |\n` : '';
+		? `| PR Size | ${formatPRSize(metrics.prSizeMedian, metrics.prSizeCategory)}${spark((m) => m.prSizeMedian)} |${vs((m) => m.prSizeMedian, 'lower')}\n` : '';
 	const buildRow = metrics.buildSuccessRate !== null
-		? `| Build Success | ${formatBuildSuccess(metrics.buildSuccessRate, metrics.buildTotalRuns!)} |\n` : '';
+		? `| Build Success | ${formatBuildSuccess(metrics.buildSuccessRate, metrics.buildTotalRuns!)}${spark((m) => m.buildSuccessRate)} |${vs((m) => m.buildSuccessRate, 'higher', 'points')}\n` : '';
 	const shipLabel = metrics.shipSource === 'deployment' ? 'Deploy Frequency' : 'Release Frequency';
 	const shipRow = metrics.shipFrequency !== null
-		? `| ${shipLabel} | ${formatShipFrequency(metrics.shipFrequency, metrics.shipCount!)} |\n` : '';
+		? `| ${shipLabel} | ${formatShipFrequency(metrics.shipFrequency, metrics.shipCount!)}${spark((m) => m.shipFrequency)} |${vs((m) => m.shipFrequency, 'higher')}\n` : '';
+	const phases = formatCycleTimePhases(metrics);
+	const phaseRow = phases ? `| Cycle Phases | ${phases} |${previous ? ' — |' : ''}\n` : '';
+	const draftRow = metrics.draftPRCount > 0 && metrics.draftTimeMedianHours !== null
+		? `| Draft Time | ${formatDraftTime(metrics.draftTimeMedianHours, metrics.draftPRCount, config.cycleTimeStart, perDay)}${spark((m) => m.draftTimeMedianHours ?? null)} |${vs((m) => m.draftTimeMedianHours ?? null, 'lower')}\n` : '';
 	const leadTimeRow = metrics.leadTimeMedianHours !== null
-		? `| Lead Time | ${formatLeadTime(metrics.leadTimeMedianHours)} |\n` : '';
+		? `| Lead Time | ${formatLeadTime(metrics.leadTimeMedianHours, perDay)}${spark((m) => m.leadTimeMedianHours)} |${vs((m) => m.leadTimeMedianHours, 'lower')}\n` : '';
+	const changeFailureRow = metrics.changeFailureRate !== null
+		? `| Change Failure Rate | ${metrics.changeFailureRate}% (${metrics.failedChangeCount} of ${metrics.throughputCount} PRs)${spark((m) => m.changeFailureRate ?? null)} |${vs((m) => m.changeFailureRate ?? null, 'lower', 'points')}\n` : '';
+	const restoreRow = metrics.timeToRestoreMedianHours !== null
+		? `| Time to Restore | ${formatTimeToRestore(metrics.timeToRestoreMedianHours, metrics.incidentCount, perDay)}${spark((m) => m.timeToRestoreMedianHours ?? null)} |${vs((m) => m.timeToRestoreMedianHours ?? null, 'lower')}\n`
+		: `| Time to Restore | ${metrics.timeToRestoreError ? `Could not be measured: ${metrics.timeToRestoreError}` : 'No incidents in the period'} |${previous ? ' — |' : ''}\n`;
+
+	// Which clock durations (and the duration thresholds) use, and days off
+	let clockNote = config.workingCalendar && !isAroundTheClock(config.workingCalendar)
+		? `⏱️ Durations in business hours: ${describeWorkingCalendar(config.workingCalendar)}\n\n`
+		: '';
+	if (metrics.nonWorkingDays > 0) {
+		const days = metrics.nonWorkingDays === 1 ? '1 non-working day' : `${metrics.nonWorkingDays} non-working days`;
+		clockNote += `📅 ${days} (holidays) excluded from durations and ship frequency\n\n`;
+	}
 
 	// Build the card
 	let card = `\
@@ -56,17 +125,52 @@ export function renderHealthCard(
 ${AURORA_LOGO}
 \`\`\`
 
-## ${healthEmoji} Sprint Health — ${dateRange}
+## ${healthEmoji} Sprint Health — ${title}
+
+${clockNote}| Metric | Value |${previous ? ' vs last sprint |' : ''}
+|--------|-------|${previous ? '----------------|' : ''}
+| PR Cycle Time | ${cycleTime}${spark((m) => m.cycleTimeMedianHours)} |${vs((m) => m.cycleTimeMedianHours, 'lower')}
+${phaseRow}${draftRow}${prSizeRow}| Review Speed | ${reviewSpeed}${spark((m) => m.reviewTurnaroundMedianHours)} |${vs((m) => m.reviewTurnaroundMedianHours, 'lower')}
+| Review Depth | ${reviewDepth}${spark((m) => m.reviewDepthScore)} |${vs((m) => m.reviewDepthScore, 'higher')}
+| Throughput | ${throughput}${spark((m) => m.throughputCount)} |${vs((m) => m.throughputCount, 'higher')}
+| WIP | ${wip} |${vs((m) => m.wipCount, 'lower')}
+| Collaboration | ${collaboration} |${vs((m) => m.collaboratorCount, 'higher')}
+${buildRow}${shipRow}${leadTimeRow}${changeFailureRow}${restoreRow}`;
+
+	// Charts over earlier periods
+	if (trend) {
+		card += `
+${renderTrendCharts(trend, config.timezone)}
+`;
+	}
+
+	// DORA bands, once at least one key could be measured
+	const dora = classifyDora(metrics);
+	if (dora.overall) {
+		card += `
+${renderDoraSection(dora)}
+`;
+	}
+
+	// The changes behind the change failure rate, linked to their PRs
+	if (metrics.failedChanges.length > 0) {
+		card += `
+### 🧯 Failed Changes
+
+${renderFailedChanges(metrics.failedChanges, `${config.owner}/${config.repo}`, config.timezone)}
+`;
+	}
+
+	// Per-repository breakdown for combined cards
+	if (options.repositoryBreakdown && options.repositoryBreakdown.length > 0) {
+		card += `
+### 📚 By Repository
 
-| Metric | Value |
-|--------|-------|
-| PR Cycle Time | ${cycleTime} |
-${prSizeRow}| Review Speed | ${reviewSpeed} |
-| Review Depth | ${reviewDepth} |
-| Throughput | ${throughput} |
-| WIP | ${wip} |
-| Collaboration | ${collaboration} |
-${buildRow}${shipRow}${leadTimeRow}`;
+| Repository | PRs | Cycle Time | Review Speed | Contributors | Open PRs |
+|------------|-----|------------|--------------|--------------|----------|
+${options.repositoryBreakdown.map(formatRepositoryRow).join('\n')}
+`;
+	}
 
 	// Add quick wins for flagged metrics
 	const quickWins = generateQuickWins(metrics, thresholds);
@@ -80,18 +184,100 @@ ${quickWins.map((tip) => `- ${tip}`).join('\n')}
 `;
 	}
 
-	// Footer
+	// Data notes
+	if (options.notes && options.notes.length > 0) {
+		card += `
+${options.notes.map((note) => `> ℹ️ ${note}`).join('\n>\n')}
+`;
+	}
+
+	// Footer, naming the threshold preset so readers know what 'warning' means
+	const presetNote = config.thresholdPreset
+		? `*Thresholds: \`${config.thresholdPreset}\` preset, ${THRESHOLD_PRESETS[config.thresholdPreset].description}*\n\n`
+		: '';
 	card += `
 ---
-*Powered by [Aurora Coach](https://aurora-coach.com) — The AI Coach for Software Engineering Teams*`;
+${presetNote}*Powered by [Aurora Coach](https://aurora-coach.com) — The AI Coach for Software Engineering Teams*`;
 
 	return card;
 }
 
-function formatDateRange(start: Date, end: Date): string {
-	const formatDate = (d: Date) =>
-		d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-	return `${formatDate(start)} – ${formatDate(end)}`;
+function formatTimeToRestore(hours: number, incidentCount: number, perDay: number | null): string {
+	return `${formatDuration(hours, perDay)} (${incidentCount === 1 ? '1 incident' : `${incidentCount} incidents`})`;
+}
+
+const MAX_FAILED_CHANGES = 10;
+
+function renderFailedChanges(changes: FailedChange[], defaultRepository: string, timezone: string): string {
+	const lines = changes.slice(0, MAX_FAILED_CHANGES).map((change) => {
+		const repository = change.repository || defaultRepository;
+		const links = change.prNumbers.map((n) => formatPRLink(repository, n, !!change.repository));
+		const day = formatDay(change.at, timezone);
+		switch (change.kind) {
+			case 'revert':
+				return `- **Revert** ${links[0]}${links[1] ? ` of ${links[1]}` : ''} — ${change.title} (${day})`;
+			case 'hotfix':
+				return `- **Hotfix** ${links[0]} — ${change.title} (${day})`;
+			default:
+				return `- **Failed deployment** to ${change.title} (${day})${links.length > 0 ? ` — shipped ${links.join(', ')}` : ''}`;
+		}
+	});
+	if (changes.length > MAX_FAILED_CHANGES) {
+		lines.push(`- …and ${changes.length - MAX_FAILED_CHANGES} more`);
+	}
+	return lines.join('\n');
+}
+
+/**
+ * "#12", or "owner/repo#12" on a card combining repositories
+ */
+function formatPRLink(repository: string, prNumber: number, qualified: boolean): string {
+	return `[${qualified ? repository : ''}#${prNumber}](https://github.com/${repository}/pull/${prNumber})`;
+}
+
+const DORA_KEY_NAMES: Record<DoraKey, string> = {
+	'deployment-frequency': 'Deployment Frequency',
+	'lead-time': 'Lead Time for Changes',
+	'change-failure-rate': 'Change Failure Rate',
+	'time-to-restore': 'Time to Restore',
+};
+
+/**
+ * Each DORA key with its band (or why it is missing) and the overall band
+ */
+function renderDoraSection(dora: DoraClassification): string {
+	const measuredCount = dora.keys.filter((k) => k.band).length;
+	const rows = dora.keys.map((k) => k.band
+		? `| ${DORA_KEY_NAMES[k.key]} | ${formatDoraValue(k)} | ${formatBand(k.band)} |`
+		: `| ${DORA_KEY_NAMES[k.key]} | — | Not measured: ${k.reason} |`);
+	return `### 🚀 DORA Performance — ${formatBand(dora.overall!)}
+
+| Key | Value | Band |
+|-----|-------|------|
+${rows.join('\n')}
+
+> *Overall is the lowest band of the ${measuredCount === 1 ? 'measured key' : `${measuredCount} measured keys`}, against the published [DORA](https://dora.dev) bands.*`;
+}
+
+function formatDoraValue(result: DoraKeyResult): string {
+	const value = result.value!;
+	switch (result.key) {
+		case 'deployment-frequency':
+			return value >= 1 ? `${value.toFixed(1)}/day` : `every ${(1 / value).toFixed(0)} days`;
+		case 'change-failure-rate':
+			return `${Math.round(value)}%`;
+		default:
+			// DORA durations are wall-clock
+			return formatDuration(value);
+	}
+}
+
+function formatBand(band: DoraBand): string {
+	return band.charAt(0).toUpperCase() + band.slice(1);
+}
+
+function formatRepositoryRow({ repository, metrics }: RepositoryMetrics): string {
+	return `| ${repository} | ${metrics.throughputCount} | ${formatMedianDuration(metrics.cycleTimeMedianHours, metrics.workingHoursPerDay)} | ${formatMedianDuration(metrics.reviewTurnaroundMedianHours, metrics.workingHoursPerDay)} | ${metrics.collaboratorCount} | ${metrics.wipCount} |`;
 }
 
 function formatWIP(wipCount: number, collaboratorCount: number): string {
@@ -120,9 +306,133 @@ function formatCollaboration(count: number, concentration: number): string {
 	return `${count} contributors (balanced)`;
 }
 
-function formatCycleTime(medianHours: number, p90Hours: number): string {
-	const median = formatDuration(medianHours);
-	const p90 = formatDuration(p90Hours);
+const SPARK_BARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Unicode sparkline scaled between the series' min and max; missing
+ * values are shown as a gap
+ */
+function sparkline(values: (number | null)[]): string {
+	const present = values.filter((v): v is number => v !== null);
+	const min = Math.min(...present);
+	const range = Math.max(...present) - min;
+	return values
+		.map((v) => {
+			if (v === null) return ' ';
+			const level = range > 0 ? Math.round(((v - min) / range) * (SPARK_BARS.length - 1)) : 3;
+			return SPARK_BARS[level];
+		})
+		.join('');
+}
+
+/**
+ * Mermaid xycharts (rendered natively by GitHub) of cycle time, review
+ * speed and throughput, folded away so the table stays the focus
+ */
+function renderTrendCharts(trend: TrendPoint[], timezone: string): string {
+	const labels = trend
+		.map((point) => `"${formatDay(point.periodEnd, timezone)}"`)
+		.join(', ');
+	const round = (v: number) => Math.round(v * 10) / 10;
+	const hours = trend[trend.length - 1].metrics.workingHoursPerDay ? 'Business hours' : 'Hours';
+
+	const chart = (title: string, yAxis: string, type: 'line' | 'bar', values: number[]) => `\
+\`\`\`mermaid
+xychart-beta
+    title "${title}"
+    x-axis [${labels}]
+    y-axis "${yAxis}"
+    ${type} [${values.map(round).join(', ')}]
+\`\`\``;
+
+	return `<details>
+<summary>📈 Trends over the last ${trend.length} periods</summary>
+
+${chart('Cycle time (median)', hours, 'line', trend.map((p) => p.metrics.cycleTimeMedianHours ?? 0))}
+
+${chart('Review speed (median)', hours, 'line', trend.map((p) => p.metrics.reviewTurnaroundMedianHours ?? 0))}
+
+${chart('Throughput', 'PRs merged', 'bar', trend.map((p) => p.metrics.throughputCount))}
+
+</details>`;
+}
+
+/**
+ * Change since the previous period, e.g. "🟢 ↓ 12%" — green when the
+ * change is an improvement for that metric, red when it is a regression.
+ * Percentages become percentage points ("pts") for rates.
+ */
+function formatDelta(
+	current: number | null,
+	previous: number | null,
+	better: 'lower' | 'higher',
+	unit: 'percent' | 'points'
+): string {
+	if (current === null || previous === null) return 'n/a';
+
+	let change: number;
+	if (unit === 'points') {
+		change = current - previous;
+	} else if (previous === 0) {
+		return current === 0 ? '⚪ → 0%' : 'n/a';
+	} else {
+		change = ((current - previous) / previous) * 100;
+	}
+
+	const rounded = Math.round(Math.abs(change));
+	const suffix = unit === 'points' ? ' pts' : '%';
+	if (rounded === 0) return `⚪ → 0${suffix}`;
+
+	const improved = (change < 0) === (better === 'lower');
+	return `${improved ? '🟢' : '🔴'} ${change > 0 ? '↑' : '↓'} ${rounded}${suffix}`;
+}
+
+/**
+ * Previous period's median and the change, e.g. " — prev 2.0 days (+25%, degrading)"
+ */
+function formatCycleTimeTrend(metrics: SprintMetrics): string {
+	const current = metrics.cycleTimeMedianHours;
+	const previous = metrics.previousCycleTimeMedianHours;
+	if (current === null || previous === null || previous === undefined || previous <= 0) return '';
+	const change = Math.round(((current - previous) / previous) * 100);
+	const sign = change > 0 ? '+' : change < 0 ? '−' : '±';
+	return ` — prev ${formatDuration(previous, metrics.workingHoursPerDay)} (${sign}${Math.abs(change)}%, ${metrics.cycleTimeTrend})`;
+}
+
+/**
+ * Median per phase, e.g. "coding 1.0 days → pickup 5.0 hours → review 2.0 hours → merge 30 min"
+ */
+function formatCycleTimePhases(metrics: SprintMetrics): string | null {
+	if (!metrics.cycleTimePhases) return null;
+	const parts = CYCLE_TIME_PHASES
+		.filter((phase) => metrics.cycleTimePhases[phase])
+		.map((phase) => `${phase} ${formatDuration(metrics.cycleTimePhases[phase]!.medianHours, metrics.workingHoursPerDay)}`);
+	return parts.length > 0 ? parts.join(' → ') : null;
+}
+
+/**
+ * Median draft duration among PRs that were drafts, e.g. "2.0 days (3 PRs, excluded from cycle time)"
+ */
+function formatDraftTime(
+	medianHours: number,
+	count: number,
+	cycleTimeStart: CycleTimeStart,
+	workingHoursPerDay: number | null
+): string {
+	const prs = `${count} PR${count === 1 ? '' : 's'}`;
+	return `${formatDuration(medianHours, workingHoursPerDay)} (${cycleTimeStart === 'ready' ? `${prs}, excluded from cycle time` : prs})`;
+}
+
+/**
+ * A median duration, or '—' when there was nothing to measure
+ */
+function formatMedianDuration(hours: number | null, workingHoursPerDay: number | null): string {
+	return hours !== null ? formatDuration(hours, workingHoursPerDay) : '—';
+}
+
+function formatCycleTime(medianHours: number, p90Hours: number, workingHoursPerDay: number | null): string {
+	const median = formatDuration(medianHours, workingHoursPerDay);
+	const p90 = formatDuration(p90Hours, workingHoursPerDay);
 	return `${median} (P90: ${p90})`;
 }
 
@@ -163,8 +473,17 @@ function formatShipFrequency(freq: number, count: number): string {
 	return `every ${days.toFixed(0)} days (${count} total)`;
 }
 
-function formatLeadTime(hours: number): string {
-	return formatDuration(hours);
+/**
+ * A ships-per-week target in words, e.g. "once a week" or "once every 4 weeks"
+ */
+function formatShipTarget(perWeek: number): string {
+	if (perWeek === 1) return 'once a week';
+	if (perWeek > 1) return `${perWeek} times a week`;
+	return `once every ${Number((1 / perWeek).toFixed(1))} weeks`;
+}
+
+function formatLeadTime(hours: number, workingHoursPerDay: number | null): string {
+	return formatDuration(hours, workingHoursPerDay);
 }
 
 /**
@@ -174,21 +493,23 @@ function generateQuickWins(metrics: SprintMetrics, thresholds: Thresholds): stri
 	const tips: string[] = [];
 
 	// Cycle Time
-	if (metrics.cycleTimeMedianHours >= thresholds.cycleTimeCriticalHours) {
+	const cycleTime = metrics.cycleTimeMedianHours ?? 0;
+	if (cycleTime >= thresholds.cycleTimeCriticalHours) {
 		tips.push('**Cycle time** — Long cycle times usually mean PRs waiting — for review, CI, or decisions. Finding where work stalls is the first step.');
-	} else if (metrics.cycleTimeMedianHours >= thresholds.cycleTimeWarningHours) {
+	} else if (cycleTime >= thresholds.cycleTimeWarningHours) {
 		tips.push('**Cycle time** — Smaller PRs often move faster — one reviewable chunk beats a sprawling change. Though in approval-heavy environments, bundling related changes sometimes reduces total overhead.');
 	}
 
 	// P90 outliers (if P90 is more than 3x median)
-	if (metrics.cycleTimeMedianHours > 0 && metrics.cycleTimeP90Hours >= metrics.cycleTimeMedianHours * 3) {
+	if (cycleTime > 0 && metrics.cycleTimeP90Hours >= cycleTime * 3) {
 		tips.push('**P90 outliers** — When P90 is much higher than median, a few PRs are getting stuck. These outliers often reveal external blockers worth investigating.');
 	}
 
 	// Review Turnaround
-	if (metrics.reviewTurnaroundMedianHours >= thresholds.reviewCriticalHours) {
+	const reviewTurnaround = metrics.reviewTurnaroundMedianHours ?? 0;
+	if (reviewTurnaround >= thresholds.reviewCriticalHours) {
 		tips.push('**Review speed** — Two-day review waits often signal capacity issues or unclear ownership. Explicit review assignments can help.');
-	} else if (metrics.reviewTurnaroundMedianHours >= thresholds.reviewWarningHours) {
+	} else if (reviewTurnaround >= thresholds.reviewWarningHours) {
 		tips.push('**Review speed** — Review delays compound — waiting PRs become stale, need rebasing, slow the next one. Small daily review windows help.');
 	}
 
@@ -226,26 +547,30 @@ function generateQuickWins(metrics: SprintMetrics, thresholds: Thresholds): stri
 
 	// PR Size
 	if (metrics.prSizeMedian !== null && metrics.prSizeMedian >= thresholds.prSizeCritical) {
-		tips.push('**PR size** — PRs over 1000 lines are hard to review well. Breaking work into smaller, reviewable chunks improves quality and speed.');
+		tips.push(`**PR size** — PRs over ${thresholds.prSizeCritical} lines are hard to review well. Breaking work into smaller, reviewable chunks improves quality and speed.`);
 	} else if (metrics.prSizeMedian !== null && metrics.prSizeMedian >= thresholds.prSizeWarning) {
 		tips.push('**PR size** — Large PRs slow reviews and hide bugs. Consider splitting into focused, incremental changes.');
 	}
 
 	// Build Success
 	if (metrics.buildSuccessRate !== null && metrics.buildSuccessRate < thresholds.buildSuccessCritical) {
-		tips.push('**Build health** — Build success below 75% means broken builds are the norm. Prioritize fixing flaky tests and build stability.');
+		tips.push(`**Build health** — Build success below ${thresholds.buildSuccessCritical}% means broken builds are the norm. Prioritize fixing flaky tests and build stability.`);
 	} else if (metrics.buildSuccessRate !== null && metrics.buildSuccessRate < thresholds.buildSuccessWarning) {
-		tips.push('**Build health** — Build failures above 10% slow everyone down. Investigate the most common failure patterns.');
+		tips.push(`**Build health** — Build failures above ${100 - thresholds.buildSuccessWarning}% slow everyone down. Investigate the most common failure patterns.`);
 	}
 
 	// Lead Time
-	if (metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= 168) {
-		tips.push('**Lead time** — A week or more from commit to production suggests deployment friction. Smaller, more frequent releases reduce risk.');
+	const perDay = metrics.workingHoursPerDay;
+	if (metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= thresholds.leadTimeCriticalHours) {
+		tips.push(`**Lead time** — ${formatDuration(thresholds.leadTimeCriticalHours, perDay)} or more from commit to production means changes queue up behind the release process. Look for manual gates and batched deploys.`);
+	} else if (metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= thresholds.leadTimeWarningHours) {
+		tips.push(`**Lead time** — ${formatDuration(thresholds.leadTimeWarningHours, perDay)} or more from commit to production suggests deployment friction. Smaller, more frequent releases reduce risk.`);
 	}
 
 	// Ship Frequency
-	if (metrics.shipFrequency !== null && metrics.shipFrequency < 1 / 7) {
-		tips.push('**Ship frequency** — Shipping less than once a week increases batch size and risk. More frequent, smaller releases build confidence.');
+	const shipsPerWeek = metrics.shipFrequency !== null ? metrics.shipFrequency * 7 : null;
+	if (shipsPerWeek !== null && shipsPerWeek < thresholds.shipFrequencyWarningPerWeek) {
+		tips.push(`**Ship frequency** — Shipping less than ${formatShipTarget(thresholds.shipFrequencyWarningPerWeek)} increases batch size and risk. More frequent, smaller releases build confidence.`);
 	}
 
 	return tips;
@@ -0,0 +1,187 @@
+/**
+ * Config file
+ *
+ * Reads measurement, threshold, filter, output and storage options from a
+ * YAML file in the repository (.github/pr-metrics.yml by default),
+ * validated against the published JSON Schema. Keys are grouped in sections but are otherwise
+ * the action input names, so an input on the workflow step overrides the
+ * file value of the same name.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv, { ErrorObject } from 'ajv';
+import { Document, LineCounter, isMap, isScalar, parseDocument } from 'yaml';
+import schema from './pr-metrics.schema.json';
+
+export const DEFAULT_CONFIG_FILE = '.github/pr-metrics.yml';
+
+/**
+ * The parts of the published JSON Schema the code reads
+ */
+export interface SchemaNode {
+	description?: string;
+	type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+	properties?: Record<string, SchemaNode>;
+	additionalProperties?: boolean;
+	items?: SchemaNode;
+	enum?: unknown[];
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	pattern?: string;
+}
+
+export const CONFIG_SCHEMA = schema as SchemaNode;
+
+const validate = new Ajv({ allErrors: true, verbose: true }).compile(schema);
+
+/**
+ * Input values from the file (name → string, as an input would read) and
+ * its problems, each as "file:line: message"
+ */
+export interface ConfigFileContents {
+	values: Map<string, string>;
+	problems: string[];
+}
+
+/**
+ * Load the file. A missing file is fine at the default path and a
+ * problem elsewhere.
+ */
+export function loadConfigFile(
+	filePath: string,
+	required: boolean,
+	readFile: (path: string) => string = (p) => fs.readFileSync(p, 'utf8')
+): ConfigFileContents {
+	const resolved = path.resolve(process.env.GITHUB_WORKSPACE || '.', filePath);
+	let text: string;
+	try {
+		text = readFile(resolved);
+	} catch (error) {
+		if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+			return { values: new Map(), problems: [] };
+		}
+		return { values: new Map(), problems: [`Could not read config-file ${filePath}: ${(error as Error).message}`] };
+	}
+	return parseConfigFile(text, filePath);
+}
+
+/**
+ * Parse and validate the file's text. Values are only returned from a
+ * valid file.
+ */
+export function parseConfigFile(text: string, filePath: string = DEFAULT_CONFIG_FILE): ConfigFileContents {
+	const lineCounter = new LineCounter();
+	const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+	if (doc.errors.length > 0) {
+		const problems = doc.errors.map((error) => `${filePath}:${lineCounter.linePos(error.pos[0]).line}: ${error.message}`);
+		return { values: new Map(), problems };
+	}
+
+	// An empty value leaves the setting unset
+	const settings = withoutEmpty(doc.toJS() ?? {});
+	if (validate(settings)) {
+		return { values: inputValues(settings as Record<string, Record<string, unknown>>), problems: [] };
+	}
+	const problems = (validate.errors || [])
+		.map((error) => ({ line: lineOf(error, doc, lineCounter), message: describeError(error) }))
+		.sort((a, b) => a.line - b.line)
+		.map(({ line, message }) => `${filePath}:${line}: ${message}`);
+	return { values: new Map(), problems };
+}
+
+function withoutEmpty(value: unknown): unknown {
+	if (!isPlainObject(value)) return value;
+	return Object.fromEntries(Object.entries(value)
+		.filter(([, child]) => child !== null)
+		.map(([key, child]) => [key, withoutEmpty(child)]));
+}
+
+/**
+ * The line of the value a schema error is about, or of the key for an
+ * unknown setting
+ */
+function lineOf(error: ErrorObject, doc: Document, lineCounter: LineCounter): number {
+	const keys = error.instancePath.split('/').slice(1).map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+	let node: unknown = keys.length > 0 ? doc.getIn(keys, true) : doc.contents;
+	if (error.keyword === 'additionalProperties' && isMap(node)) {
+		const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === error.params.additionalProperty);
+		node = pair?.key ?? node;
+	}
+	const range = (node as { range?: [number, number, number] } | null)?.range;
+	return lineCounter.linePos(range ? range[0] : 0).line;
+}
+
+const EXPECTED_TYPES: Record<string, string> = {
+	object: 'a section of "key: value" lines',
+	array: 'a list',
+	string: 'a string',
+	boolean: 'true or false',
+	integer: 'a number',
+	number: 'a number',
+};
+
+/**
+ * A schema error in the file's terms: setting names as section.key and
+ * the value that was given
+ */
+function describeError(error: ErrorObject): string {
+	const name = error.instancePath
+		.split('/')
+		.slice(1)
+		.map((key, i) => /^\d+$/.test(key) ? `[${key}]` : `${i > 0 ? '.' : ''}${key.replace(/~1/g, '/').replace(/~0/g, '~')}`)
+		.join('') || 'the file';
+	const got = describe(error.data);
+
+	switch (error.keyword) {
+		case 'additionalProperties': {
+			const setting = name === 'the file' ? error.params.additionalProperty : `${name}.${error.params.additionalProperty}`;
+			const known = Object.keys((error.parentSchema as SchemaNode).properties || {});
+			return `unknown setting ${setting}${known.length ? ` (expected one of ${known.join(', ')})` : ''}`;
+		}
+		case 'enum':
+			return `${name} must be one of ${error.params.allowedValues.join(', ')}, got ${got}`;
+		case 'type': {
+			const expected = error.params.type === 'integer' && typeof error.data === 'number'
+				? 'a whole number'
+				: EXPECTED_TYPES[error.params.type] || `a ${error.params.type}`;
+			return `${name} must be ${expected}, got ${got}`;
+		}
+		case 'pattern':
+			return `${name} does not match the expected format, got ${got}`;
+		case 'exclusiveMinimum':
+			return `${name} must be greater than ${error.params.limit}, got ${got}`;
+		case 'minimum':
+			return `${name} must be at least ${error.params.limit}, got ${got}`;
+		case 'maximum':
+			return `${name} must be at most ${error.params.limit}, got ${got}`;
+		default:
+			return `${name} ${error.message}`;
+	}
+}
+
+/**
+ * Flatten the sections into input names and the strings an input of
+ * that name would hold (lists one entry per line)
+ */
+function inputValues(settings: Record<string, Record<string, unknown>>): Map<string, string> {
+	const values = new Map<string, string>();
+	for (const section of Object.values(settings)) {
+		for (const [name, value] of Object.entries(section)) {
+			values.set(name, Array.isArray(value) ? value.join('\n') : String(value));
+		}
+	}
+	return values;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+	if (Array.isArray(value)) return 'a list';
+	if (isPlainObject(value)) return 'a section';
+	if (typeof value === 'string') return `"${value}"`;
+	return String(value);
+}
@@ -6,6 +6,16 @@
  */
 
 import * as core from '@actions/core';
+import { RecordingMeta, readRecordingMeta } from './recorder';
+import { HistoryConfig } from './history';
+import type { CycleTimeStart } from './metrics';
+import { DAY_NAMES, WorkingCalendar } from './working-time';
+import { isValidTimeZone } from './timezone';
+import { loadHolidays } from './holidays';
+import type { LinkedPullRequests, PeriodSourceConfig, ReleaseCommits } from './period-source';
+import { DEFAULT_CONFIG_FILE, loadConfigFile } from './config-file';
+import { DEFAULT_THRESHOLDS, THRESHOLD_PRESETS, THRESHOLD_PRESET_NAMES, ThresholdPreset } from './threshold-presets';
+import { PERIOD_MODES, PeriodMode, PeriodOptions, PreviousPeriod, ReportPeriod, resolvePeriod, rollingPeriod, rollingPrevious } from './periods';
 
 export interface Thresholds {
 	cycleTimeWarningHours: number;
@@ -14,7 +24,6 @@ export interface Thresholds {
 	reviewCriticalHours: number;
 	wipWarningRatio: number;
 	wipCriticalRatio: number;
-	// These remain fixed (less context-dependent)
 	concentrationWarning: number;
 	concentrationCritical: number;
 	reviewDepthWarning: number;
@@ -23,6 +32,11 @@ export interface Thresholds {
 	prSizeCritical: number;
 	buildSuccessWarning: number;
 	buildSuccessCritical: number;
+	leadTimeWarningHours: number;
+	leadTimeCriticalHours: number;
+	// Deployments or releases per week, lower is worse
+	shipFrequencyWarningPerWeek: number;
+	shipFrequencyCriticalPerWeek: number;
 }
 
 export interface Config {
@@ -31,13 +45,37 @@ export interface Config {
 	owner: string;
 	repo: string;
 
-	// Sprint settings
+	// Repositories to combine into one card: owner/repo entries or
+	// owner/<glob> patterns (empty means just owner/repo)
+	repositories: string[];
+	repositoryTopic?: string;
+
+	// Sprint settings (sprintLengthDays is the days covered by the period)
 	sprintLengthDays: number;
 	periodStart: Date;
 	periodEnd: Date;
+	periodMode: PeriodMode;
+	// Card title for sprint and calendar periods, e.g. "Q1 2025"
+	periodLabel?: string;
+	// The window before the period, for trends and comparisons
+	previousPeriod: PreviousPeriod;
+	// Period from a project iteration or milestone, looked up at run time
+	periodSource?: PeriodSourceConfig;
+	// Set once looked up, when only linked PRs are counted
+	linkedPullRequests?: LinkedPullRequests;
+	// Set once looked up, for a release range
+	releaseCommits?: ReleaseCommits;
+	// Measure cycle time from PR creation or from first ready for review
+	cycleTimeStart: CycleTimeStart;
+	// Measure durations in business hours (unset means wall-clock hours)
+	workingCalendar?: WorkingCalendar;
+	// IANA timezone for period boundaries, card dates and day buckets
+	timezone: string;
 
 	// Output settings
 	postAs: 'summary' | 'issue-comment';
+	// Add a 'vs last sprint' column comparing with the previous period
+	comparePrevious: boolean;
 	issueNumber?: number;
 
 	// Aurora integration (optional)
@@ -47,49 +85,140 @@ export interface Config {
 	// Filters
 	workflowFilter?: string;
 	deploymentEnvironment?: string;
+	// Labels marking a merged PR as a hotfix (a failed change)
+	hotfixLabels: string[];
+	// Labels marking an issue as an incident, for time to restore
+	incidentLabels: string[];
+
+	// Persistent PR cache (optional)
+	cachePath?: string;
+	cacheRefresh: boolean;
+
+	// Metrics history in the repository (optional)
+	history?: HistoryConfig;
+	// Sparklines and charts from the history (needs history)
+	trendCharts: boolean;
 
-	// Thresholds (configurable)
+	// API recording / offline replay (optional, mutually exclusive)
+	recordPath?: string;
+	replayPath?: string;
+
+	// Thresholds (configurable), starting from a named preset if one is set
 	thresholds: Thresholds;
+	thresholdPreset?: ThresholdPreset;
+	// Ship frequency counts toward the overall health only when a preset or
+	// a ship-frequency threshold is set
+	shipFrequencyInHealth?: boolean;
+}
+
+/**
+ * Reads an input by name, falling back to the config file
+ */
+type InputReader = (name: string) => string;
+
+/**
+ * Thrown by getConfig with every problem found, so a run reports all of
+ * them at once
+ */
+export class ConfigValidationError extends Error {
+	constructor(public readonly problems: string[]) {
+		super(`Invalid configuration (${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}):\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+		this.name = 'ConfigValidationError';
+	}
+}
+
+interface NumberRule {
+	test: (value: number) => boolean;
+	expected: string;
 }
 
+const POSITIVE: NumberRule = { test: (v) => v > 0, expected: 'a positive number' };
+const POSITIVE_INTEGER: NumberRule = { test: (v) => Number.isInteger(v) && v > 0, expected: 'a positive whole number' };
+const NON_NEGATIVE: NumberRule = { test: (v) => v >= 0, expected: 'a number of 0 or more' };
+const SHARE: NumberRule = { test: (v) => v >= 0 && v <= 1, expected: 'a share between 0 and 1' };
+const PERCENTAGE: NumberRule = { test: (v) => v >= 0 && v <= 100, expected: 'a percentage between 0 and 100' };
+
 export function getConfig(): Config {
 	const isGitHubAction = !!process.env.GITHUB_ACTIONS;
 
+	// Each read below that fails adds its problem and falls back, so every
+	// problem is reported together at the end
+	const problems: string[] = [];
+	const check = <T>(read: () => T, fallback: T): T => {
+		try {
+			return read();
+		} catch (error) {
+			problems.push((error as Error).message);
+			return fallback;
+		}
+	};
+
+	// Config file (an explicit config-file must exist; the default may not)
+	const configFile = readInput('config-file');
+	const fileContents = loadConfigFile(configFile || DEFAULT_CONFIG_FILE, !!configFile);
+	problems.push(...fileContents.problems);
+	const input: InputReader = (name) => readInput(name) || fileContents.values.get(name) || '';
+
 	// Get token
 	const token = isGitHubAction
 		? core.getInput('github-token') || process.env.GITHUB_TOKEN!
 		: process.env.GITHUB_TOKEN!;
 
+	// Record / replay: a replay runs against the recorded repository and period
+	const recordPath = input('record-path');
+	const replayPath = input('replay-path');
+	if (recordPath && replayPath) {
+		problems.push('record-path and replay-path cannot be used together');
+	}
+	const replayMeta = replayPath && !recordPath ? check(() => readRecordingMeta(replayPath), null) : null;
+
 	// Parse repository
-	const repoFull = process.env.GITHUB_REPOSITORY || '';
+	const repoFull = replayMeta?.repository || process.env.GITHUB_REPOSITORY || '';
 	const [owner, repo] = repoFull.split('/');
 
 	if (!owner || !repo) {
-		throw new Error('Could not parse GITHUB_REPOSITORY. Expected format: owner/repo');
+		problems.push('Could not parse GITHUB_REPOSITORY. Expected format: owner/repo');
 	}
 
+	// Multi-repository card
+	const repositories = replayMeta
+		? replayMeta.repositories || []
+		: check(() => parseRepositories(input('repositories')), []);
+	const repositoryTopic = replayMeta ? replayMeta.repositoryTopic : input('repository-topic');
+
 	// Sprint length
-	const sprintLengthDays = isGitHubAction
-		? parseInt(core.getInput('sprint-length-days') || '14', 10)
-		: parseInt(process.env.INPUT_SPRINT_LENGTH_DAYS || '14', 10);
+	const sprintLengthDays = replayMeta
+		? replayMeta.sprintLengthDays
+		: check(() => readNumberInput(input, 'sprint-length-days', 14, POSITIVE_INTEGER), 14);
 
-	// Calculate period (end is now, start is sprint-length days ago)
-	const periodEnd = new Date();
-	const periodStart = new Date(periodEnd);
-	periodStart.setDate(periodStart.getDate() - sprintLengthDays);
+	const timezone = replayMeta?.timezone || check(() => readTimeZone(input), 'UTC');
 
-	// Output settings
-	const postAsInput = isGitHubAction
-		? core.getInput('post-as') || 'summary'
-		: process.env.INPUT_POST_AS || 'summary';
+	// Reporting period (by default the last sprint-length days up to now)
+	const periodOptions = replayMeta ? null : check(() => readPeriodOptions(input, sprintLengthDays, timezone), null);
+	const period = replayMeta
+		? replayedPeriod(replayMeta)
+		: periodOptions
+			? check(() => resolvePeriod(periodOptions), rollingPeriod(sprintLengthDays))
+			: rollingPeriod(sprintLengthDays);
+	const periodSource = periodOptions ? check(() => readPeriodSource(input, periodOptions), undefined) : replayMeta?.periodSource;
 
-	const postAs = validatePostAs(postAsInput);
+	const cycleTimeStart = replayMeta
+		? replayMeta.cycleTimeStart || 'created'
+		: check(() => parseCycleTimeStart(input('cycle-time-start')), 'created');
 
-	const issueNumberStr = isGitHubAction
-		? core.getInput('issue-number')
-		: process.env.INPUT_ISSUE_NUMBER;
+	const workingCalendar = check(() => readWorkingCalendar(input, timezone), undefined);
 
-	const issueNumber = issueNumberStr ? parseInt(issueNumberStr, 10) : undefined;
+	// Output settings
+	const postAs = check(() => parsePostAs(input('post-as')), 'summary');
+	const comparePrevious = replayMeta
+		? !!replayMeta.comparePrevious
+		: check(() => readBooleanInput(input, 'compare-previous'), false);
+
+	const issueNumberInput = check(() => readNumberInput(input, 'issue-number', 0, POSITIVE_INTEGER), 0);
+	const issueNumber = issueNumberInput || undefined;
+	if (postAs === 'issue-comment' && !issueNumber && !input('issue-number')) {
+		problems.push('post-as: issue-comment needs issue-number, the issue to comment on');
+	}
 
 	// Aurora integration
 	const auroraApiKey = isGitHubAction
@@ -100,80 +229,405 @@ export function getConfig(): Config {
 		? core.getInput('aurora-team-id')
 		: process.env.AURORA_TEAM_ID;
 
+	if (auroraApiKey && !auroraTeamId) {
+		problems.push('aurora-api-key needs aurora-team-id, the team to send metrics to');
+	}
+
 	// Filters
-	const workflowFilter = isGitHubAction
-		? core.getInput('workflow-filter')
-		: process.env.INPUT_WORKFLOW_FILTER;
+	const workflowFilter = input('workflow-filter');
+	const deploymentEnvironment = input('deployment-environment');
+	const hotfixLabels = parseLabels(input('hotfix-labels') || 'hotfix, incident');
+	const incidentLabels = parseLabels(input('incident-labels') || 'incident');
 
-	const deploymentEnvironment = isGitHubAction
-		? core.getInput('deployment-environment')
-		: process.env.INPUT_DEPLOYMENT_ENVIRONMENT;
+	// Persistent PR cache
+	const cachePath = input('cache-path');
+	const cacheRefresh = check(() => readBooleanInput(input, 'cache-refresh'), false);
 
-	// Thresholds (configurable with sensible defaults)
+	// Metrics history
+	const history = replayMeta ? replayMeta.history : check(() => readHistoryConfig(input), undefined);
+	const trendCharts = check(() => readBooleanInput(input, 'trend-charts'), false);
+	if (trendCharts && !history) {
+		console.warn('trend-charts needs history-branch or history-path; no charts will be shown');
+	}
+
+	// Thresholds: each input overrides the preset (or default) value
+	const thresholdPreset = check(() => parseThresholdPreset(input('threshold-preset')), undefined);
+	const base = thresholdPreset ? THRESHOLD_PRESETS[thresholdPreset].thresholds : DEFAULT_THRESHOLDS;
+	const threshold = (name: string, key: keyof Thresholds, rule: NumberRule) =>
+		check(() => readNumberInput(input, name, base[key], rule), base[key]);
 	const thresholds: Thresholds = {
-		cycleTimeWarningHours: parseFloat(
-			isGitHubAction
-				? core.getInput('cycle-time-warning-hours') || '72'
-				: process.env.INPUT_CYCLE_TIME_WARNING_HOURS || '72'
-		),
-		cycleTimeCriticalHours: parseFloat(
-			isGitHubAction
-				? core.getInput('cycle-time-critical-hours') || '168'
-				: process.env.INPUT_CYCLE_TIME_CRITICAL_HOURS || '168'
-		),
-		reviewWarningHours: parseFloat(
-			isGitHubAction
-				? core.getInput('review-warning-hours') || '24'
-				: process.env.INPUT_REVIEW_WARNING_HOURS || '24'
-		),
-		reviewCriticalHours: parseFloat(
-			isGitHubAction
-				? core.getInput('review-critical-hours') || '48'
-				: process.env.INPUT_REVIEW_CRITICAL_HOURS || '48'
-		),
-		wipWarningRatio: parseFloat(
-			isGitHubAction
-				? core.getInput('wip-warning-ratio') || '2'
-				: process.env.INPUT_WIP_WARNING_RATIO || '2'
-		),
-		wipCriticalRatio: parseFloat(
-			isGitHubAction
-				? core.getInput('wip-critical-ratio') || '3'
-				: process.env.INPUT_WIP_CRITICAL_RATIO || '3'
-		),
-		// Fixed thresholds (less context-dependent)
-		concentrationWarning: 0.6,
-		concentrationCritical: 0.75,
-		reviewDepthWarning: 0.5,
-		reviewDepthCritical: 0.2,
-		prSizeWarning: 400,
-		prSizeCritical: 1000,
-		buildSuccessWarning: 90,
-		buildSuccessCritical: 75,
+		cycleTimeWarningHours: threshold('cycle-time-warning-hours', 'cycleTimeWarningHours', POSITIVE),
+		cycleTimeCriticalHours: threshold('cycle-time-critical-hours', 'cycleTimeCriticalHours', POSITIVE),
+		reviewWarningHours: threshold('review-warning-hours', 'reviewWarningHours', POSITIVE),
+		reviewCriticalHours: threshold('review-critical-hours', 'reviewCriticalHours', POSITIVE),
+		wipWarningRatio: threshold('wip-warning-ratio', 'wipWarningRatio', POSITIVE),
+		wipCriticalRatio: threshold('wip-critical-ratio', 'wipCriticalRatio', POSITIVE),
+		concentrationWarning: threshold('concentration-warning', 'concentrationWarning', SHARE),
+		concentrationCritical: threshold('concentration-critical', 'concentrationCritical', SHARE),
+		reviewDepthWarning: threshold('review-depth-warning', 'reviewDepthWarning', NON_NEGATIVE),
+		reviewDepthCritical: threshold('review-depth-critical', 'reviewDepthCritical', NON_NEGATIVE),
+		prSizeWarning: threshold('pr-size-warning', 'prSizeWarning', POSITIVE),
+		prSizeCritical: threshold('pr-size-critical', 'prSizeCritical', POSITIVE),
+		buildSuccessWarning: threshold('build-success-warning', 'buildSuccessWarning', PERCENTAGE),
+		buildSuccessCritical: threshold('build-success-critical', 'buildSuccessCritical', PERCENTAGE),
+		leadTimeWarningHours: threshold('lead-time-warning-hours', 'leadTimeWarningHours', POSITIVE),
+		leadTimeCriticalHours: threshold('lead-time-critical-hours', 'leadTimeCriticalHours', POSITIVE),
+		shipFrequencyWarningPerWeek: threshold('ship-frequency-warning-per-week', 'shipFrequencyWarningPerWeek', POSITIVE),
+		shipFrequencyCriticalPerWeek: threshold('ship-frequency-critical-per-week', 'shipFrequencyCriticalPerWeek', POSITIVE),
 	};
+	problems.push(...thresholdOrderProblems(thresholds));
+	const shipFrequencyInHealth = !!thresholdPreset
+		|| !!input('ship-frequency-warning-per-week')
+		|| !!input('ship-frequency-critical-per-week');
 
-	return {
+	if (problems.length > 0) {
+		throw new ConfigValidationError(problems);
+	}
+
+	const config: Config = {
 		token,
 		owner,
 		repo,
-		sprintLengthDays,
-		periodStart,
-		periodEnd,
+		repositories,
+		repositoryTopic: repositoryTopic || undefined,
+		sprintLengthDays: period.lengthDays,
+		periodStart: period.start,
+		periodEnd: period.end,
+		periodMode: period.mode,
+		periodLabel: period.label,
+		previousPeriod: period.previous,
+		periodSource,
+		cycleTimeStart,
+		workingCalendar,
+		timezone,
 		postAs,
+		comparePrevious,
 		issueNumber,
 		auroraApiKey: auroraApiKey || undefined,
 		auroraTeamId: auroraTeamId || undefined,
 		workflowFilter: workflowFilter || undefined,
 		deploymentEnvironment: deploymentEnvironment || undefined,
+		hotfixLabels,
+		incidentLabels,
+		cachePath: cachePath || undefined,
+		cacheRefresh,
+		recordPath: recordPath || undefined,
+		replayPath: replayPath || undefined,
+		history,
+		trendCharts: trendCharts && !!history,
 		thresholds,
+		thresholdPreset,
+		shipFrequencyInHealth,
 	};
+
+	if (core.isDebug()) {
+		core.debug(`Effective configuration:\n${describeConfig(config)}`);
+	}
+	return config;
+}
+
+/**
+ * The config as JSON for debug logs, without credentials
+ */
+function describeConfig(config: Config): string {
+	const redact = (value?: string) => (value ? '***' : undefined);
+	return JSON.stringify({ ...config, token: redact(config.token), auroraApiKey: redact(config.auroraApiKey) }, null, 2);
+}
+
+/**
+ * Read an input: the action input when running as an action,
+ * otherwise the INPUT_<NAME> env var (dashes become underscores)
+ */
+function readInput(name: string): string {
+	const value = process.env.GITHUB_ACTIONS
+		? core.getInput(name)
+		: process.env[`INPUT_${name.replace(/-/g, '_').toUpperCase()}`];
+	return (value || '').trim();
+}
+
+/**
+ * A number input, or the fallback when unset
+ */
+function readNumberInput(input: InputReader, name: string, fallback: number, rule: NumberRule): number {
+	const raw = input(name);
+	if (!raw) {
+		return fallback;
+	}
+	const value = Number(raw);
+	if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(raw) || !rule.test(value)) {
+		throw new Error(`Invalid ${name}: ${raw}. Expected ${rule.expected}`);
+	}
+	return value;
+}
+
+function readBooleanInput(input: InputReader, name: string): boolean {
+	const value = input(name).toLowerCase();
+	if (value && !['true', 'false', 'yes', 'no', '1', '0'].includes(value)) {
+		throw new Error(`Invalid ${name}: ${input(name)}. Expected true or false`);
+	}
+	return ['true', 'yes', '1'].includes(value);
+}
+
+/**
+ * A warning threshold must come before its critical one: below it where
+ * higher is worse, above it where lower is worse
+ */
+function thresholdOrderProblems(t: Thresholds): string[] {
+	const pairs: [string, number, string, number, 'higher' | 'lower'][] = [
+		['cycle-time-warning-hours', t.cycleTimeWarningHours, 'cycle-time-critical-hours', t.cycleTimeCriticalHours, 'higher'],
+		['review-warning-hours', t.reviewWarningHours, 'review-critical-hours', t.reviewCriticalHours, 'higher'],
+		['wip-warning-ratio', t.wipWarningRatio, 'wip-critical-ratio', t.wipCriticalRatio, 'higher'],
+		['concentration-warning', t.concentrationWarning, 'concentration-critical', t.concentrationCritical, 'higher'],
+		['pr-size-warning', t.prSizeWarning, 'pr-size-critical', t.prSizeCritical, 'higher'],
+		['lead-time-warning-hours', t.leadTimeWarningHours, 'lead-time-critical-hours', t.leadTimeCriticalHours, 'higher'],
+		['review-depth-warning', t.reviewDepthWarning, 'review-depth-critical', t.reviewDepthCritical, 'lower'],
+		['build-success-warning', t.buildSuccessWarning, 'build-success-critical', t.buildSuccessCritical, 'lower'],
+		['ship-frequency-warning-per-week', t.shipFrequencyWarningPerWeek, 'ship-frequency-critical-per-week', t.shipFrequencyCriticalPerWeek, 'lower'],
+	];
+	return pairs
+		.filter(([, warning, , critical, worse]) => worse === 'higher' ? warning > critical : warning < critical)
+		.map(([warningName, warning, criticalName, critical, worse]) =>
+			`${warningName} (${warning}) must not be ${worse === 'higher' ? 'above' : 'below'} ${criticalName} (${critical}), ` +
+			`as ${worse} values are worse`);
+}
+
+/**
+ * Parse a newline or comma separated list of owner/repo entries, where the
+ * repo part may be a glob such as acme/* or acme/service-*
+ */
+function parseRepositories(input: string): string[] {
+	const entries = input.split(/[\s,]+/).filter(Boolean);
+	for (const entry of entries) {
+		if (!/^[\w.-]+\/[\w.*?-]+$/.test(entry)) {
+			throw new Error(`Invalid repositories entry "${entry}". Expected owner/repo or owner/<pattern>`);
+		}
+	}
+	return entries;
+}
+
+/**
+ * Label names, one per line or comma-separated (names may contain spaces)
+ */
+function parseLabels(input: string): string[] {
+	return input.split(/[\n,]/).map((label) => label.trim()).filter(Boolean);
+}
+
+/**
+ * History is enabled by history-branch or history-path. On a data branch
+ * the path defaults to "history"; on the default branch it must be given.
+ */
+function readHistoryConfig(input: InputReader): HistoryConfig | undefined {
+	const branch = input('history-branch');
+	const historyPath = input('history-path').replace(/^\/+|\/+$/g, '');
+	if (!branch && !historyPath) {
+		return undefined;
+	}
+
+	return {
+		branch: branch || undefined,
+		path: historyPath || 'history',
+		limit: readNumberInput(input, 'history-limit', 12, POSITIVE_INTEGER),
+	};
+}
+
+/**
+ * period-start/period-end select explicit dates and sprint-anchor repeating
+ * sprints; period picks any mode, including iso-week, month and quarter
+ */
+function readPeriodOptions(input: InputReader, sprintLengthDays: number, timezone: string): PeriodOptions {
+	const modeInput = input('period').toLowerCase();
+	if (modeInput && !PERIOD_MODES.includes(modeInput as PeriodMode)) {
+		throw new Error(`Invalid period: ${modeInput}. Expected one of ${PERIOD_MODES.join(', ')}`);
+	}
+
+	const start = parseDateInput(input, 'period-start');
+	const end = parseDateInput(input, 'period-end');
+	const anchor = parseDateInput(input, 'sprint-anchor');
+	const tags = input('from-tag') || input('to-tag');
+	const mode = (modeInput || (start || end ? 'custom' : anchor ? 'sprint' : tags ? 'release' : 'rolling')) as PeriodMode;
+
+	if ((start || end) && mode !== 'custom') {
+		throw new Error(`period-start and period-end cannot be used with period: ${mode}`);
+	}
+	if (mode === 'custom' && !start) {
+		throw new Error('period: custom needs period-start (period-end defaults to today)');
+	}
+	if (start && end && end < start) {
+		throw new Error(`period-end ${input('period-end')} is before period-start ${input('period-start')}`);
+	}
+	if (tags && mode !== 'release') {
+		throw new Error(`from-tag and to-tag cannot be used with period: ${mode}`);
+	}
+	if (mode === 'sprint' && !anchor) {
+		throw new Error('period: sprint needs sprint-anchor, the first day of any sprint (YYYY-MM-DD)');
+	}
+
+	return { mode, sprintLengthDays, anchor, start, end, current: readBooleanInput(input, 'current-period'), timezone };
+}
+
+/**
+ * Iterations come from a Projects v2 board given by project (a number on
+ * the repository owner, or owner/number); milestones from this repository;
+ * releases from from-tag and to-tag, or the latest two releases
+ */
+function readPeriodSource(input: InputReader, options: PeriodOptions): PeriodSourceConfig | undefined {
+	const linkedOnly = readBooleanInput(input, 'linked-prs-only');
+	if (options.mode !== 'iteration' && options.mode !== 'milestone' && options.mode !== 'release') {
+		if (linkedOnly) {
+			console.warn('linked-prs-only needs period: iteration or milestone; all merged PRs will be counted');
+		}
+		return undefined;
+	}
+
+	const source: PeriodSourceConfig = { type: options.mode, current: !!options.current, linkedOnly };
+	if (options.mode === 'milestone') {
+		return source;
+	}
+
+	if (options.mode === 'release') {
+		const fromTag = input('from-tag');
+		const toTag = input('to-tag');
+		if (!fromTag !== !toTag) {
+			throw new Error('from-tag and to-tag must be given together (leave both out to use the latest two releases)');
+		}
+		return { ...source, fromTag: fromTag || undefined, toTag: toTag || undefined };
+	}
+
+	const project = input('project');
+	const match = project.match(/^(?:([\w.-]+)\/)?(\d+)$/);
+	if (!match) {
+		throw new Error(project
+			? `Invalid project: ${project}. Expected a project number or owner/number`
+			: 'period: iteration needs project, the number of a Projects v2 board (or owner/number)');
+	}
+	return {
+		...source,
+		projectOwner: match[1] || undefined,
+		projectNumber: parseInt(match[2], 10),
+		iterationField: input('iteration-field') || undefined,
+	};
+}
+
+/**
+ * The recorded period; recordings without a mode were rolling windows
+ */
+function replayedPeriod(meta: RecordingMeta): ReportPeriod {
+	const start = new Date(meta.periodStart);
+	const previous = meta.previousPeriodStart && meta.previousPeriodEnd
+		? {
+			start: new Date(meta.previousPeriodStart),
+			end: new Date(meta.previousPeriodEnd),
+			lengthDays: meta.previousPeriodDays || meta.sprintLengthDays,
+		}
+		: rollingPrevious(start, meta.sprintLengthDays);
+	return {
+		mode: meta.periodMode || 'rolling',
+		start,
+		end: new Date(meta.periodEnd),
+		lengthDays: meta.sprintLengthDays,
+		label: meta.periodLabel,
+		previous,
+	};
+}
+
+function parseDateInput(input: InputReader, name: string): Date | undefined {
+	const value = input(name);
+	if (!value) {
+		return undefined;
+	}
+	const date = new Date(`${value}T00:00:00Z`);
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime()) || !date.toISOString().startsWith(value)) {
+		throw new Error(`Invalid ${name}: ${value}. Expected a date as YYYY-MM-DD`);
+	}
+	return date;
+}
+
+function readTimeZone(input: InputReader): string {
+	const timezone = input('timezone') || 'UTC';
+	if (!isValidTimeZone(timezone)) {
+		throw new Error(`Invalid timezone: ${timezone}. Expected an IANA name such as Europe/Berlin`);
+	}
+	return timezone;
+}
+
+/**
+ * Business hours are enabled by working-days or working-hours; the other
+ * defaults to Mon–Fri or 09:00–17:00. Holidays alone keep wall-clock hours
+ * but skip the days off.
+ */
+function readWorkingCalendar(input: InputReader, timezone: string): WorkingCalendar | undefined {
+	const daysInput = input('working-days');
+	const hoursInput = input('working-hours');
+	const holidaysInput = input('holidays');
+	if (!daysInput && !hoursInput && !holidaysInput) {
+		return undefined;
+	}
+
+	const holidays = loadHolidays(holidaysInput);
+	if (!daysInput && !hoursInput) {
+		return { workingDays: [0, 1, 2, 3, 4, 5, 6], startMinute: 0, endMinute: 24 * 60, timezone, holidays };
+	}
+
+	const [startMinute, endMinute] = parseWorkingHours(hoursInput || '09:00-17:00');
+	return {
+		workingDays: parseWorkingDays(daysInput || 'mon-fri'),
+		startMinute,
+		endMinute,
+		timezone,
+		holidays,
+	};
+}
+
+/**
+ * Parse day names and ranges, e.g. "mon-fri", "sun-thu" or "mon,tue,thu"
+ */
+function parseWorkingDays(input: string): number[] {
+	const days = new Set<number>();
+	for (const entry of input.toLowerCase().split(/[\s,]+/).filter(Boolean)) {
+		const [from, to = from] = entry.split('-').map((name) => DAY_NAMES.indexOf(name.slice(0, 3)));
+		if (from < 0 || to < 0 || entry.split('-').length > 2) {
+			throw new Error(`Invalid working-days entry "${entry}". Expected day names such as mon-fri or mon,tue,wed`);
+		}
+		for (let day = from; ; day = (day + 1) % 7) {
+			days.add(day);
+			if (day === to) break;
+		}
+	}
+	return [...days].sort((a, b) => a - b);
+}
+
+/**
+ * Parse "HH:MM-HH:MM" into minutes after midnight
+ */
+function parseWorkingHours(input: string): [number, number] {
+	const match = input.match(/^(\d{1,2}):([0-5]\d)\s*-\s*(\d{1,2}):([0-5]\d)$/);
+	const start = match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : NaN;
+	const end = match ? parseInt(match[3], 10) * 60 + parseInt(match[4], 10) : NaN;
+	if (!(start < end) || end > 24 * 60) {
+		throw new Error(`Invalid working-hours: ${input}. Expected HH:MM-HH:MM, e.g. 09:00-17:00`);
+	}
+	return [start, end];
+}
+
+function parseCycleTimeStart(input: string): CycleTimeStart {
+	const value = input.toLowerCase() || 'created';
+	if (value !== 'created' && value !== 'ready') {
+		throw new Error(`Invalid cycle-time-start: ${input}. Expected created or ready`);
+	}
+	return value;
+}
+
+function parseThresholdPreset(input: string): ThresholdPreset | undefined {
+	if (input && !THRESHOLD_PRESET_NAMES.includes(input as ThresholdPreset)) {
+		throw new Error(`Invalid threshold-preset: ${input}. Expected one of ${THRESHOLD_PRESET_NAMES.join(', ')}`);
+	}
+	return (input as ThresholdPreset) || undefined;
 }
 
-function validatePostAs(input: string): 'summary' | 'issue-comment' {
-	const valid = ['summary', 'issue-comment'];
-	if (valid.includes(input)) {
-		return input as 'summary' | 'issue-comment';
+function parsePostAs(input: string): 'summary' | 'issue-comment' {
+	const value = input || 'summary';
+	if (value !== 'summary' && value !== 'issue-comment') {
+		throw new Error(`Invalid post-as: ${input}. Expected summary or issue-comment`);
 	}
-	console.warn(`Invalid post-as value: ${input}. Defaulting to 'summary'`);
-	return 'summary';
+	return value;
 }
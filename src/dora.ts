@@ -0,0 +1,109 @@
+/**
+ * DORA performance bands
+ *
+ * Classifies the four DORA keys against the published performance bands:
+ *
+ * - Deployment frequency: elite on demand (daily or more), high at least
+ *   weekly, medium at least monthly, low less often
+ * - Lead time for changes: elite under a day, high up to a week, medium
+ *   up to a month, low longer
+ * - Change failure rate: elite up to 15%, high up to 30%, medium up to
+ *   45%, low higher
+ * - Time to restore service: elite under an hour, high under a day,
+ *   medium under a week, low longer
+ *
+ * The overall band is the lowest band among the keys that could be
+ * measured; a key that could not be measured carries the reason instead.
+ */
+
+import { SprintMetrics } from './metrics';
+
+export type DoraBand = 'elite' | 'high' | 'medium' | 'low';
+
+export type DoraKey = 'deployment-frequency' | 'lead-time' | 'change-failure-rate' | 'time-to-restore';
+
+export const DORA_BANDS: DoraBand[] = ['elite', 'high', 'medium', 'low'];
+
+export const DORA_KEYS: DoraKey[] = ['deployment-frequency', 'lead-time', 'change-failure-rate', 'time-to-restore'];
+
+export interface DoraKeyResult {
+	key: DoraKey;
+	// Per day, hours or percent, as the key is measured; null when unmeasured
+	value: number | null;
+	band: DoraBand | null;
+	// Why the key could not be measured
+	reason?: string;
+}
+
+export interface DoraClassification {
+	keys: DoraKeyResult[];
+	// Lowest band among the measured keys, null when none was measured
+	overall: DoraBand | null;
+}
+
+const HOURS_PER_DAY = 24;
+const HOURS_PER_WEEK = 7 * HOURS_PER_DAY;
+const HOURS_PER_MONTH = 30 * HOURS_PER_DAY;
+
+export function classifyDora(metrics: SprintMetrics): DoraClassification {
+	const noShips = metrics.shipFrequency === null;
+	const leadTime = metrics.leadTimeWallClockHours ?? metrics.leadTimeMedianHours;
+	const timeToRestore = metrics.timeToRestoreWallClockHours ?? metrics.timeToRestoreMedianHours ?? null;
+
+	const keys: DoraKeyResult[] = [
+		measured('deployment-frequency', metrics.shipFrequency, deploymentFrequencyBand,
+			'no deployments or releases in the period'),
+		measured('lead-time', leadTime, leadTimeBand, noShips
+			? 'no deployments or releases in the period'
+			: 'no merged PR reached a deployment or release'),
+		measured('change-failure-rate', metrics.changeFailureRate, changeFailureRateBand, 'no merged PRs in the period'),
+		measured('time-to-restore', timeToRestore, timeToRestoreBand,
+			metrics.timeToRestoreError || 'no incidents in the period'),
+	];
+
+	return { keys, overall: lowestBand(keys) };
+}
+
+/**
+ * Deployments or releases per day
+ */
+export function deploymentFrequencyBand(perDay: number): DoraBand {
+	if (perDay >= 1) return 'elite';
+	if (perDay >= 1 / 7) return 'high';
+	if (perDay >= 1 / 30) return 'medium';
+	return 'low';
+}
+
+export function leadTimeBand(hours: number): DoraBand {
+	if (hours < HOURS_PER_DAY) return 'elite';
+	if (hours <= HOURS_PER_WEEK) return 'high';
+	if (hours <= HOURS_PER_MONTH) return 'medium';
+	return 'low';
+}
+
+/**
+ * Share of changes that failed, in percent
+ */
+export function changeFailureRateBand(percent: number): DoraBand {
+	if (percent <= 15) return 'elite';
+	if (percent <= 30) return 'high';
+	if (percent <= 45) return 'medium';
+	return 'low';
+}
+
+export function timeToRestoreBand(hours: number): DoraBand {
+	if (hours < 1) return 'elite';
+	if (hours < HOURS_PER_DAY) return 'high';
+	if (hours < HOURS_PER_WEEK) return 'medium';
+	return 'low';
+}
+
+function measured(key: DoraKey, value: number | null, band: (value: number) => DoraBand, reason: string): DoraKeyResult {
+	return value === null ? { key, value, band: null, reason } : { key, value, band: band(value) };
+}
+
+function lowestBand(keys: DoraKeyResult[]): DoraBand | null {
+	const bands = keys.map((k) => k.band).filter((band): band is DoraBand => band !== null);
+	if (bands.length === 0) return null;
+	return DORA_BANDS[Math.max(...bands.map((band) => DORA_BANDS.indexOf(band)))];
+}
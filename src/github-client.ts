@@ -1,21 +1,52 @@
 /**
  * GitHub API client
  *
- * Fetches PR and review data from GitHub's REST API.
- * Optimized for speed with parallel requests and concurrency limits.
+ * Fetches PR and review data from GitHub's REST and GraphQL APIs.
+ * Optimized for speed with batched queries, parallel requests and
+ * concurrency limits.
  */
 
 import * as github from '@actions/github';
+import { RequestScheduler, RequestStats } from './request-scheduler';
+import type { PRCache } from './pr-cache';
+import type { ApiRecorder } from './recorder';
+import { endOfLocalDay, localDate, startOfLocalDay } from './timezone';
 
-// Concurrency limit to avoid rate limiting
+// Upper bound on in-flight requests; the scheduler adapts below this
+// when GitHub signals rate limiting
 const CONCURRENCY_LIMIT = 10;
 
+// PRs per GraphQL query. Each PR pulls up to 100 reviews, which keeps
+// a batch comfortably under GitHub's node limit per query.
+const GRAPHQL_BATCH_SIZE = 25;
+
+// GitHub discourages concurrent GraphQL requests, so keep this low
+const GRAPHQL_CONCURRENCY = 2;
+
+// PRs per merge commit query (one small field each)
+const MERGE_COMMIT_BATCH_SIZE = 100;
+
+// Search returns at most this many results per query
+const SEARCH_RESULT_CAP = 1000;
+
+// Stop splitting search windows below this span
+const MIN_SEARCH_WINDOW_MS = 60 * 1000;
+
+// Git's well-known empty tree, for commits with no files
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
 export interface PullRequest {
 	number: number;
 	title: string;
 	createdAt: Date;
 	mergedAt: Date;
 	author: string;
+	updatedAt?: Date;
+	// For change failure detection: reverts and hotfix labels
+	body?: string;
+	labels?: string[];
+	// owner/repo, set when PRs from several repositories are combined
+	repository?: string;
 }
 
 export interface Review {
@@ -38,6 +69,366 @@ export interface ShipEvent {
 	createdAt: Date;
 	source: 'deployment' | 'release';
 	label: string;
+	// Latest deployment status (success, failure, error, …), when looked up
+	state?: string;
+	// owner/repo, set when events from several repositories are combined
+	repository?: string;
+}
+
+/**
+ * An issue labelled as an incident, restored when it was closed
+ */
+export interface Incident {
+	number: number;
+	title: string;
+	openedAt: Date;
+	closedAt: Date;
+	// owner/repo, set when incidents from several repositories are combined
+	repository?: string;
+}
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * Connection shared by clients for several repositories, so they draw on
+ * one rate limit budget
+ */
+export interface SharedTransport {
+	octokit: Octokit;
+	scheduler: RequestScheduler;
+}
+
+export interface RepositorySummary {
+	name: string;
+	archived: boolean;
+	topics: string[];
+}
+/**
+ * One iteration of a Projects v2 iteration field
+ */
+export interface ProjectIteration {
+	id: string;
+	title: string;
+	// First day (YYYY-MM-DD) and length in days
+	startDate: string;
+	duration: number;
+}
+
+export interface ReleaseTag {
+	tag: string;
+	publishedAt: Date;
+}
+
+/**
+ * Commits reachable from one ref but not another
+ */
+export interface CommitRange {
+	// Date of the common ancestor (the base itself on a linear history)
+	mergeBaseDate: Date;
+	// Date of the head commit
+	headDate: Date;
+	shas: Set<string>;
+}
+
+export interface Milestone {
+	number: number;
+	title: string;
+	createdAt: Date;
+	dueOn: Date | null;
+}
+
+type SearchItem = Awaited<ReturnType<Octokit['rest']['search']['issuesAndPullRequests']>>['data']['items'][number];
+
+/**
+ * A PR moving out of or into draft
+ */
+export interface DraftEvent {
+	type: 'ready_for_review' | 'convert_to_draft';
+	createdAt: Date;
+}
+
+/**
+ * Per-PR details fetched in one pass: reviews, size, first commit and
+ * draft transitions. firstCommitDate is undefined when it was not fetched
+ * (REST fallback), and null when the PR has no commits with a usable date.
+ */
+export interface PRDetails {
+	reviews: Review[];
+	additions: number;
+	deletions: number;
+	firstCommitDate?: Date | null;
+	draftEvents?: DraftEvent[];
+}
+
+interface GraphQLReviewNode {
+	author: { login: string } | null;
+	state: string;
+	submittedAt: string | null;
+	body: string | null;
+	comments: { totalCount: number };
+}
+
+interface GraphQLReviewConnection {
+	pageInfo: { hasNextPage: boolean; endCursor: string | null };
+	nodes: GraphQLReviewNode[];
+}
+
+interface GraphQLTimelineConnection {
+	pageInfo: { hasNextPage: boolean; endCursor: string | null };
+	nodes: ({ __typename: 'ReadyForReviewEvent' | 'ConvertToDraftEvent'; createdAt: string } | null)[];
+}
+
+interface GraphQLPullRequest {
+	number: number;
+	additions: number;
+	deletions: number;
+	reviews: GraphQLReviewConnection;
+	commits: {
+		nodes: { commit: { authoredDate: string | null; committedDate: string | null } }[];
+	};
+	timelineItems: GraphQLTimelineConnection;
+}
+
+const REVIEW_FIELDS = `
+	pageInfo { hasNextPage endCursor }
+	nodes {
+		author { login }
+		state
+		submittedAt
+		body
+		comments { totalCount }
+	}
+`;
+
+const TIMELINE_FIELDS = `
+	pageInfo { hasNextPage endCursor }
+	nodes {
+		__typename
+		... on ReadyForReviewEvent { createdAt }
+		... on ConvertToDraftEvent { createdAt }
+	}
+`;
+
+const DRAFT_EVENT_TYPES = '[READY_FOR_REVIEW_EVENT, CONVERT_TO_DRAFT_EVENT]';
+
+const PR_DETAILS_FRAGMENT = `
+fragment PRDetails on PullRequest {
+	number
+	additions
+	deletions
+	reviews(first: 100) { ${REVIEW_FIELDS} }
+	commits(first: 1) {
+		nodes { commit { authoredDate committedDate } }
+	}
+	timelineItems(first: 100, itemTypes: ${DRAFT_EVENT_TYPES}) { ${TIMELINE_FIELDS} }
+}
+`;
+
+const REVIEWS_PAGE_QUERY = `
+query($owner: String!, $repo: String!, $number: Int!, $cursor: String!) {
+	repository(owner: $owner, name: $repo) {
+		pullRequest(number: $number) {
+			reviews(first: 100, after: $cursor) { ${REVIEW_FIELDS} }
+		}
+	}
+}
+`;
+
+const TIMELINE_PAGE_QUERY = `
+query($owner: String!, $repo: String!, $number: Int!, $cursor: String!) {
+	repository(owner: $owner, name: $repo) {
+		pullRequest(number: $number) {
+			timelineItems(first: 100, after: $cursor, itemTypes: ${DRAFT_EVENT_TYPES}) { ${TIMELINE_FIELDS} }
+		}
+	}
+}
+`;
+
+// Projects v2 belong to an organization or a user
+const PROJECT_ITERATIONS_QUERY = `
+query($owner: String!, $number: Int!) {
+	repositoryOwner(login: $owner) {
+		... on ProjectV2Owner {
+			projectV2(number: $number) {
+				fields(first: 50) {
+					nodes {
+						... on ProjectV2IterationField {
+							name
+							configuration {
+								iterations { id title startDate duration }
+								completedIterations { id title startDate duration }
+							}
+						}
+					}
+				}
+			}
+		}
+	}
+}
+`;
+
+const PROJECT_ITEMS_QUERY = `
+query($owner: String!, $number: Int!, $field: String!, $cursor: String) {
+	repositoryOwner(login: $owner) {
+		... on ProjectV2Owner {
+			projectV2(number: $number) {
+				items(first: 100, after: $cursor) {
+					pageInfo { hasNextPage endCursor }
+					nodes {
+						fieldValueByName(name: $field) {
+							... on ProjectV2ItemFieldIterationValue { iterationId }
+						}
+						content {
+							__typename
+							... on PullRequest { number repository { nameWithOwner } }
+							... on Issue {
+								closedByPullRequestsReferences(first: 20, includeClosedPrs: true) {
+									nodes { number repository { nameWithOwner } }
+								}
+							}
+						}
+					}
+				}
+			}
+		}
+	}
+}
+`;
+
+interface GraphQLIterationField {
+	name?: string;
+	configuration?: {
+		iterations: ProjectIteration[];
+		completedIterations: ProjectIteration[];
+	};
+}
+
+interface GraphQLLinkedPR {
+	number: number;
+	repository: { nameWithOwner: string };
+}
+
+interface GraphQLProjectItem {
+	fieldValueByName: { iterationId?: string } | null;
+	content:
+		| ({ __typename: 'PullRequest' } & GraphQLLinkedPR)
+		| { __typename: 'Issue'; closedByPullRequestsReferences: { nodes: (GraphQLLinkedPR | null)[] } }
+		| { __typename: 'DraftIssue' }
+		| null;
+}
+
+/**
+ * Build a query fetching details for many PRs at once via aliases
+ */
+function buildPRDetailsQuery(prNumbers: number[]): string {
+	const fields = prNumbers
+		.map((n) => `pr${n}: pullRequest(number: ${n}) { ...PRDetails }`)
+		.join('\n\t\t');
+	return `
+query($owner: String!, $repo: String!) {
+	repository(owner: $owner, name: $repo) {
+		${fields}
+	}
+}
+${PR_DETAILS_FRAGMENT}`;
+}
+
+/**
+ * Build a query fetching the merge commit of many PRs at once via aliases
+ */
+function buildMergeCommitQuery(prNumbers: number[]): string {
+	const fields = prNumbers
+		.map((n) => `pr${n}: pullRequest(number: ${n}) { mergeCommit { oid } }`)
+		.join('\n\t\t');
+	return `
+query($owner: String!, $repo: String!) {
+	repository(owner: $owner, name: $repo) {
+		${fields}
+	}
+}`;
+}
+
+function commitDate(commit: { committer: { date?: string } | null; author: { date?: string } | null }): Date {
+	return new Date(commit.committer?.date || commit.author?.date || 0);
+}
+
+/**
+ * Pick draft transitions out of REST timeline events
+ */
+function toDraftEvents(events: { event?: string; created_at?: string }[]): DraftEvent[] {
+	return events
+		.filter((e) => (e.event === 'ready_for_review' || e.event === 'convert_to_draft') && e.created_at)
+		.map((e) => ({ type: e.event as DraftEvent['type'], createdAt: new Date(e.created_at!) }));
+}
+
+/**
+ * Map raw reviews to Review objects, spreading the PR's inline comments
+ * evenly across its reviews (matches the REST path's attribution).
+ */
+function toReviews(
+	prNumber: number,
+	raw: { author: string; state: string; submittedAt: string | null; body: string | null }[],
+	inlineCommentCount: number
+): Review[] {
+	const reviews: Review[] = raw
+		.filter((r) => r.submittedAt)
+		.map((r) => ({
+			prNumber,
+			submittedAt: new Date(r.submittedAt!),
+			author: r.author,
+			state: r.state,
+			commentCount: r.body && r.body.trim().length > 0 ? 1 : 0,
+		}));
+
+	// Distribute inline comments across reviews
+	const nonAuthorReviews = reviews.filter((r) => r.author !== 'unknown');
+	if (nonAuthorReviews.length > 0 && inlineCommentCount > 0) {
+		const perReview = inlineCommentCount / nonAuthorReviews.length;
+		nonAuthorReviews.forEach((r) => (r.commentCount += perReview));
+	}
+
+	return reviews;
+}
+
+/**
+ * Format a merged: or created: range, using whole dates when the window
+ * covers whole UTC days and full timestamps otherwise (split windows,
+ * other timezones)
+ */
+function formatSearchRange(from: Date, to: Date): string {
+	const wholeDays =
+		from.getUTCHours() === 0 && from.getUTCMinutes() === 0 && from.getUTCSeconds() === 0 &&
+		to.getUTCHours() === 23 && to.getUTCMinutes() === 59 && to.getUTCSeconds() === 59;
+	const format = (d: Date) => wholeDays
+		? d.toISOString().split('T')[0]
+		: d.toISOString().replace(/\.\d{3}Z$/, 'Z');
+	return `${format(from)}..${format(to)}`;
+}
+
+function describeError(error: unknown): string {
+	if (error && typeof error === 'object') {
+		const { status, message } = error as { status?: number; message?: string };
+		if (status && message) return `${status} ${message}`;
+		if (message) return message;
+	}
+	return String(error);
+}
+
+/**
+ * Label names from the REST shape (a name string or a label object)
+ */
+function labelNames(labels: (string | { name?: string | null })[] | undefined): string[] {
+	return (labels || [])
+		.map((label) => (typeof label === 'string' ? label : label.name || ''))
+		.filter((name) => name);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+	const chunks: T[][] = [];
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size));
+	}
+	return chunks;
 }
 
 /**
@@ -79,51 +470,189 @@ async function runWithConcurrency<T, R>(
 }
 
 export class GitHubClient {
-	private octokit: ReturnType<typeof github.getOctokit>;
+	private octokit: Octokit;
 	private owner: string;
 	private repo: string;
+	// In flight or fetched, so concurrent callers share one request
+	private prDetails = new Map<number, Promise<PRDetails>>();
+	private mergedPRQueryCount = 0;
+	private prUpdatedAt = new Map<number, Date>();
+	private cache: PRCache | null = null;
+	// PRs whose details could not be fully fetched; never cached
+	private incompletePRs = new Set<number>();
+	private scheduler: RequestScheduler;
 
-	constructor(token: string, owner: string, repo: string) {
-		this.octokit = github.getOctokit(token);
+	constructor(token: string, owner: string, repo: string, recorder?: ApiRecorder, shared?: SharedTransport) {
 		this.owner = owner;
 		this.repo = repo;
+		if (shared) {
+			this.octokit = shared.octokit;
+			this.scheduler = shared.scheduler;
+			return;
+		}
+
+		this.octokit = github.getOctokit(token);
+
+		// Route every REST and GraphQL request through the scheduler
+		this.scheduler = new RequestScheduler({ maxConcurrency: CONCURRENCY_LIMIT });
+		this.octokit.hook.wrap('request', (request, options) =>
+			this.scheduler.schedule(async () => request(options))
+		);
+
+		// Wrapped last so it sees final responses (after retries), and so
+		// a replay short-circuits before anything reaches the network
+		if (recorder) {
+			this.octokit.hook.wrap('request', (request, options) =>
+				recorder.handle(
+					async () => request(options),
+					this.octokit.request.endpoint.parse(options)
+				) as ReturnType<typeof request>
+			);
+		}
+	}
+
+	/**
+	 * Client for another repository over the same connection, scheduler
+	 * and recording
+	 */
+	forRepository(owner: string, repo: string): GitHubClient {
+		return new GitHubClient('', owner, repo, undefined, { octokit: this.octokit, scheduler: this.scheduler });
+	}
+
+	/**
+	 * List an organization's repositories (or a user's, when the owner
+	 * is not an organization)
+	 */
+	async listOwnerRepositories(owner: string): Promise<RepositorySummary[]> {
+		const toSummary = (r: { name: string; archived?: boolean; topics?: string[] }) => ({
+			name: r.name,
+			archived: !!r.archived,
+			topics: r.topics || [],
+		});
+
+		try {
+			const repos = await this.octokit.paginate(this.octokit.rest.repos.listForOrg, {
+				org: owner,
+				type: 'all',
+				per_page: 100,
+			});
+			return repos.map(toSummary);
+		} catch (error) {
+			if ((error as { status?: number }).status !== 404) throw error;
+			const repos = await this.octokit.paginate(this.octokit.rest.repos.listForUser, {
+				username: owner,
+				type: 'owner',
+				per_page: 100,
+			});
+			return repos.map(toSummary);
+		}
+	}
+
+	/**
+	 * Serve unchanged PRs from a persistent cache, and record fetched ones
+	 */
+	useCache(cache: PRCache): void {
+		this.cache = cache;
+	}
+
+	private recordUpdatedAt(pullRequests: PullRequest[]): void {
+		for (const pr of pullRequests) {
+			if (pr.updatedAt) {
+				this.prUpdatedAt.set(pr.number, pr.updatedAt);
+			}
+		}
+	}
+
+	/**
+	 * Requests made, retries and remaining quota so far
+	 */
+	getRequestStats(): RequestStats {
+		return this.scheduler.getStats();
 	}
 
 	/**
 	 * Get all PRs merged within the given date range
-	 * Uses search API - no individual PR fetches needed
+	 * Uses search API - no individual PR fetches needed.
+	 * Search caps each query at 1000 results, so busy windows are split
+	 * into smaller date ranges and the results de-duplicated.
 	 */
-	async getMergedPRs(startDate: Date, endDate: Date): Promise<PullRequest[]> {
-		const query = `repo:${this.owner}/${this.repo} is:pr is:merged merged:${startDate.toISOString().split('T')[0]}..${endDate.toISOString().split('T')[0]}`;
+	async getMergedPRs(startDate: Date, endDate: Date, timezone = 'UTC'): Promise<PullRequest[]> {
+		// Whole days in the timezone (in UTC, the merged:YYYY-MM-DD..YYYY-MM-DD qualifier)
+		const from = startOfLocalDay(localDate(startDate, timezone), timezone);
+		const to = endOfLocalDay(localDate(endDate, timezone), timezone);
 
 		try {
-			// Paginate through all search results
-			const items = await this.octokit.paginate(
-				this.octokit.rest.search.issuesAndPullRequests,
-				{
-					q: query,
-					sort: 'updated',
-					order: 'desc',
-					per_page: 100,
-				},
-				(response) => response.data
-			);
+			this.mergedPRQueryCount = 0;
+			const items = await this.searchMergedPRs(from, to);
 
 			// Map search results directly - no extra API calls needed
-			return items
-				.filter((item) => item.pull_request?.merged_at)
-				.map((item) => ({
+			const byNumber = new Map<number, PullRequest>();
+			for (const item of items) {
+				if (!item.pull_request?.merged_at || byNumber.has(item.number)) continue;
+				byNumber.set(item.number, {
 					number: item.number,
 					title: item.title,
 					createdAt: new Date(item.created_at),
-					mergedAt: new Date(item.pull_request!.merged_at!),
+					mergedAt: new Date(item.pull_request.merged_at),
 					author: item.user?.login || 'unknown',
-				}));
+					updatedAt: new Date(item.updated_at),
+					body: item.body || '',
+					labels: labelNames(item.labels),
+				});
+			}
+			const pullRequests = [...byNumber.values()];
+			this.recordUpdatedAt(pullRequests);
+			return pullRequests;
 		} catch (error) {
 			// Fallback to listing PRs if search fails
 			console.log('   Search API unavailable, falling back to list API...');
-			return this.getMergedPRsFallback(startDate, endDate);
+			this.mergedPRQueryCount = 1;
+			const pullRequests = await this.getMergedPRsFallback(startDate, endDate);
+			this.recordUpdatedAt(pullRequests);
+			return pullRequests;
+		}
+	}
+
+	/**
+	 * Number of search queries the last getMergedPRs call was assembled
+	 * from (more than 1 means the window was split to stay under the cap)
+	 */
+	getMergedPRsQueryCount(): number {
+		return this.mergedPRQueryCount;
+	}
+
+	/**
+	 * Search one merged: window, halving it recursively while the
+	 * total count exceeds what search will return
+	 */
+	private async searchMergedPRs(from: Date, to: Date): Promise<SearchItem[]> {
+		const query = `repo:${this.owner}/${this.repo} is:pr is:merged merged:${formatSearchRange(from, to)}`;
+		const params = { q: query, sort: 'updated' as const, order: 'desc' as const, per_page: 100 };
+
+		const first = await this.octokit.rest.search.issuesAndPullRequests({ ...params, page: 1 });
+		const total = first.data.total_count;
+
+		if (total > SEARCH_RESULT_CAP && to.getTime() - from.getTime() > MIN_SEARCH_WINDOW_MS) {
+			const mid = new Date(Math.floor((from.getTime() + to.getTime()) / 2000) * 1000);
+			const left = await this.searchMergedPRs(from, mid);
+			const right = await this.searchMergedPRs(new Date(mid.getTime() + 1000), to);
+			return [...left, ...right];
+		}
+
+		this.mergedPRQueryCount++;
+		if (total > SEARCH_RESULT_CAP) {
+			console.warn(`   ⚠️  ${total} PRs merged in ${formatSearchRange(from, to)}; search returns only the first ${SEARCH_RESULT_CAP}`);
 		}
+
+		const items = [...first.data.items];
+		const pages = Math.ceil(Math.min(total, SEARCH_RESULT_CAP) / params.per_page);
+		for (let page = 2; page <= pages; page++) {
+			const response = await this.octokit.rest.search.issuesAndPullRequests({ ...params, page });
+			if (response.data.items.length === 0) break;
+			items.push(...response.data.items);
+		}
+
+		return items;
 	}
 
 	/**
@@ -155,6 +684,9 @@ export class GitHubClient {
 					createdAt: new Date(pr.created_at),
 					mergedAt: mergedAt,
 					author: pr.user?.login || 'unknown',
+					updatedAt: new Date(pr.updated_at),
+					body: pr.body || '',
+					labels: labelNames(pr.labels),
 				});
 			}
 		}
@@ -163,76 +695,285 @@ export class GitHubClient {
 	}
 
 	/**
-	 * Get reviews AND PR size for multiple PRs in a single pass.
-	 * Piggybacks pulls.get (for additions/deletions) onto the existing
-	 * review+comment fetch so we don't need a separate per-PR round trip.
+	 * Get reviews AND PR size (and draft transitions) for multiple PRs.
+	 * Batches many PRs into each GraphQL query (reviews, inline comment
+	 * counts, additions/deletions, first commit and draft events together), falling back
+	 * to per-PR REST calls if GraphQL is unavailable.
 	 */
 	async getReviewsAndSizes(prNumbers: number[]): Promise<{
 		reviewsByPR: Map<number, Review[]>;
 		sizesByPR: Map<number, { additions: number; deletions: number }>;
+		draftEventsByPR: Map<number, DraftEvent[]>;
 	}> {
 		const reviewsByPR = new Map<number, Review[]>();
 		const sizesByPR = new Map<number, { additions: number; deletions: number }>();
+		const draftEventsByPR = new Map<number, DraftEvent[]>();
 
-		const fetchForPR = async (prNumber: number) => {
-			try {
-				// Fetch reviews, comments, AND PR details in parallel
-				const [reviewsResponse, commentsResponse, prResponse] = await Promise.all([
-					this.octokit.rest.pulls.listReviews({
-						owner: this.owner,
-						repo: this.repo,
-						pull_number: prNumber,
-					}),
-					this.octokit.rest.pulls.listReviewComments({
-						owner: this.owner,
-						repo: this.repo,
-						pull_number: prNumber,
-					}),
-					this.octokit.rest.pulls.get({
-						owner: this.owner,
-						repo: this.repo,
-						pull_number: prNumber,
-					}),
-				]);
+		const details = await this.getPRDetailsBatch(prNumbers);
 
-				const inlineCommentCount = commentsResponse.data.length;
-
-				const reviews: Review[] = reviewsResponse.data
-					.filter((r) => r.submitted_at)
-					.map((r) => ({
-						prNumber,
-						submittedAt: new Date(r.submitted_at!),
-						author: r.user?.login || 'unknown',
-						state: r.state,
-						commentCount: r.body && r.body.trim().length > 0 ? 1 : 0,
-					}));
-
-				// Distribute inline comments across reviews
-				const nonAuthorReviews = reviews.filter((r) => r.author !== 'unknown');
-				if (nonAuthorReviews.length > 0 && inlineCommentCount > 0) {
-					const perReview = inlineCommentCount / nonAuthorReviews.length;
-					nonAuthorReviews.forEach((r) => (r.commentCount += perReview));
+		for (const prNumber of prNumbers) {
+			const d = details.get(prNumber);
+			reviewsByPR.set(prNumber, d ? d.reviews : []);
+			sizesByPR.set(prNumber, {
+				additions: d ? d.additions : 0,
+				deletions: d ? d.deletions : 0,
+			});
+			if (d?.draftEvents) {
+				draftEventsByPR.set(prNumber, d.draftEvents);
+			}
+		}
+
+		return { reviewsByPR, sizesByPR, draftEventsByPR };
+	}
+
+	/**
+	 * Fetch details for PRs not already fetched or being fetched.
+	 * Promises are kept so getFirstCommitDates, and callers running at
+	 * the same time, reuse them instead of fetching the PRs again.
+	 */
+	private async getPRDetailsBatch(prNumbers: number[]): Promise<Map<number, PRDetails>> {
+		let missing = [...new Set(prNumbers)].filter((n) => !this.prDetails.has(n));
+
+		if (this.cache && missing.length > 0) {
+			const cache = this.cache;
+			missing = missing.filter((n) => {
+				const cached = cache.get(n, this.prUpdatedAt.get(n));
+				if (cached) {
+					this.prDetails.set(n, Promise.resolve(cached));
 				}
+				return !cached;
+			});
+		}
 
-				return {
-					prNumber,
-					reviews,
-					additions: prResponse.data.additions,
-					deletions: prResponse.data.deletions,
-				};
-			} catch {
-				return { prNumber, reviews: [] as Review[], additions: 0, deletions: 0 };
+		if (missing.length > 0) {
+			const fetched = this.fetchPRDetails(missing).catch((error) => {
+				// Let a later call try again
+				for (const prNumber of missing) this.prDetails.delete(prNumber);
+				throw error;
+			});
+			for (const prNumber of missing) {
+				this.prDetails.set(prNumber, fetched.then((details) => details.get(prNumber)!));
 			}
-		};
+		}
 
-		const results = await runWithConcurrency(prNumbers, fetchForPR, CONCURRENCY_LIMIT);
+		const details = new Map<number, PRDetails>();
+		for (const prNumber of prNumbers) {
+			details.set(prNumber, await this.prDetails.get(prNumber)!);
+		}
+		return details;
+	}
 
-		for (const { prNumber, reviews, additions, deletions } of results) {
-			reviewsByPR.set(prNumber, reviews);
-			sizesByPR.set(prNumber, { additions, deletions });
+	/**
+	 * Fetch details for PRs in GraphQL batches and store the complete ones
+	 * in the PR cache
+	 */
+	private async fetchPRDetails(prNumbers: number[]): Promise<Map<number, PRDetails>> {
+		const batches = chunk(prNumbers, GRAPHQL_BATCH_SIZE);
+		const results = await runWithConcurrency(
+			batches,
+			(batch) => this.fetchPRDetailsBatch(batch),
+			GRAPHQL_CONCURRENCY
+		);
+
+		const details = new Map<number, PRDetails>();
+		for (const batchResult of results) {
+			for (const [prNumber, d] of batchResult) {
+				details.set(prNumber, d);
+				const updatedAt = this.prUpdatedAt.get(prNumber);
+				if (this.cache && updatedAt && !this.incompletePRs.has(prNumber)) {
+					this.cache.set(prNumber, updatedAt, d);
+				}
+			}
 		}
+		return details;
+	}
 
-		return { reviewsByPR, sizesByPR };
+	/**
+	 * Fetch one batch of PRs via GraphQL, paginating reviews and draft
+	 * events for any PR with more than 100. Falls back to REST for the
+	 * batch on failure.
+	 */
+	private async fetchPRDetailsBatch(prNumbers: number[]): Promise<Map<number, PRDetails>> {
+		const result = new Map<number, PRDetails>();
+
+		let repository: Record<string, GraphQLPullRequest | null>;
+		try {
+			const response = await this.octokit.graphql<{
+				repository: Record<string, GraphQLPullRequest | null>;
+			}>(buildPRDetailsQuery(prNumbers), { owner: this.owner, repo: this.repo });
+			repository = response.repository;
+		} catch (error) {
+			console.warn(`   ⚠️  GraphQL batch failed (${describeError(error)}), falling back to REST for ${prNumbers.length} PRs`);
+			const fallback = await runWithConcurrency(
+				prNumbers,
+				(n) => this.fetchPRDetailsRest(n),
+				CONCURRENCY_LIMIT
+			);
+			for (const { prNumber, details } of fallback) {
+				result.set(prNumber, details);
+			}
+			return result;
+		}
+
+		for (const prNumber of prNumbers) {
+			const pr = repository[`pr${prNumber}`];
+			if (!pr) {
+				this.incompletePRs.add(prNumber);
+				result.set(prNumber, { reviews: [], additions: 0, deletions: 0, firstCommitDate: null, draftEvents: [] });
+				continue;
+			}
+
+			const reviewNodes = [...pr.reviews.nodes];
+			let pageInfo = pr.reviews.pageInfo;
+			while (pageInfo.hasNextPage && pageInfo.endCursor) {
+				const page = await this.fetchReviewsPage(prNumber, pageInfo.endCursor);
+				if (!page) {
+					this.incompletePRs.add(prNumber);
+					break;
+				}
+				reviewNodes.push(...page.nodes);
+				pageInfo = page.pageInfo;
+			}
+
+			const timelineNodes = [...pr.timelineItems.nodes];
+			let timelinePageInfo = pr.timelineItems.pageInfo;
+			while (timelinePageInfo.hasNextPage && timelinePageInfo.endCursor) {
+				const page = await this.fetchTimelinePage(prNumber, timelinePageInfo.endCursor);
+				if (!page) {
+					this.incompletePRs.add(prNumber);
+					break;
+				}
+				timelineNodes.push(...page.nodes);
+				timelinePageInfo = page.pageInfo;
+			}
+
+			const inlineCommentCount = reviewNodes.reduce((sum, r) => sum + r.comments.totalCount, 0);
+			const reviews = toReviews(
+				prNumber,
+				reviewNodes.map((r) => ({
+					author: r.author?.login || 'unknown',
+					state: r.state,
+					submittedAt: r.submittedAt,
+					body: r.body,
+				})),
+				inlineCommentCount
+			);
+
+			const firstCommit = pr.commits.nodes[0]?.commit;
+			const firstCommitDate = firstCommit?.authoredDate || firstCommit?.committedDate;
+
+			result.set(prNumber, {
+				reviews,
+				additions: pr.additions,
+				deletions: pr.deletions,
+				firstCommitDate: firstCommitDate ? new Date(firstCommitDate) : null,
+				draftEvents: timelineNodes
+					.filter((node) => node !== null)
+					.map((node) => ({
+						type: node!.__typename === 'ReadyForReviewEvent' ? 'ready_for_review' : 'convert_to_draft',
+						createdAt: new Date(node!.createdAt),
+					})),
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Fetch a further page of reviews for a single PR
+	 */
+	private async fetchReviewsPage(prNumber: number, cursor: string): Promise<GraphQLReviewConnection | null> {
+		try {
+			const response = await this.octokit.graphql<{
+				repository: { pullRequest: { reviews: GraphQLReviewConnection } | null };
+			}>(REVIEWS_PAGE_QUERY, {
+				owner: this.owner,
+				repo: this.repo,
+				number: prNumber,
+				cursor,
+			});
+			return response.repository.pullRequest?.reviews || null;
+		} catch (error) {
+			console.warn(`   ⚠️  Could not fetch all reviews for PR #${prNumber}: ${describeError(error)}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Fetch a further page of draft and ready-for-review events for a single PR
+	 */
+	private async fetchTimelinePage(prNumber: number, cursor: string): Promise<GraphQLTimelineConnection | null> {
+		try {
+			const response = await this.octokit.graphql<{
+				repository: { pullRequest: { timelineItems: GraphQLTimelineConnection } | null };
+			}>(TIMELINE_PAGE_QUERY, {
+				owner: this.owner,
+				repo: this.repo,
+				number: prNumber,
+				cursor,
+			});
+			return response.repository.pullRequest?.timelineItems || null;
+		} catch (error) {
+			console.warn(`   ⚠️  Could not fetch all draft events for PR #${prNumber}: ${describeError(error)}`);
+			return null;
+		}
+	}
+
+	/**
+	 * REST fallback: reviews, inline comments and PR details for one PR
+	 */
+	private async fetchPRDetailsRest(prNumber: number): Promise<{ prNumber: number; details: PRDetails }> {
+		try {
+			// Fetch reviews, comments, PR details AND timeline in parallel
+			const [reviewsResponse, commentsResponse, prResponse, timelineResponse] = await Promise.all([
+				this.octokit.rest.pulls.listReviews({
+					owner: this.owner,
+					repo: this.repo,
+					pull_number: prNumber,
+				}),
+				this.octokit.rest.pulls.listReviewComments({
+					owner: this.owner,
+					repo: this.repo,
+					pull_number: prNumber,
+				}),
+				this.octokit.rest.pulls.get({
+					owner: this.owner,
+					repo: this.repo,
+					pull_number: prNumber,
+				}),
+				this.octokit.rest.issues.listEventsForTimeline({
+					owner: this.owner,
+					repo: this.repo,
+					issue_number: prNumber,
+					per_page: 100,
+				}),
+			]);
+
+			const reviews = toReviews(
+				prNumber,
+				reviewsResponse.data.map((r) => ({
+					author: r.user?.login || 'unknown',
+					state: r.state,
+					submittedAt: r.submitted_at || null,
+					body: r.body,
+				})),
+				commentsResponse.data.length
+			);
+
+			return {
+				prNumber,
+				details: {
+					reviews,
+					additions: prResponse.data.additions,
+					deletions: prResponse.data.deletions,
+					draftEvents: toDraftEvents(timelineResponse.data),
+				},
+			};
+		} catch (error) {
+			console.warn(`   ⚠️  Could not fetch reviews for PR #${prNumber}: ${describeError(error)}`);
+			this.incompletePRs.add(prNumber);
+			return { prNumber, details: { reviews: [], additions: 0, deletions: 0 } };
+		}
 	}
 
 	/**
@@ -284,6 +1025,192 @@ export class GitHubClient {
 		});
 	}
 
+	/**
+	 * Iterations of a Projects v2 iteration field, oldest first. Uses the
+	 * named field, or the project's first iteration field.
+	 */
+	async getProjectIterations(
+		owner: string,
+		projectNumber: number,
+		fieldName?: string
+	): Promise<{ field: string; iterations: ProjectIteration[] }> {
+		const response = await this.octokit.graphql<{
+			repositoryOwner: { projectV2?: { fields: { nodes: (GraphQLIterationField | null)[] } } | null } | null;
+		}>(PROJECT_ITERATIONS_QUERY, { owner, number: projectNumber });
+
+		const project = response.repositoryOwner?.projectV2;
+		if (!project) {
+			throw new Error(`Project ${owner}/${projectNumber} not found (the token needs read access to projects)`);
+		}
+
+		const fields = project.fields.nodes.filter((f): f is Required<GraphQLIterationField> => !!f?.name && !!f.configuration);
+		const field = fieldName
+			? fields.find((f) => f.name.toLowerCase() === fieldName.toLowerCase())
+			: fields[0];
+		if (!field) {
+			throw new Error(fieldName
+				? `Project ${owner}/${projectNumber} has no iteration field named "${fieldName}"`
+				: `Project ${owner}/${projectNumber} has no iteration field`);
+		}
+
+		const iterations = [...field.configuration.completedIterations, ...field.configuration.iterations]
+			.sort((a, b) => a.startDate.localeCompare(b.startDate));
+		return { field: field.name, iterations };
+	}
+
+	/**
+	 * PRs in each of the given iterations of a project, as owner/repo#number:
+	 * PR items, and PRs that close issue items
+	 */
+	async getIterationPullRequests(
+		owner: string,
+		projectNumber: number,
+		fieldName: string,
+		iterationIds: string[]
+	): Promise<Map<string, Set<string>>> {
+		const result = new Map(iterationIds.map((id) => [id, new Set<string>()]));
+		const key = (pr: GraphQLLinkedPR) => `${pr.repository.nameWithOwner}#${pr.number}`;
+
+		let cursor: string | null = null;
+		do {
+			const response: {
+				repositoryOwner: { projectV2?: { items: { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: GraphQLProjectItem[] } } | null } | null;
+			} = await this.octokit.graphql(PROJECT_ITEMS_QUERY, { owner, number: projectNumber, field: fieldName, cursor });
+			const items = response.repositoryOwner?.projectV2?.items;
+			if (!items) break;
+
+			for (const item of items.nodes) {
+				const linked = item.fieldValueByName?.iterationId ? result.get(item.fieldValueByName.iterationId) : undefined;
+				if (!linked || !item.content) continue;
+				if (item.content.__typename === 'PullRequest') {
+					linked.add(key(item.content));
+				} else if (item.content.__typename === 'Issue') {
+					for (const pr of item.content.closedByPullRequestsReferences.nodes) {
+						if (pr) linked.add(key(pr));
+					}
+				}
+			}
+			cursor = items.pageInfo.hasNextPage ? items.pageInfo.endCursor : null;
+		} while (cursor);
+
+		return result;
+	}
+
+	/**
+	 * Open and closed milestones of the repository
+	 */
+	async getMilestones(): Promise<Milestone[]> {
+		const milestones = await this.octokit.paginate(this.octokit.rest.issues.listMilestones, {
+			owner: this.owner,
+			repo: this.repo,
+			state: 'all',
+			per_page: 100,
+		});
+		return milestones.map((m) => ({
+			number: m.number,
+			title: m.title,
+			createdAt: new Date(m.created_at),
+			dueOn: m.due_on ? new Date(m.due_on) : null,
+		}));
+	}
+
+	/**
+	 * Numbers of the PRs assigned to a milestone
+	 */
+	async getMilestonePullRequests(milestoneNumber: number): Promise<number[]> {
+		const items = await this.octokit.paginate(this.octokit.rest.issues.listForRepo, {
+			owner: this.owner,
+			repo: this.repo,
+			milestone: String(milestoneNumber),
+			state: 'all',
+			per_page: 100,
+		});
+		return items.filter((item) => item.pull_request).map((item) => item.number);
+	}
+
+	/**
+	 * Read a file from the repository, or null if it does not exist
+	 */
+	async getFileContent(path: string, ref?: string): Promise<{ content: string; sha: string } | null> {
+		try {
+			const response = await this.octokit.rest.repos.getContent({
+				owner: this.owner,
+				repo: this.repo,
+				path,
+				ref,
+			});
+			const file = response.data;
+			if (Array.isArray(file) || file.type !== 'file' || !('content' in file)) {
+				return null;
+			}
+			return { content: Buffer.from(file.content, 'base64').toString('utf-8'), sha: file.sha };
+		} catch (error) {
+			if ((error as { status?: number }).status === 404) return null;
+			throw error;
+		}
+	}
+
+	/**
+	 * Names of the files in a repository directory (empty if it does not exist)
+	 */
+	async listDirectory(path: string, ref?: string): Promise<string[]> {
+		try {
+			const response = await this.octokit.rest.repos.getContent({
+				owner: this.owner,
+				repo: this.repo,
+				path,
+				ref,
+			});
+			if (!Array.isArray(response.data)) return [];
+			return response.data.filter((entry) => entry.type === 'file').map((entry) => entry.name);
+		} catch (error) {
+			if ((error as { status?: number }).status === 404) return [];
+			throw error;
+		}
+	}
+
+	/**
+	 * Create or update a file; pass the current sha when updating
+	 */
+	async writeFile(path: string, content: string, message: string, branch?: string, sha?: string): Promise<void> {
+		await this.octokit.rest.repos.createOrUpdateFileContents({
+			owner: this.owner,
+			repo: this.repo,
+			path,
+			message,
+			content: Buffer.from(content, 'utf-8').toString('base64'),
+			branch,
+			sha,
+		});
+	}
+
+	/**
+	 * Create a branch with no history if it does not exist yet, so data
+	 * branches don't carry a copy of the code
+	 */
+	async ensureBranch(branch: string): Promise<void> {
+		try {
+			await this.octokit.rest.git.getRef({ owner: this.owner, repo: this.repo, ref: `heads/${branch}` });
+			return;
+		} catch (error) {
+			if ((error as { status?: number }).status !== 404) throw error;
+		}
+
+		const commit = await this.octokit.rest.git.createCommit({
+			owner: this.owner,
+			repo: this.repo,
+			message: `Create ${branch}`,
+			tree: EMPTY_TREE_SHA,
+			parents: [],
+		});
+		await this.octokit.rest.git.createRef({
+			owner: this.owner,
+			repo: this.repo,
+			ref: `refs/heads/${branch}`,
+			sha: commit.data.sha,
+		});
+	}
+
 	/**
 	 * Get PR size details (additions + deletions) for multiple PRs
 	 */
@@ -302,7 +1229,8 @@ export class GitHubClient {
 					additions: response.data.additions,
 					deletions: response.data.deletions,
 				};
-			} catch {
+			} catch (error) {
+				console.warn(`   ⚠️  Could not fetch size for PR #${prNumber}: ${describeError(error)}`);
 				return { prNumber, additions: 0, deletions: 0 };
 			}
 		};
@@ -316,16 +1244,20 @@ export class GitHubClient {
 	}
 
 	/**
-	 * Get workflow run summary for a date range.
+	 * Get workflow run summary for a date range, in whole days of the timezone.
 	 * Caps at 5 pages (500 runs) to avoid slow pagination on active repos.
 	 */
 	async getWorkflowRuns(
 		startDate: Date,
 		endDate: Date,
-		workflowFilter?: string
+		workflowFilter?: string,
+		timezone = 'UTC'
 	): Promise<WorkflowRunSummary | null> {
 		try {
-			const created = `${startDate.toISOString().split('T')[0]}..${endDate.toISOString().split('T')[0]}`;
+			const created = formatSearchRange(
+				startOfLocalDay(localDate(startDate, timezone), timezone),
+				endOfLocalDay(localDate(endDate, timezone), timezone)
+			);
 
 			const params = {
 				owner: this.owner,
@@ -369,7 +1301,8 @@ export class GitHubClient {
 				successCount,
 				failureCount,
 			};
-		} catch {
+		} catch (error) {
+			console.warn(`   ⚠️  Could not fetch workflow runs: ${describeError(error)}`);
 			return null;
 		}
 	}
@@ -413,11 +1346,76 @@ export class GitHubClient {
 			}
 
 			return results;
-		} catch {
+		} catch (error) {
+			console.warn(`   ⚠️  Could not fetch deployments: ${describeError(error)}`);
 			return [];
 		}
 	}
 
+	/**
+	 * The latest status of each deployment (statuses are listed newest
+	 * first). Deployments whose statuses can't be read are left out.
+	 */
+	async getDeploymentStates(deploymentIds: number[]): Promise<Map<number, string>> {
+		const fetchState = async (deploymentId: number) => {
+			try {
+				const response = await this.octokit.rest.repos.listDeploymentStatuses({
+					owner: this.owner,
+					repo: this.repo,
+					deployment_id: deploymentId,
+					per_page: 1,
+				});
+				return { deploymentId, state: response.data[0]?.state as string | undefined };
+			} catch (error) {
+				console.warn(`   ⚠️  Could not fetch statuses for deployment ${deploymentId}: ${describeError(error)}`);
+				return { deploymentId, state: undefined };
+			}
+		};
+
+		const states = new Map<number, string>();
+		for (const { deploymentId, state } of await runWithConcurrency(deploymentIds, fetchState, CONCURRENCY_LIMIT)) {
+			if (state) states.set(deploymentId, state);
+		}
+		return states;
+	}
+
+	/**
+	 * Issues with any of the labels that were closed within the date
+	 * range. Labels are queried one at a time, as the API requires all
+	 * of them. Throws when a label's issues can't be listed, as a partial
+	 * list would understate time to restore.
+	 */
+	async getIncidents(startDate: Date, endDate: Date, labels: string[]): Promise<Incident[]> {
+		const byNumber = new Map<number, Incident>();
+		for (const label of labels) {
+			try {
+				const items = await this.octokit.paginate(this.octokit.rest.issues.listForRepo, {
+					owner: this.owner,
+					repo: this.repo,
+					labels: label,
+					state: 'closed',
+					// Closing updates an issue, so this keeps every candidate
+					since: startDate.toISOString(),
+					per_page: 100,
+				});
+				for (const item of items) {
+					if (item.pull_request || !item.closed_at) continue;
+					const closedAt = new Date(item.closed_at);
+					if (closedAt < startDate || closedAt > endDate) continue;
+					byNumber.set(item.number, {
+						number: item.number,
+						title: item.title,
+						openedAt: new Date(item.created_at),
+						closedAt,
+					});
+				}
+			} catch (error) {
+				throw new Error(`could not list issues labelled ${label}: ${describeError(error)}`);
+			}
+		}
+		return [...byNumber.values()];
+	}
+
 	/**
 	 * Get releases within a date range (excludes drafts).
 	 * Uses iterator with early termination — stops once we pass startDate.
@@ -456,17 +1454,108 @@ export class GitHubClient {
 			}
 
 			return results;
-		} catch {
+		} catch (error) {
+			console.warn(`   ⚠️  Could not fetch releases: ${describeError(error)}`);
 			return [];
 		}
 	}
 
 	/**
-	 * Get the date of the first commit for each PR
+	 * The latest published releases, newest first (no drafts or prereleases)
+	 */
+	async getLatestReleases(count: number): Promise<ReleaseTag[]> {
+		const results: ReleaseTag[] = [];
+		const iterator = this.octokit.paginate.iterator(this.octokit.rest.repos.listReleases, {
+			owner: this.owner,
+			repo: this.repo,
+			per_page: 100,
+		});
+
+		for await (const response of iterator) {
+			for (const r of response.data) {
+				if (r.draft || r.prerelease || !r.published_at) continue;
+				results.push({ tag: r.tag_name, publishedAt: new Date(r.published_at) });
+			}
+			if (results.length >= count) break;
+		}
+
+		return results
+			.sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+			.slice(0, count);
+	}
+
+	/**
+	 * Commits in head that are not in base (tags, branches or SHAs)
+	 */
+	async compareRefs(base: string, head: string): Promise<CommitRange> {
+		const perPage = 100;
+		const shas = new Set<string>();
+		let mergeBaseDate: Date | null = null;
+		let headDate: Date | null = null;
+		for (let page = 1; ; page++) {
+			const response = await this.octokit.rest.repos.compareCommitsWithBasehead({
+				owner: this.owner,
+				repo: this.repo,
+				basehead: `${base}...${head}`,
+				per_page: perPage,
+				page,
+			});
+			const { commits, merge_base_commit: mergeBase } = response.data;
+			mergeBaseDate ??= commitDate(mergeBase.commit);
+			for (const c of commits) {
+				shas.add(c.sha);
+				headDate = commitDate(c.commit);
+			}
+			if (commits.length < perPage) break;
+		}
+		return { mergeBaseDate: mergeBaseDate!, headDate: headDate || mergeBaseDate!, shas };
+	}
+
+	/**
+	 * Merge commit SHA of each merged PR (PRs without one are left out)
+	 */
+	async getMergeCommitShas(prNumbers: number[]): Promise<Map<number, string>> {
+		const result = new Map<number, string>();
+		const batches = chunk(prNumbers, MERGE_COMMIT_BATCH_SIZE);
+		await runWithConcurrency(batches, async (batch) => {
+			try {
+				const response = await this.octokit.graphql<{
+					repository: Record<string, { mergeCommit: { oid: string } | null } | null>;
+				}>(buildMergeCommitQuery(batch), { owner: this.owner, repo: this.repo });
+				for (const n of batch) {
+					const oid = response.repository[`pr${n}`]?.mergeCommit?.oid;
+					if (oid) result.set(n, oid);
+				}
+			} catch (error) {
+				console.warn(`   ⚠️  GraphQL merge commit lookup failed (${describeError(error)}), falling back to REST for ${batch.length} PRs`);
+				await runWithConcurrency(batch, async (n) => {
+					const { data } = await this.octokit.rest.pulls.get({ owner: this.owner, repo: this.repo, pull_number: n });
+					if (data.merge_commit_sha) result.set(n, data.merge_commit_sha);
+				}, CONCURRENCY_LIMIT);
+			}
+		}, GRAPHQL_CONCURRENCY);
+		return result;
+	}
+
+	/**
+	 * Get the date of the first commit for each PR.
+	 * Reuses dates already fetched by getReviewsAndSizes; only PRs
+	 * without one are looked up via REST.
 	 */
 	async getFirstCommitDates(prNumbers: number[]): Promise<Map<number, Date>> {
 		const result = new Map<number, Date>();
 
+		const details = await this.getPRDetailsBatch(prNumbers);
+		const unfetched: number[] = [];
+		for (const prNumber of prNumbers) {
+			const date = details.get(prNumber)?.firstCommitDate;
+			if (date) {
+				result.set(prNumber, date);
+			} else if (date === undefined) {
+				unfetched.push(prNumber);
+			}
+		}
+
 		const fetchFirstCommit = async (prNumber: number) => {
 			try {
 				const response = await this.octokit.rest.pulls.listCommits({
@@ -483,13 +1572,18 @@ export class GitHubClient {
 					}
 				}
 				return { prNumber, date: null };
-			} catch {
-				return { prNumber, date: null };
+			} catch (error) {
+				console.warn(`   ⚠️  Could not fetch first commit for PR #${prNumber}: ${describeError(error)}`);
+				return { prNumber, date: undefined };
 			}
 		};
 
-		const results = await runWithConcurrency(prNumbers, fetchFirstCommit, CONCURRENCY_LIMIT);
+		const results = await runWithConcurrency(unfetched, fetchFirstCommit, CONCURRENCY_LIMIT);
 		for (const { prNumber, date } of results) {
+			const fetched = details.get(prNumber);
+			if (fetched && date !== undefined) {
+				fetched.firstCommitDate = date;
+			}
 			if (date) {
 				result.set(prNumber, date);
 			}
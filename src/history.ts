@@ -0,0 +1,124 @@
+/**
+ * Metrics history
+ *
+ * Keeps one JSON snapshot of each run's SprintMetrics in the repository
+ * (on a dedicated data branch, or a directory on the default branch),
+ * written through the contents API. Later runs read the latest snapshots
+ * back for comparisons and charts without re-querying historical PRs.
+ */
+
+import type { GitHubClient } from './github-client';
+import type { SprintMetrics } from './metrics';
+
+// Bump when the snapshot shape changes; other versions are skipped on load
+export const HISTORY_SCHEMA_VERSION = 1;
+
+// One snapshot per period end date, so re-runs overwrite the same file
+const SNAPSHOT_FILE = /^\d{4}-\d{2}-\d{2}\.json$/;
+
+export interface HistoryConfig {
+	// Data branch; the default branch when unset
+	branch?: string;
+	// Directory holding the snapshots
+	path: string;
+	// Number of previous snapshots to load
+	limit: number;
+}
+
+export interface HistorySnapshot {
+	schemaVersion: number;
+	generatedAt: string;
+	repositories: string[];
+	periodStart: string;
+	periodEnd: string;
+	sprintLengthDays: number;
+	metrics: SprintMetrics;
+}
+
+export class MetricsHistory {
+	private client: GitHubClient;
+	private config: HistoryConfig;
+
+	constructor(client: GitHubClient, config: HistoryConfig) {
+		this.client = client;
+		this.config = config;
+	}
+
+	/**
+	 * Load up to `limit` snapshots for periods ending before `periodEnd`,
+	 * oldest first
+	 */
+	async load(periodEnd: Date): Promise<HistorySnapshot[]> {
+		const current = snapshotFileName(periodEnd);
+		const names = (await this.client.listDirectory(this.config.path, this.config.branch))
+			.filter((name) => SNAPSHOT_FILE.test(name) && name < current)
+			.sort()
+			.slice(-this.config.limit);
+
+		const snapshots: HistorySnapshot[] = [];
+		for (const name of names) {
+			const file = await this.client.getFileContent(`${this.config.path}/${name}`, this.config.branch);
+			if (!file) continue;
+			try {
+				const snapshot = JSON.parse(file.content) as HistorySnapshot;
+				if (snapshot.schemaVersion === HISTORY_SCHEMA_VERSION) {
+					snapshots.push(snapshot);
+				}
+			} catch (error) {
+				console.warn(`   ⚠️  Ignoring unreadable history snapshot ${name}: ${error}`);
+			}
+		}
+		return snapshots;
+	}
+
+	/**
+	 * Write a snapshot, replacing an earlier one for the same period end
+	 */
+	async save(snapshot: HistorySnapshot): Promise<void> {
+		if (this.config.branch) {
+			await this.client.ensureBranch(this.config.branch);
+		}
+
+		const filePath = `${this.config.path}/${snapshotFileName(new Date(snapshot.periodEnd))}`;
+		const existing = await this.client.getFileContent(filePath, this.config.branch);
+		await this.client.writeFile(
+			filePath,
+			JSON.stringify(snapshot, null, 2) + '\n',
+			`Record PR metrics for ${snapshot.periodStart.split('T')[0]} – ${snapshot.periodEnd.split('T')[0]}`,
+			this.config.branch,
+			existing?.sha
+		);
+	}
+}
+
+export function createSnapshot(
+	repositories: string[],
+	periodStart: Date,
+	periodEnd: Date,
+	sprintLengthDays: number,
+	metrics: SprintMetrics
+): HistorySnapshot {
+	return {
+		schemaVersion: HISTORY_SCHEMA_VERSION,
+		generatedAt: new Date().toISOString(),
+		repositories,
+		periodStart: periodStart.toISOString(),
+		periodEnd: periodEnd.toISOString(),
+		sprintLengthDays,
+		metrics,
+	};
+}
+
+/**
+ * The latest snapshot of a whole period ending on or before `periodStart`,
+ * i.e. the previous sprint rather than an earlier run of this one
+ */
+export function findPreviousSnapshot(snapshots: HistorySnapshot[], periodStart: Date): HistorySnapshot | null {
+	const cutoff = snapshotFileName(periodStart);
+	const earlier = snapshots.filter((s) => snapshotFileName(new Date(s.periodEnd)) <= cutoff);
+	return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+}
+
+function snapshotFileName(periodEnd: Date): string {
+	return `${periodEnd.toISOString().split('T')[0]}.json`;
+}
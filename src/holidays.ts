@@ -0,0 +1,111 @@
+/**
+ * Holiday calendars
+ *
+ * Reads company holidays and shutdown weeks from the holidays input:
+ * dates (2025-12-25), date ranges (2025-12-24..2026-01-01) and paths to
+ * iCalendar (.ics) files, whose all-day events are taken as days off.
+ * Timed events (a meeting, an offsite afternoon) are ignored, so a shared
+ * team calendar doesn't take whole working days out of the metrics.
+ */
+
+import * as fs from 'fs';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse the holidays input into sorted, de-duplicated YYYY-MM-DD dates
+ */
+export function loadHolidays(input: string, readFile: (path: string) => string = readTextFile): string[] {
+	const dates = new Set<string>();
+	for (const entry of input.split(/[\s,]+/).filter(Boolean)) {
+		if (entry.toLowerCase().endsWith('.ics')) {
+			parseICalendar(readFile(entry)).forEach((date) => dates.add(date));
+		} else {
+			parseDateEntry(entry).forEach((date) => dates.add(date));
+		}
+	}
+	return [...dates].sort();
+}
+
+/**
+ * Days covered by the all-day events in an iCalendar file (DTEND is
+ * exclusive). Timed events are skipped and recurrence rules are not
+ * expanded.
+ */
+export function parseICalendar(text: string): string[] {
+	// Unfold continuation lines (RFC 5545 §3.1)
+	const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+	const dates: string[] = [];
+	let start: { date: string; allDay: boolean } | null = null;
+	let end: { date: string; allDay: boolean } | null = null;
+	let inEvent = false;
+	for (const line of lines) {
+		const upper = line.toUpperCase();
+		if (upper === 'BEGIN:VEVENT') {
+			inEvent = true;
+			start = null;
+			end = null;
+		} else if (upper === 'END:VEVENT') {
+			if (start?.allDay) {
+				dates.push(...eventDates(start.date, end?.allDay ? end.date : null));
+			}
+			inEvent = false;
+		} else if (inEvent && (upper.startsWith('DTSTART') || upper.startsWith('DTEND'))) {
+			const value = parseICalendarDate(line);
+			if (value && upper.startsWith('DTSTART')) start = value;
+			if (value && upper.startsWith('DTEND')) end = value;
+		}
+	}
+	return dates;
+}
+
+function eventDates(start: string, end: string | null): string[] {
+	if (!end) return [start];
+	// DTEND is the day after the last day off
+	const last = addDays(end, -1);
+	return dateRange(start, last < start ? start : last);
+}
+
+/**
+ * "DTSTART;VALUE=DATE:20251225" (all day) or "DTSTART;TZID=…:20251225T090000"
+ */
+function parseICalendarDate(line: string): { date: string; allDay: boolean } | null {
+	const value = line.slice(line.indexOf(':') + 1).trim();
+	const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+	if (!match) return null;
+	return { date: `${match[1]}-${match[2]}-${match[3]}`, allDay: !match[4] };
+}
+
+function parseDateEntry(entry: string): string[] {
+	const [from, to = from, ...rest] = entry.split('..');
+	if (rest.length > 0 || !isDate(from) || !isDate(to) || to < from) {
+		throw new Error(`Invalid holidays entry "${entry}". Expected YYYY-MM-DD, YYYY-MM-DD..YYYY-MM-DD or a path to an .ics file`);
+	}
+	return dateRange(from, to);
+}
+
+function isDate(value: string): boolean {
+	return DATE.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+function dateRange(from: string, to: string): string[] {
+	const dates: string[] = [];
+	for (let date = from; date <= to; date = addDays(date, 1)) {
+		dates.push(date);
+	}
+	return dates;
+}
+
+function addDays(date: string, days: number): string {
+	return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+function readTextFile(filePath: string): string {
+	try {
+		return fs.readFileSync(filePath, 'utf-8');
+	} catch (error) {
+		throw new Error(`Could not read holiday calendar ${filePath}: ${error}`);
+	}
+}
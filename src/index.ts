@@ -12,6 +12,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { run } from './action';
+import { ConfigValidationError } from './config';
 
 // Detect if running as GitHub Action or standalone
 const isGitHubAction = !!process.env.GITHUB_ACTIONS;
@@ -19,7 +20,8 @@ const isGitHubAction = !!process.env.GITHUB_ACTIONS;
 if (isGitHubAction) {
 	// Running as GitHub Action
 	run().catch((error) => {
-		console.error('Action failed:', error);
+		// The problem list reads better than a stack trace
+		console.error('Action failed:', error instanceof ConfigValidationError ? error.message : error);
 		process.exit(1);
 	});
 } else {
@@ -41,14 +43,16 @@ if (isGitHubAction) {
 
 	console.log('🔧 Running in development mode\n');
 
-	// Validate required env vars
-	if (!process.env.GITHUB_TOKEN) {
+	// Validate required env vars (a replay needs neither)
+	const isReplay = !!process.env.INPUT_REPLAY_PATH;
+
+	if (!process.env.GITHUB_TOKEN && !isReplay) {
 		console.error('❌ GITHUB_TOKEN environment variable required');
 		console.error('   Get one at: https://github.com/settings/tokens');
 		process.exit(1);
 	}
 
-	if (!process.env.GITHUB_REPOSITORY) {
+	if (!process.env.GITHUB_REPOSITORY && !isReplay) {
 		console.error('❌ GITHUB_REPOSITORY environment variable required');
 		console.error('   Format: owner/repo (e.g., octocat/hello-world)');
 		process.exit(1);
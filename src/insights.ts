@@ -5,11 +5,11 @@
  * insight teasers for the health card.
  */
 
-import { SprintMetrics } from './metrics';
+import { CYCLE_TIME_PHASES, CycleTimePhase, SprintMetrics, formatDuration } from './metrics';
 import { Thresholds } from './config';
 
 export interface Insight {
-	type: 'knowledge-silo' | 'cycle-time-regression' | 'wip-overload' | 'review-bottleneck' | 'shallow-reviews' | 'large-prs' | 'build-failures' | 'slow-lead-time';
+	type: 'knowledge-silo' | 'cycle-time-regression' | 'wip-overload' | 'review-bottleneck' | 'shallow-reviews' | 'large-prs' | 'build-failures' | 'slow-lead-time' | 'infrequent-shipping' | 'cycle-time-bottleneck';
 	severity: 'info' | 'warning' | 'critical';
 	message: string;
 }
@@ -32,18 +32,44 @@ export function detectInsights(metrics: SprintMetrics, thresholds: Thresholds):
 		});
 	}
 
-	// Cycle time detection
-	if (metrics.cycleTimeMedianHours >= thresholds.cycleTimeCriticalHours) {
+	// Durations are wall-clock or business hours depending on the calendar
+	const perDay = metrics.workingHoursPerDay;
+	const hoursLabel = perDay ? 'business hours' : 'hours';
+	const daysLabel = perDay ? 'working days' : 'days';
+
+	// Cycle time detection: name the bottleneck phase when one dominates
+	const bottleneck = findBottleneckPhase(metrics);
+	const cycleTime = metrics.cycleTimeMedianHours ?? 0;
+	const cycleTimeSeverity = cycleTime >= thresholds.cycleTimeCriticalHours
+		? 'critical'
+		: cycleTime >= thresholds.cycleTimeWarningHours ? 'warning' : null;
+
+	if (bottleneck) {
+		insights.push({
+			type: 'cycle-time-bottleneck',
+			severity: cycleTimeSeverity || 'info',
+			message: `${PHASE_DESCRIPTIONS[bottleneck.phase]} (median ${formatDuration(bottleneck.medianHours, perDay)}) — ${Math.round(bottleneck.share * 100)}% of cycle time`,
+		});
+	} else if (cycleTimeSeverity === 'critical') {
 		insights.push({
 			type: 'cycle-time-regression',
 			severity: 'critical',
-			message: `Cycle time at ${Math.round(metrics.cycleTimeMedianHours / 24)} days — significant delivery bottleneck`,
+			message: `Cycle time at ${Math.round(cycleTime / (perDay || 24))} ${daysLabel} — significant delivery bottleneck`,
+		});
+	} else if (cycleTimeSeverity === 'warning') {
+		insights.push({
+			type: 'cycle-time-regression',
+			severity: 'warning',
+			message: `Cycle time at ${Math.round(cycleTime)} ${hoursLabel} — above warning threshold`,
 		});
-	} else if (metrics.cycleTimeMedianHours >= thresholds.cycleTimeWarningHours) {
+	}
+
+	// Significant slowdown against the previous period, even below thresholds
+	if (!cycleTimeSeverity && metrics.cycleTimeTrend === 'degrading' && metrics.previousCycleTimeMedianHours) {
 		insights.push({
 			type: 'cycle-time-regression',
 			severity: 'warning',
-			message: `Cycle time at ${Math.round(metrics.cycleTimeMedianHours)} hours — above warning threshold`,
+			message: `Cycle time rose from ${formatDuration(metrics.previousCycleTimeMedianHours, perDay)} to ${formatDuration(cycleTime, perDay)} since last period`,
 		});
 	}
 
@@ -67,13 +93,14 @@ export function detectInsights(metrics: SprintMetrics, thresholds: Thresholds):
 	}
 
 	// Review bottleneck detection
-	if (metrics.reviewTurnaroundMedianHours >= thresholds.reviewCriticalHours) {
+	const reviewTurnaround = metrics.reviewTurnaroundMedianHours ?? 0;
+	if (reviewTurnaround >= thresholds.reviewCriticalHours) {
 		insights.push({
 			type: 'review-bottleneck',
 			severity: 'critical',
-			message: `Reviews taking ${Math.round(metrics.reviewTurnaroundMedianHours)} hours on average — blocking delivery`,
+			message: `Reviews taking ${Math.round(reviewTurnaround)} ${hoursLabel} on average — blocking delivery`,
 		});
-	} else if (metrics.reviewTurnaroundMedianHours >= thresholds.reviewWarningHours) {
+	} else if (reviewTurnaround >= thresholds.reviewWarningHours) {
 		insights.push({
 			type: 'review-bottleneck',
 			severity: 'warning',
@@ -127,11 +154,33 @@ export function detectInsights(metrics: SprintMetrics, thresholds: Thresholds):
 	}
 
 	// Slow lead time detection
-	if (metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= 168) {
+	if (metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= thresholds.leadTimeCriticalHours) {
+		insights.push({
+			type: 'slow-lead-time',
+			severity: 'critical',
+			message: `Lead time at ${Math.round(metrics.leadTimeMedianHours / (perDay || 24))} ${daysLabel} — changes wait too long to reach users`,
+		});
+	} else if (metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= thresholds.leadTimeWarningHours) {
 		insights.push({
 			type: 'slow-lead-time',
 			severity: 'warning',
-			message: `Lead time at ${Math.round(metrics.leadTimeMedianHours / 24)} days — significant deployment lag`,
+			message: `Lead time at ${Math.round(metrics.leadTimeMedianHours / (perDay || 24))} ${daysLabel} — significant deployment lag`,
+		});
+	}
+
+	// Infrequent shipping detection
+	const shipsPerWeek = metrics.shipFrequency !== null ? metrics.shipFrequency * 7 : null;
+	if (shipsPerWeek !== null && shipsPerWeek < thresholds.shipFrequencyCriticalPerWeek) {
+		insights.push({
+			type: 'infrequent-shipping',
+			severity: 'critical',
+			message: `Shipping ${formatPerWeek(shipsPerWeek)} — large batches are piling up between releases`,
+		});
+	} else if (shipsPerWeek !== null && shipsPerWeek < thresholds.shipFrequencyWarningPerWeek) {
+		insights.push({
+			type: 'infrequent-shipping',
+			severity: 'warning',
+			message: `Shipping ${formatPerWeek(shipsPerWeek)} — less often than the team's target`,
 		});
 	}
 
@@ -143,28 +192,65 @@ export function detectInsights(metrics: SprintMetrics, thresholds: Thresholds):
 	return insights.slice(0, 1);
 }
 
+const PHASE_DESCRIPTIONS: Record<CycleTimePhase, string> = {
+	coding: 'Most time is spent coding before the PR opens',
+	pickup: 'PRs wait longest for a first review',
+	review: 'Review rounds are the slowest phase',
+	merge: 'Approved PRs wait longest to be merged',
+};
+
+/**
+ * The phase holding at least half of the summed phase medians, if any
+ * (needs at least two measured phases to compare)
+ */
+function findBottleneckPhase(
+	metrics: SprintMetrics
+): { phase: CycleTimePhase; medianHours: number; share: number } | null {
+	const measured = CYCLE_TIME_PHASES
+		.map((phase) => ({ phase, stats: metrics.cycleTimePhases?.[phase] }))
+		.filter((p) => p.stats);
+	if (measured.length < 2) return null;
+
+	const total = measured.reduce((sum, p) => sum + p.stats!.medianHours, 0);
+	if (total <= 0) return null;
+
+	const dominant = measured.reduce((a, b) => (b.stats!.medianHours > a.stats!.medianHours ? b : a));
+	const share = dominant.stats!.medianHours / total;
+	return share >= 0.5 ? { phase: dominant.phase, medianHours: dominant.stats!.medianHours, share } : null;
+}
+
+function formatPerWeek(perWeek: number): string {
+	return `${perWeek.toFixed(1)} times a week`;
+}
+
 /**
  * Get emoji for health status
  */
-export function getHealthEmoji(metrics: SprintMetrics, thresholds: Thresholds): string {
-	// Overall health based on cycle time and WIP
+export function getHealthEmoji(metrics: SprintMetrics, thresholds: Thresholds, includeShipFrequency = false): string {
+	// Overall health based on cycle time, WIP, builds and delivery (ship
+	// frequency only when the team has set its cadence)
 	const wipRatio = metrics.collaboratorCount > 0
 		? metrics.wipCount / metrics.collaboratorCount
 		: 0;
+	const shipsPerWeek = includeShipFrequency && metrics.shipFrequency !== null ? metrics.shipFrequency * 7 : null;
 
 	if (
-		metrics.cycleTimeMedianHours >= thresholds.cycleTimeCriticalHours ||
+		(metrics.cycleTimeMedianHours ?? 0) >= thresholds.cycleTimeCriticalHours ||
 		wipRatio >= thresholds.wipCriticalRatio ||
-		(metrics.buildSuccessRate !== null && metrics.buildSuccessRate < thresholds.buildSuccessCritical)
+		(metrics.buildSuccessRate !== null && metrics.buildSuccessRate < thresholds.buildSuccessCritical) ||
+		(metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= thresholds.leadTimeCriticalHours) ||
+		(shipsPerWeek !== null && shipsPerWeek < thresholds.shipFrequencyCriticalPerWeek)
 	) {
 		return '🔴';
 	}
 
 	if (
-		metrics.cycleTimeMedianHours >= thresholds.cycleTimeWarningHours ||
+		(metrics.cycleTimeMedianHours ?? 0) >= thresholds.cycleTimeWarningHours ||
 		wipRatio >= thresholds.wipWarningRatio ||
 		metrics.concentrationRatio >= thresholds.concentrationWarning ||
-		(metrics.buildSuccessRate !== null && metrics.buildSuccessRate < thresholds.buildSuccessWarning)
+		(metrics.buildSuccessRate !== null && metrics.buildSuccessRate < thresholds.buildSuccessWarning) ||
+		(metrics.leadTimeMedianHours !== null && metrics.leadTimeMedianHours >= thresholds.leadTimeWarningHours) ||
+		(shipsPerWeek !== null && shipsPerWeek < thresholds.shipFrequencyWarningPerWeek)
 	) {
 		return '🟡';
 	}
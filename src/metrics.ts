@@ -4,15 +4,22 @@
  * Computes sprint health metrics from PR and review data.
  */
 
-import { PullRequest, Review, WorkflowRunSummary, ShipEvent } from './github-client';
+import { PullRequest, Review, WorkflowRunSummary, ShipEvent, DraftEvent, Incident } from './github-client';
+import { WorkingCalendar, isAroundTheClock, workingHoursBetween, workingHoursPerDay } from './working-time';
 
 export interface SprintMetrics {
 	// Delivery
-	cycleTimeMedianHours: number;
+	// Null without merged PRs
+	cycleTimeMedianHours: number | null;
 	cycleTimeP90Hours: number;
+	cycleTimePhases: CycleTimePhases;
 	throughputCount: number;
 	wipCount: number;
 
+	// Draft: time merged PRs spent as drafts, among those that were ever drafts
+	draftTimeMedianHours: number | null;
+	draftPRCount: number;
+
 	// PR Size
 	prSizeMedian: number | null;
 	prSizeCategory: 'small' | 'medium' | 'large' | null;
@@ -28,53 +35,280 @@ export interface SprintMetrics {
 
 	// Lead Time
 	leadTimeMedianHours: number | null;
+	// The same in wall-clock hours, set when durations are business hours
+	// (DORA bands are wall-clock)
+	leadTimeWallClockHours?: number | null;
+
+	// Change failure: share of merged PRs that were reverts, hotfixes or
+	// shipped by a failed deployment (percent), null without merged PRs
+	changeFailureRate: number | null;
+	// Merged PRs counted as failed, each once
+	failedChangeCount: number;
+	failedChanges: FailedChange[];
+
+	// Time to restore: incident issues opened → closed, and failed
+	// deployments → the next successful one to the same environment
+	timeToRestoreMedianHours: number | null;
+	// The same in wall-clock hours, set when durations are business hours
+	timeToRestoreWallClockHours?: number | null;
+	// Incidents restored in the period
+	incidentCount: number;
+	// Set instead of a time to restore when the incident issues could not
+	// be listed
+	timeToRestoreError?: string;
 
 	// Collaboration
-	reviewTurnaroundMedianHours: number;
+	// Null when no PR in the period had a review
+	reviewTurnaroundMedianHours: number | null;
 	collaboratorCount: number;
 	concentrationRatio: number; // Highest contributor's share (0-1)
 	reviewDepthScore: number; // Average comments per PR (0 = rubber stamps)
 
+	// Set when durations are in business hours: the length of a working
+	// day. Null for wall-clock hours.
+	workingHoursPerDay: number | null;
+	// Holidays in the period, skipped by durations and ship frequency
+	nonWorkingDays: number;
+
 	// Derived
+	// Compared with the previous period; 'stable' unless the shift in
+	// cycle times is statistically significant and at least 10%
 	cycleTimeTrend: 'improving' | 'stable' | 'degrading';
+	previousCycleTimeMedianHours: number | null;
+	prNumbers: number[];
+}
+
+/**
+ * A sign that a change failed in production, with the PRs to look at
+ */
+export interface FailedChange {
+	kind: 'revert' | 'hotfix' | 'failed-deployment';
+	// The revert and the PR it reverted, the hotfix, or the PRs a failed
+	// deployment shipped
 	prNumbers: number[];
+	// PR title, or the environment a deployment failed in
+	title: string;
+	at: Date;
+	// owner/repo, set when repositories are combined
+	repository?: string;
+}
+
+export type CycleTimePhase = 'coding' | 'pickup' | 'review' | 'merge';
+
+export interface PhaseStats {
+	medianHours: number;
+	p90Hours: number;
+	// PRs the phase could be measured for
+	count: number;
+}
+
+/**
+ * Cycle time split into phases, null where no PR had the data:
+ * coding (first commit → cycle time start), pickup (start → first non-author review),
+ * review (first review → final approval), merge (approval → merge)
+ */
+export type CycleTimePhases = Record<CycleTimePhase, PhaseStats | null>;
+
+export const CYCLE_TIME_PHASES: CycleTimePhase[] = ['coding', 'pickup', 'review', 'merge'];
+
+/**
+ * Where cycle time starts: when the PR was opened, or when it was first
+ * marked ready for review (excluding time spent as a draft)
+ */
+export type CycleTimeStart = 'created' | 'ready';
+
+/**
+ * Key for per-PR maps: the PR number within one repository, or
+ * "owner/repo#number" once PRs from several repositories are combined
+ */
+export type PRKey = number | string;
+
+export function prKey(pr: { number: number; repository?: string }): PRKey {
+	return pr.repository ? `${pr.repository}#${pr.number}` : pr.number;
 }
 
 export interface MetricsOptions {
-	prSizes?: Map<number, { additions: number; deletions: number }>;
+	prSizes?: Map<PRKey, { additions: number; deletions: number }>;
 	workflowRuns?: WorkflowRunSummary | null;
 	shipEvents?: ShipEvent[];
-	firstCommitDates?: Map<number, Date>;
+	firstCommitDates?: Map<PRKey, Date>;
+	draftEvents?: Map<PRKey, DraftEvent[]>;
+	cycleTimeStart?: CycleTimeStart;
+	// Measure durations in business hours on this calendar
+	workingCalendar?: WorkingCalendar;
 	periodDays?: number;
+	// Holidays within periodDays
+	nonWorkingDays?: number;
+	// PRs merged in the equivalent window before this period, for the trend
+	previousPullRequests?: PullRequest[];
+	previousDraftEvents?: Map<PRKey, DraftEvent[]>;
+	// Labels marking a merged PR as a hotfix for a failed change
+	hotfixLabels?: string[];
+	// Incident issues closed in the period, for time to restore
+	incidents?: Incident[];
+	// Why the incident issues could not be listed
+	incidentError?: string | null;
+	// Deployments shortly before the period, for outages already open at
+	// its start
+	priorDeployments?: ShipEvent[];
+}
+
+/**
+ * Everything fetched for one repository
+ */
+export interface RepositoryData {
+	repository: string;
+	pullRequests: PullRequest[];
+	reviewsByPR: Map<number, Review[]>;
+	openPRCount: number;
+	prSizes: Map<number, { additions: number; deletions: number }>;
+	workflowRuns: WorkflowRunSummary | null;
+	shipEvents: ShipEvent[];
+	incidents: Incident[];
+	incidentError: string | null;
+	priorDeployments: ShipEvent[];
+	firstCommitDates: Map<number, Date>;
+	draftEvents: Map<number, DraftEvent[]>;
+	previousPullRequests: PullRequest[];
+	previousDraftEvents: Map<number, DraftEvent[]>;
+}
+
+/**
+ * Combine several repositories' data into one calculateMetrics input.
+ * PRs and ship events are tagged with their repository so per-PR maps
+ * stay unambiguous; open PRs and workflow runs are summed.
+ */
+export function combineRepositoryData(datasets: RepositoryData[]): {
+	pullRequests: PullRequest[];
+	reviewsByPR: Map<PRKey, Review[]>;
+	openPRCount: number;
+	options: MetricsOptions;
+} {
+	const pullRequests: PullRequest[] = [];
+	const reviewsByPR = new Map<PRKey, Review[]>();
+	const prSizes = new Map<PRKey, { additions: number; deletions: number }>();
+	const firstCommitDates = new Map<PRKey, Date>();
+	const draftEvents = new Map<PRKey, DraftEvent[]>();
+	const shipEvents: ShipEvent[] = [];
+	const incidents: Incident[] = [];
+	const incidentErrors: string[] = [];
+	const priorDeployments: ShipEvent[] = [];
+	const previousPullRequests: PullRequest[] = [];
+	const previousDraftEvents = new Map<PRKey, DraftEvent[]>();
+	let openPRCount = 0;
+	let workflowRuns: WorkflowRunSummary | null = null;
+
+	for (const data of datasets) {
+		for (const pr of data.pullRequests) {
+			const tagged = { ...pr, repository: data.repository };
+			const key = prKey(tagged);
+			pullRequests.push(tagged);
+
+			const reviews = data.reviewsByPR.get(pr.number);
+			if (reviews) reviewsByPR.set(key, reviews);
+			const size = data.prSizes.get(pr.number);
+			if (size) prSizes.set(key, size);
+			const firstCommit = data.firstCommitDates.get(pr.number);
+			if (firstCommit) firstCommitDates.set(key, firstCommit);
+			const events = data.draftEvents.get(pr.number);
+			if (events) draftEvents.set(key, events);
+		}
+
+		for (const pr of data.previousPullRequests) {
+			const tagged = { ...pr, repository: data.repository };
+			previousPullRequests.push(tagged);
+			const events = data.previousDraftEvents.get(pr.number);
+			if (events) previousDraftEvents.set(prKey(tagged), events);
+		}
+
+		shipEvents.push(...data.shipEvents.map((e) => ({ ...e, repository: data.repository })));
+		incidents.push(...data.incidents.map((i) => ({ ...i, repository: data.repository })));
+		if (data.incidentError) {
+			incidentErrors.push(datasets.length > 1 ? `${data.repository}: ${data.incidentError}` : data.incidentError);
+		}
+		priorDeployments.push(...data.priorDeployments.map((e) => ({ ...e, repository: data.repository })));
+		openPRCount += data.openPRCount;
+
+		if (data.workflowRuns) {
+			const runs: WorkflowRunSummary = workflowRuns || { totalRuns: 0, successCount: 0, failureCount: 0 };
+			workflowRuns = {
+				totalRuns: runs.totalRuns + data.workflowRuns.totalRuns,
+				successCount: runs.successCount + data.workflowRuns.successCount,
+				failureCount: runs.failureCount + data.workflowRuns.failureCount,
+			};
+		}
+	}
+
+	return {
+		pullRequests,
+		reviewsByPR,
+		openPRCount,
+		options: {
+			prSizes,
+			workflowRuns,
+			shipEvents,
+			incidents,
+			incidentError: incidentErrors.length > 0 ? incidentErrors.join('; ') : null,
+			priorDeployments,
+			firstCommitDates,
+			draftEvents,
+			previousPullRequests,
+			previousDraftEvents,
+		},
+	};
 }
 
 export function calculateMetrics(
 	pullRequests: PullRequest[],
-	reviewsByPR: Map<number, Review[]>,
+	reviewsByPR: Map<PRKey, Review[]>,
 	openPRCount: number,
 	options?: MetricsOptions
 ): SprintMetrics {
-	// Cycle times (PR created → merged)
-	const cycleTimes = pullRequests.map((pr) => {
-		const hours = (pr.mergedAt.getTime() - pr.createdAt.getTime()) / (1000 * 60 * 60);
-		return hours;
-	});
-
-	// Review turnaround (PR created → first review)
+	// Wall-clock or business hours between two instants
+	const calendar = options?.workingCalendar;
+	const hoursBetween: HoursBetween = calendar
+		? (from, to) => workingHoursBetween(from, to, calendar)
+		: wallClockHours;
+
+	// Cycle times (PR created, or first ready for review → merged)
+	const cycleTimeStart = options?.cycleTimeStart || 'created';
+	const startOf = (pr: PullRequest, draftEvents?: Map<PRKey, DraftEvent[]>): Date =>
+		cycleTimeStart === 'ready' ? readyForReviewAt(pr, draftEvents?.get(prKey(pr))) : pr.createdAt;
+	const cycleTimes = pullRequests.map((pr) => hoursBetween(startOf(pr, options?.draftEvents), pr.mergedAt));
+
+	// Trend against the previous period
+	const previousCycleTimes = (options?.previousPullRequests || [])
+		.map((pr) => hoursBetween(startOf(pr, options?.previousDraftEvents), pr.mergedAt));
+	const previousCycleTimeMedianHours = median(previousCycleTimes);
+	const cycleTimeTrend = compareCycleTimes(cycleTimes, previousCycleTimes);
+
+	// Time spent as a draft
+	const draftTimes = pullRequests
+		.map((pr) => draftHours(pr, hoursBetween, options?.draftEvents?.get(prKey(pr))))
+		.filter((hours) => hours > 0);
+
+	// Review turnaround (cycle time start → first review)
 	const reviewTurnarounds: number[] = [];
 	for (const pr of pullRequests) {
-		const reviews = reviewsByPR.get(pr.number) || [];
+		const reviews = reviewsByPR.get(prKey(pr)) || [];
 		// Find first review that's not from the author
 		const firstReview = reviews
 			.filter((r) => r.author !== pr.author)
 			.sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime())[0];
 
 		if (firstReview) {
-			const hours = (firstReview.submittedAt.getTime() - pr.createdAt.getTime()) / (1000 * 60 * 60);
-			reviewTurnarounds.push(hours);
+			reviewTurnarounds.push(hoursBetween(startOf(pr, options?.draftEvents), firstReview.submittedAt));
 		}
 	}
 
+	const cycleTimePhases = calculateCycleTimePhases(
+		pullRequests,
+		reviewsByPR,
+		(pr) => startOf(pr, options?.draftEvents),
+		hoursBetween,
+		options?.firstCommitDates
+	);
+
 	// Contributors and concentration
 	const contributorPRCounts = new Map<string, number>();
 	for (const pr of pullRequests) {
@@ -90,7 +324,7 @@ export function calculateMetrics(
 	let totalComments = 0;
 	let prsWithReviews = 0;
 	for (const pr of pullRequests) {
-		const reviews = reviewsByPR.get(pr.number) || [];
+		const reviews = reviewsByPR.get(prKey(pr)) || [];
 		const nonAuthorReviews = reviews.filter((r) => r.author !== pr.author);
 		if (nonAuthorReviews.length > 0) {
 			totalComments += nonAuthorReviews.reduce((sum, r) => sum + r.commentCount, 0);
@@ -108,6 +342,7 @@ export function calculateMetrics(
 	let shipCount: number | null = null;
 	let shipSource: 'deployment' | 'release' | null = null;
 	let leadTimeMedianHours: number | null = null;
+	let leadTimeWallClockHours: number | null = null;
 
 	if (options) {
 		// PR Size
@@ -129,52 +364,76 @@ export function calculateMetrics(
 			);
 		}
 
+		// Failed deployments shipped nothing: they count towards change
+		// failure and time to restore, not ship frequency or lead time
+		const shipped = (options.shipEvents || []).filter((e) => e.state !== 'failure' && e.state !== 'error');
+
 		// Ship Frequency
-		if (options.shipEvents && options.shipEvents.length > 0) {
-			shipCount = options.shipEvents.length;
-			shipSource = options.shipEvents[0].source;
-			const days = options.periodDays || 14;
-			shipFrequency = shipCount / days;
+		if (shipped.length > 0) {
+			shipCount = shipped.length;
+			shipSource = shipped[0].source;
+			const days = (options.periodDays || 14) - (options.nonWorkingDays || 0);
+			shipFrequency = shipCount / Math.max(1, days);
 		}
 
 		// Lead Time: first commit → ship event
-		if (
-			options.shipEvents && options.shipEvents.length > 0 &&
-			options.firstCommitDates && options.firstCommitDates.size > 0
-		) {
-			const sortedShipEvents = [...options.shipEvents].sort(
+		if (shipped.length > 0 && options.firstCommitDates && options.firstCommitDates.size > 0) {
+			const sortedShipEvents = [...shipped].sort(
 				(a, b) => a.createdAt.getTime() - b.createdAt.getTime()
 			);
 			const leadTimes: number[] = [];
+			const wallClockLeadTimes: number[] = [];
 
 			for (const pr of pullRequests) {
-				const firstCommitDate = options.firstCommitDates.get(pr.number);
+				const firstCommitDate = options.firstCommitDates.get(prKey(pr));
 				if (!firstCommitDate) continue;
 
-				// Find the earliest ship event after merge
+				// Find the earliest ship event after merge (from the same
+				// repository, when combining several)
 				const shipEvent = sortedShipEvents.find(
-					(e) => e.createdAt.getTime() >= pr.mergedAt.getTime()
+					(e) => e.createdAt.getTime() >= pr.mergedAt.getTime() &&
+						(!pr.repository || !e.repository || e.repository === pr.repository)
 				);
 				if (!shipEvent) continue;
 
-				const hours = (shipEvent.createdAt.getTime() - firstCommitDate.getTime()) / (1000 * 60 * 60);
-				if (hours >= 0) {
-					leadTimes.push(hours);
+				if (shipEvent.createdAt.getTime() >= firstCommitDate.getTime()) {
+					leadTimes.push(hoursBetween(firstCommitDate, shipEvent.createdAt));
+					wallClockLeadTimes.push(wallClockHours(firstCommitDate, shipEvent.createdAt));
 				}
 			}
 
 			if (leadTimes.length > 0) {
 				leadTimeMedianHours = median(leadTimes);
+				leadTimeWallClockHours = calendar ? median(wallClockLeadTimes) : null;
 			}
 		}
 	}
 
+	// Change failure rate
+	const failedChanges = findFailedChanges(pullRequests, options?.shipEvents || [], options?.hotfixLabels || []);
+	const failedChangeCount = countFailedPRs(failedChanges);
+	const changeFailureRate = pullRequests.length > 0
+		? Math.round((failedChangeCount / pullRequests.length) * 100)
+		: null;
+
+	// Time to restore, unmeasured when the incident issues could not be listed
+	const incidentError = options?.incidentError || null;
+	const restores = incidentError
+		? []
+		: findRestores(options?.incidents || [], options?.shipEvents || [], options?.priorDeployments || []);
+	const timeToRestoreMedianHours = median(restores.map((r) => hoursBetween(r.from, r.to)));
+	const timeToRestoreWallClockHours = calendar ? median(restores.map((r) => wallClockHours(r.from, r.to))) : null;
+
 	return {
-		cycleTimeMedianHours: median(cycleTimes) || 0,
+		cycleTimeMedianHours: median(cycleTimes),
 		cycleTimeP90Hours: percentile(cycleTimes, 90) || 0,
+		cycleTimePhases,
 		throughputCount: pullRequests.length,
 		wipCount: openPRCount,
 
+		draftTimeMedianHours: median(draftTimes),
+		draftPRCount: draftTimes.length,
+
 		prSizeMedian,
 		prSizeCategory,
 		buildSuccessRate,
@@ -183,19 +442,292 @@ export function calculateMetrics(
 		shipCount,
 		shipSource,
 		leadTimeMedianHours,
-
-		reviewTurnaroundMedianHours: median(reviewTurnarounds) || 0,
+		leadTimeWallClockHours,
+		changeFailureRate,
+		failedChangeCount,
+		failedChanges,
+		timeToRestoreMedianHours,
+		timeToRestoreWallClockHours,
+		incidentCount: restores.length,
+		...(incidentError && { timeToRestoreError: incidentError }),
+
+		reviewTurnaroundMedianHours: median(reviewTurnarounds),
 		collaboratorCount: contributorPRCounts.size,
 		concentrationRatio,
 		reviewDepthScore,
 
-		// TODO: Compare to previous period for trend
-		cycleTimeTrend: 'stable',
+		workingHoursPerDay: calendar && !isAroundTheClock(calendar) ? workingHoursPerDay(calendar) : null,
+		nonWorkingDays: options?.nonWorkingDays || 0,
+
+		cycleTimeTrend,
+		previousCycleTimeMedianHours,
 
 		prNumbers: pullRequests.map((pr) => pr.number),
 	};
 }
 
+type HoursBetween = (from: Date, to: Date) => number;
+
+const REVERTS_PR = /\bReverts\s+(?:[\w.-]+\/[\w.-]+)?#(\d+)/i;
+
+/**
+ * Reverts (a "Revert …" title or "This reverts" in the title or body),
+ * PRs with a hotfix label, and deployments whose latest status is
+ * failure or error, each counted once
+ */
+function findFailedChanges(pullRequests: PullRequest[], shipEvents: ShipEvent[], hotfixLabels: string[]): FailedChange[] {
+	const failed: FailedChange[] = [];
+	const hotfix = new Set(hotfixLabels.map((label) => label.toLowerCase()));
+
+	for (const pr of pullRequests) {
+		const text = `${pr.title}\n${pr.body || ''}`;
+		const change = { title: pr.title, at: pr.mergedAt, repository: pr.repository };
+		if (/^Revert\b/i.test(pr.title) || /This reverts/i.test(text)) {
+			const reverted = pr.body?.match(REVERTS_PR);
+			failed.push({ kind: 'revert', prNumbers: reverted ? [pr.number, Number(reverted[1])] : [pr.number], ...change });
+		} else if ((pr.labels || []).some((label) => hotfix.has(label.toLowerCase()))) {
+			failed.push({ kind: 'hotfix', prNumbers: [pr.number], ...change });
+		}
+	}
+
+	// A failed deployment shipped the PRs merged since the previous
+	// deployment to the same environment
+	const deployments = shipEvents
+		.filter((e) => e.source === 'deployment')
+		.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+	deployments.forEach((deployment, i) => {
+		if (deployment.state !== 'failure' && deployment.state !== 'error') return;
+		const previous = deployments.slice(0, i).reverse()
+			.find((e) => e.label === deployment.label && e.repository === deployment.repository);
+		const shipped = pullRequests.filter((pr) =>
+			pr.repository === deployment.repository &&
+			pr.mergedAt <= deployment.createdAt &&
+			(!previous || pr.mergedAt > previous.createdAt));
+		failed.push({
+			kind: 'failed-deployment',
+			prNumbers: shipped.map((pr) => pr.number),
+			title: deployment.label,
+			at: deployment.createdAt,
+			repository: deployment.repository,
+		});
+	});
+
+	return failed.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Outages restored in the period: incident issues from opening to closing,
+ * and deployments that failed until the next successful deployment to the
+ * same environment (a run of failures is one outage)
+ */
+function findRestores(
+	incidents: Incident[],
+	shipEvents: ShipEvent[],
+	priorDeployments: ShipEvent[]
+): { from: Date; to: Date }[] {
+	const restores = incidents.map((incident) => ({ from: incident.openedAt, to: incident.closedAt }));
+
+	// Replay the deployments before the period first, so an outage still
+	// open at its start is restored by the first success within it
+	const failingSince = new Map<string, Date>();
+	const replay = (events: ShipEvent[], onRestore: (from: Date, to: Date) => void) => {
+		const deployments = events
+			.filter((e) => e.source === 'deployment')
+			.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+		for (const deployment of deployments) {
+			const environment = `${deployment.repository || ''}:${deployment.label}`;
+			if (deployment.state === 'failure' || deployment.state === 'error') {
+				if (!failingSince.has(environment)) failingSince.set(environment, deployment.createdAt);
+			} else if (deployment.state === 'success' || deployment.state === 'inactive') {
+				// A successful deployment turns inactive once a later one replaces it
+				const since = failingSince.get(environment);
+				if (since) {
+					onRestore(since, deployment.createdAt);
+					failingSince.delete(environment);
+				}
+			}
+		}
+	};
+	replay(priorDeployments, () => {});
+	replay(shipEvents, (from, to) => restores.push({ from, to }));
+
+	return restores;
+}
+
+/**
+ * Merged PRs behind the failed changes, each counted once: the revert
+ * itself (not the PR it reverted), the hotfix, and the PRs a failed
+ * deployment shipped
+ */
+function countFailedPRs(changes: FailedChange[]): number {
+	const failed = new Set<PRKey>();
+	for (const change of changes) {
+		const counted = change.kind === 'revert' ? change.prNumbers.slice(0, 1) : change.prNumbers;
+		for (const number of counted) {
+			failed.add(prKey({ number, repository: change.repository }));
+		}
+	}
+	return failed.size;
+}
+
+function wallClockHours(from: Date, to: Date): number {
+	return Math.max(0, (to.getTime() - from.getTime()) / (1000 * 60 * 60));
+}
+
+/**
+ * When the PR first became ready for review: its first ready_for_review
+ * event if it was opened as a draft, otherwise when it was opened
+ */
+function readyForReviewAt(pr: PullRequest, events: DraftEvent[] = []): Date {
+	const first = sortedDraftEvents(events)[0];
+	return first && first.type === 'ready_for_review' ? first.createdAt : pr.createdAt;
+}
+
+/**
+ * Total time the PR spent as a draft before merging: from opening (if
+ * opened as a draft) and from each convert_to_draft to the next ready
+ */
+function draftHours(pr: PullRequest, hoursBetween: HoursBetween, events: DraftEvent[] = []): number {
+	const sorted = sortedDraftEvents(events);
+	if (sorted.length === 0) return 0;
+
+	let total = 0;
+	let draftSince: Date | null = sorted[0].type === 'ready_for_review' ? pr.createdAt : null;
+	for (const event of sorted) {
+		if (event.type === 'convert_to_draft' && !draftSince) {
+			draftSince = event.createdAt;
+		} else if (event.type === 'ready_for_review' && draftSince) {
+			total += hoursBetween(draftSince, event.createdAt);
+			draftSince = null;
+		}
+	}
+	if (draftSince) {
+		total += hoursBetween(draftSince, pr.mergedAt);
+	}
+	return total;
+}
+
+function sortedDraftEvents(events: DraftEvent[]): DraftEvent[] {
+	return [...events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Trend needs this many PRs in each period, a median shift of at least
+// this much, and a Mann–Whitney U p-value below this
+const TREND_MIN_SAMPLES = 5;
+const TREND_MIN_CHANGE = 0.1;
+const TREND_SIGNIFICANCE = 0.05;
+
+/**
+ * Classify the shift from previous to current cycle times. Cycle times
+ * are heavily skewed, so a rank test (Mann–Whitney U) decides whether
+ * the shift is real rather than comparing medians alone.
+ */
+function compareCycleTimes(current: number[], previous: number[]): SprintMetrics['cycleTimeTrend'] {
+	if (current.length < TREND_MIN_SAMPLES || previous.length < TREND_MIN_SAMPLES) return 'stable';
+
+	const currentMedian = median(current)!;
+	const previousMedian = median(previous)!;
+	if (previousMedian <= 0) return 'stable';
+
+	const change = (currentMedian - previousMedian) / previousMedian;
+	if (Math.abs(change) < TREND_MIN_CHANGE) return 'stable';
+	if (mannWhitneyPValue(current, previous) >= TREND_SIGNIFICANCE) return 'stable';
+
+	return change > 0 ? 'degrading' : 'improving';
+}
+
+/**
+ * Two-sided p-value of the Mann–Whitney U test, using the normal
+ * approximation with tie and continuity corrections
+ */
+function mannWhitneyPValue(a: number[], b: number[]): number {
+	const n1 = a.length;
+	const n2 = b.length;
+	const n = n1 + n2;
+	const combined = [
+		...a.map((value) => ({ value, group: 0 })),
+		...b.map((value) => ({ value, group: 1 })),
+	].sort((x, y) => x.value - y.value);
+
+	// Average ranks across ties
+	let rankSumA = 0;
+	let tieTerm = 0;
+	for (let i = 0; i < n;) {
+		let j = i;
+		while (j + 1 < n && combined[j + 1].value === combined[i].value) j++;
+		const rank = (i + j) / 2 + 1;
+		const ties = j - i + 1;
+		tieTerm += ties ** 3 - ties;
+		for (let k = i; k <= j; k++) {
+			if (combined[k].group === 0) rankSumA += rank;
+		}
+		i = j + 1;
+	}
+
+	const u = rankSumA - (n1 * (n1 + 1)) / 2;
+	const mean = (n1 * n2) / 2;
+	const variance = ((n1 * n2) / 12) * ((n + 1) - tieTerm / (n * (n - 1)));
+	if (variance <= 0) return 1;
+
+	const z = Math.max(0, Math.abs(u - mean) - 0.5) / Math.sqrt(variance);
+	return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+ */
+function normalCdf(z: number): number {
+	const x = Math.abs(z) / Math.SQRT2;
+	const t = 1 / (1 + 0.3275911 * x);
+	const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+	return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function calculateCycleTimePhases(
+	pullRequests: PullRequest[],
+	reviewsByPR: Map<PRKey, Review[]>,
+	startOf: (pr: PullRequest) => Date,
+	hoursBetween: HoursBetween,
+	firstCommitDates?: Map<PRKey, Date>
+): CycleTimePhases {
+	const durations: Record<CycleTimePhase, number[]> = { coding: [], pickup: [], review: [], merge: [] };
+
+	for (const pr of pullRequests) {
+		const start = startOf(pr);
+		const firstCommit = firstCommitDates?.get(prKey(pr));
+		if (firstCommit) {
+			durations.coding.push(hoursBetween(firstCommit, start));
+		}
+
+		const reviews = (reviewsByPR.get(prKey(pr)) || [])
+			.filter((r) => r.author !== pr.author && r.submittedAt.getTime() <= pr.mergedAt.getTime())
+			.sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+		if (reviews.length === 0) continue;
+
+		const firstReview = reviews[0];
+		durations.pickup.push(hoursBetween(start, firstReview.submittedAt));
+
+		const approvals = reviews.filter((r) => r.state === 'APPROVED');
+		const finalApproval = approvals[approvals.length - 1];
+		if (finalApproval) {
+			durations.review.push(hoursBetween(firstReview.submittedAt, finalApproval.submittedAt));
+			durations.merge.push(hoursBetween(finalApproval.submittedAt, pr.mergedAt));
+		}
+	}
+
+	const stats = (values: number[]): PhaseStats | null =>
+		values.length > 0
+			? { medianHours: median(values)!, p90Hours: percentile(values, 90)!, count: values.length }
+			: null;
+
+	return {
+		coding: stats(durations.coding),
+		pickup: stats(durations.pickup),
+		review: stats(durations.review),
+		merge: stats(durations.merge),
+	};
+}
+
 /**
  * Calculate median of an array
  */
@@ -223,15 +755,17 @@ function percentile(values: number[], p: number): number | null {
 }
 
 /**
- * Format hours as human-readable duration
+ * Format hours as human-readable duration. Business hours (with the length
+ * of a working day) are shown in working days rather than calendar days.
  */
-export function formatDuration(hours: number): string {
+export function formatDuration(hours: number, workingHoursPerDay?: number | null): string {
 	if (hours < 1) {
 		return `${Math.round(hours * 60)} min`;
 	}
-	if (hours < 24) {
+	const hoursPerDay = workingHoursPerDay || 24;
+	if (hours < hoursPerDay) {
 		return `${hours.toFixed(1)} hours`;
 	}
-	const days = hours / 24;
-	return `${days.toFixed(1)} days`;
+	const days = hours / hoursPerDay;
+	return workingHoursPerDay ? `${days.toFixed(1)} working days` : `${days.toFixed(1)} days`;
 }
@@ -0,0 +1,214 @@
+/**
+ * Period sources
+ *
+ * Takes the reporting period from what the team already keeps on GitHub:
+ * an iteration field of a Projects v2 board, milestone due dates, or the
+ * span between two releases. Optionally narrows the PRs counted to those
+ * linked to the iteration or milestone; a release range always counts
+ * only the PRs merged by one of its commits.
+ */
+
+import type { Config } from './config';
+import type { GitHubClient, Milestone, ProjectIteration, PullRequest } from './github-client';
+import { ReportPeriod, ScheduledPeriod, resolveScheduledPeriod, spanPeriod } from './periods';
+import { localDate } from './timezone';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface PeriodSourceConfig {
+	type: 'iteration' | 'milestone' | 'release';
+	// Projects v2 board with the iteration field (iteration only)
+	projectOwner?: string;
+	projectNumber?: number;
+	// Iteration field name (default: the project's first iteration field)
+	iterationField?: string;
+	// Tags to compare (release only; default: the latest two releases)
+	fromTag?: string;
+	toTag?: string;
+	// Report the iteration or milestone in progress
+	current: boolean;
+	// Only count PRs linked to the iteration or milestone
+	linkedOnly: boolean;
+}
+
+/**
+ * PRs linked to the period and to the one before, as owner/repo#number
+ */
+export interface LinkedPullRequests {
+	current: Set<string>;
+	previous: Set<string>;
+}
+
+/**
+ * Commit SHAs in the release range and in the range before it, if known
+ */
+export interface ReleaseCommits {
+	current: Set<string>;
+	previous?: Set<string>;
+}
+
+/**
+ * Look up the period on GitHub and return the config with it in place of
+ * the provisional rolling window. A replay resolves as of the recorded
+ * period, so it picks the same iteration or milestone.
+ */
+export async function applyPeriodSource(
+	config: Config,
+	source: PeriodSourceConfig,
+	client: GitHubClient,
+	repositories: string[],
+	now: Date = new Date()
+): Promise<Config> {
+	const asOf = config.replayPath
+		? new Date(config.periodEnd.getTime() + (source.current ? 0 : 1))
+		: now;
+
+	let period: ReportPeriod;
+	let linkedPullRequests: LinkedPullRequests | undefined;
+	let releaseCommits: ReleaseCommits | undefined;
+	if (source.type === 'release') {
+		if (repositories.length > 1) {
+			throw new Error('period: release compares tags of one repository and cannot combine several repositories');
+		}
+		const [from, to, before] = source.fromTag ? [source.fromTag, source.toTag!] : await latestReleaseTags(client);
+		const range = await client.compareRefs(from, to);
+		const previousRange = before ? await client.compareRefs(before, from) : null;
+		period = spanPeriod('release', `${from} → ${to}`, range.mergeBaseDate, range.headDate, config.timezone, previousRange
+			? { start: previousRange.mergeBaseDate, end: previousRange.headDate }
+			: undefined);
+		releaseCommits = { current: range.shas, previous: previousRange?.shas };
+	} else if (source.type === 'iteration') {
+		const owner = source.projectOwner || config.owner;
+		const { field, iterations } = await client.getProjectIterations(owner, source.projectNumber!, source.iterationField);
+		const resolved = resolveScheduledPeriod('iteration', iterations.map(toScheduledIteration), source.current, asOf, config.timezone);
+		period = resolved.period;
+		if (source.linkedOnly) {
+			const ids = [resolved.entry.id, resolved.previousEntry?.id].filter((id): id is string => !!id);
+			const linked = await client.getIterationPullRequests(owner, source.projectNumber!, field, ids);
+			linkedPullRequests = {
+				current: linked.get(resolved.entry.id)!,
+				previous: resolved.previousEntry ? linked.get(resolved.previousEntry.id)! : new Set(),
+			};
+		}
+	} else {
+		const milestones = await client.getMilestones();
+		const resolved = resolveScheduledPeriod('milestone', milestoneSchedule(milestones, config.timezone), source.current, asOf, config.timezone);
+		period = resolved.period;
+		if (source.linkedOnly) {
+			linkedPullRequests = await getMilestonePullRequests(config, client, repositories, milestones, [
+				resolved.entry.title,
+				resolved.previousEntry?.title,
+			]);
+		}
+	}
+
+	return {
+		...config,
+		sprintLengthDays: period.lengthDays,
+		periodStart: period.start,
+		periodEnd: period.end,
+		periodMode: period.mode,
+		periodLabel: period.label,
+		previousPeriod: period.previous,
+		linkedPullRequests,
+		releaseCommits,
+	};
+}
+
+/**
+ * The merged PRs that count for the period (or the one before): those
+ * linked to the iteration or milestone, or merged by a commit in the
+ * release range. All of them for other periods.
+ */
+export async function selectPeriodPullRequests(
+	config: Config,
+	client: GitHubClient,
+	repository: string,
+	pullRequests: PullRequest[],
+	which: 'current' | 'previous'
+): Promise<PullRequest[]> {
+	const linked = config.linkedPullRequests?.[which];
+	if (linked) {
+		return pullRequests.filter((pr) => linked.has(`${repository}#${pr.number}`));
+	}
+
+	const commits = config.releaseCommits?.[which];
+	if (commits && pullRequests.length > 0) {
+		const mergeCommits = await client.getMergeCommitShas(pullRequests.map((pr) => pr.number));
+		return pullRequests.filter((pr) => commits.has(mergeCommits.get(pr.number) || ''));
+	}
+	return pullRequests;
+}
+
+/**
+ * The previous and latest release, and the one before them if any
+ */
+async function latestReleaseTags(client: GitHubClient): Promise<string[]> {
+	const releases = await client.getLatestReleases(3);
+	if (releases.length < 2) {
+		throw new Error('period: release needs two published releases, or from-tag and to-tag');
+	}
+	return [releases[1].tag, releases[0].tag, releases[2]?.tag].filter((tag): tag is string => !!tag);
+}
+
+function toScheduledIteration(iteration: ProjectIteration): ScheduledPeriod {
+	return {
+		id: iteration.id,
+		title: iteration.title,
+		start: new Date(`${iteration.startDate}T00:00:00Z`),
+		lengthDays: iteration.duration,
+	};
+}
+
+/**
+ * Milestones with a due date, each running from the day after the one
+ * before is due (or from its creation, for the first) to its due date,
+ * as local dates in the timezone
+ */
+export function milestoneSchedule(milestones: Milestone[], timezone = 'UTC'): ScheduledPeriod[] {
+	const dated = milestones
+		.filter((m): m is Milestone & { dueOn: Date } => !!m.dueOn)
+		.sort((a, b) => a.dueOn.getTime() - b.dueOn.getTime());
+
+	return dated.map((milestone, i) => {
+		const start = i > 0
+			? localDate(dated[i - 1].dueOn, timezone).getTime() + MS_PER_DAY
+			: localDate(milestone.createdAt, timezone).getTime();
+		const next = localDate(milestone.dueOn, timezone).getTime() + MS_PER_DAY;
+		return {
+			id: String(milestone.number),
+			title: milestone.title,
+			start: new Date(Math.min(start, next - MS_PER_DAY)),
+			lengthDays: Math.max(1, Math.round((next - start) / MS_PER_DAY)),
+		};
+	});
+}
+
+/**
+ * PRs in the milestones with these titles, across all repositories
+ * (milestone numbers differ between repositories, titles usually don't)
+ */
+async function getMilestonePullRequests(
+	config: Config,
+	client: GitHubClient,
+	repositories: string[],
+	milestones: Milestone[],
+	[currentTitle, previousTitle]: (string | undefined)[]
+): Promise<LinkedPullRequests> {
+	const linked: LinkedPullRequests = { current: new Set(), previous: new Set() };
+	for (const repository of repositories) {
+		const [owner, repo] = repository.split('/');
+		const isMain = owner === config.owner && repo === config.repo;
+		const repoClient = isMain ? client : client.forRepository(owner, repo);
+		const repoMilestones = isMain ? milestones : await repoClient.getMilestones();
+
+		for (const [title, into] of [[currentTitle, linked.current], [previousTitle, linked.previous]] as const) {
+			const milestone = repoMilestones.find((m) => m.title === title);
+			if (!milestone) continue;
+			for (const number of await repoClient.getMilestonePullRequests(milestone.number)) {
+				into.add(`${repository}#${number}`);
+			}
+		}
+	}
+	return linked;
+}
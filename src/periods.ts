@@ -0,0 +1,286 @@
+/**
+ * Reporting periods
+ *
+ * Works out the window a run reports on: a rolling window ending now,
+ * explicit dates, repeating sprints from an anchor date, calendar periods
+ * (ISO week, month, quarter), a schedule kept on GitHub (project
+ * iterations, milestones) or the span between two releases. Aligned
+ * periods are whole days in the configured timezone and carry a label for
+ * the card title. Dates are worked out on local dates (UTC midnight of the
+ * day) and only turned into instants at the end.
+ */
+
+import { formatDay, localDate, startOfLocalDay, wallClock, zonedTime } from './timezone';
+
+export type PeriodMode = 'rolling' | 'custom' | 'sprint' | 'iso-week' | 'month' | 'quarter' | 'iteration' | 'milestone' | 'release';
+
+export const PERIOD_MODES: PeriodMode[] = ['rolling', 'custom', 'sprint', 'iso-week', 'month', 'quarter', 'iteration', 'milestone', 'release'];
+
+export interface PeriodOptions {
+	mode: PeriodMode;
+	sprintLengthDays: number;
+	// First day of sprint 1 (sprint mode)
+	anchor?: Date;
+	// Explicit first and last day (custom mode; end defaults to now)
+	start?: Date;
+	end?: Date;
+	// Report the period in progress rather than the last completed one
+	current?: boolean;
+	// IANA timezone days start and end in (default UTC)
+	timezone?: string;
+}
+
+export interface ReportPeriod {
+	mode: PeriodMode;
+	start: Date;
+	end: Date;
+	// Whole days covered, for per-day rates and the previous window
+	lengthDays: number;
+	// Shown in the card title instead of the bare date range
+	label?: string;
+	// The window before, for trends and comparisons
+	previous: PreviousPeriod;
+}
+
+export interface PreviousPeriod {
+	start: Date;
+	end: Date;
+	lengthDays: number;
+}
+
+/**
+ * One period of a schedule kept on GitHub: a project iteration or a milestone
+ */
+export interface ScheduledPeriod {
+	id: string;
+	title: string;
+	// First day (local date, as UTC midnight) and whole days covered
+	start: Date;
+	lengthDays: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = [
+	'January', 'February', 'March', 'April', 'May', 'June',
+	'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export function resolvePeriod(options: PeriodOptions, now: Date = new Date()): ReportPeriod {
+	const timezone = options.timezone || 'UTC';
+	switch (options.mode) {
+		case 'custom': {
+			const first = startOfDay(options.start!);
+			const start = startOfLocalDay(first, timezone);
+			const end = options.end ? new Date(startOfLocalDay(nextDay(options.end), timezone).getTime() - 1) : now;
+			const lengthDays = wholeDays(start, end, timezone);
+			return { mode: 'custom', start, end, lengthDays, previous: daysBefore(first, lengthDays, timezone) };
+		}
+		case 'sprint':
+			return sprintPeriod(options, timezone, now);
+		case 'iso-week':
+		case 'month':
+		case 'quarter': {
+			const mode = options.mode;
+			const containing = calendarStart(mode, localDate(now, timezone));
+			const first = options.current ? containing : shiftCalendar(mode, containing, -1);
+			const start = startOfLocalDay(first, timezone);
+			const previousStart = startOfLocalDay(shiftCalendar(mode, first, -1), timezone);
+			const next = startOfLocalDay(shiftCalendar(mode, first, 1), timezone);
+			return finishAligned(mode, start, next, calendarLabel(mode, first), options.current, now, timezone, {
+				start: previousStart,
+				end: new Date(start.getTime() - 1),
+				lengthDays: wholeDays(previousStart, start, timezone),
+			});
+		}
+		default:
+			// Iterations, milestones and releases are looked up on GitHub; until then
+			// (and if that fails) the period is the rolling window
+			return rollingPeriod(options.sprintLengthDays, now);
+	}
+}
+
+/**
+ * The last completed period of a schedule, or the one in progress with
+ * `current`. The previous window is the schedule's period before it.
+ */
+export function resolveScheduledPeriod(
+	mode: 'iteration' | 'milestone',
+	schedule: ScheduledPeriod[],
+	current: boolean,
+	now: Date = new Date(),
+	timezone = 'UTC'
+): { period: ReportPeriod; entry: ScheduledPeriod; previousEntry?: ScheduledPeriod } {
+	const sorted = [...schedule].sort((a, b) => a.start.getTime() - b.start.getTime());
+	const first = (entry: ScheduledPeriod) => startOfLocalDay(entry.start, timezone);
+	const next = (entry: ScheduledPeriod) => startOfLocalDay(new Date(entry.start.getTime() + entry.lengthDays * MS_PER_DAY), timezone);
+	const candidates = sorted.filter((entry) => current
+		? first(entry) <= now && now < next(entry)
+		: next(entry) <= now);
+	const entry = candidates[candidates.length - 1];
+	if (!entry) {
+		throw new Error(current ? `No ${mode} is in progress` : `No completed ${mode} found`);
+	}
+
+	const previousEntry = sorted[sorted.indexOf(entry) - 1];
+	const previous = previousEntry
+		? { start: first(previousEntry), end: new Date(next(previousEntry).getTime() - 1), lengthDays: previousEntry.lengthDays }
+		: daysBefore(entry.start, entry.lengthDays, timezone);
+	return {
+		period: finishAligned(mode, first(entry), next(entry), entry.title, current, now, timezone, previous),
+		entry,
+		previousEntry,
+	};
+}
+
+/**
+ * The last `lengthDays` days up to now
+ */
+export function rollingPeriod(lengthDays: number, now: Date = new Date()): ReportPeriod {
+	const start = new Date(now);
+	start.setUTCDate(start.getUTCDate() - lengthDays);
+	return { mode: 'rolling', start, end: now, lengthDays, previous: rollingPrevious(start, lengthDays) };
+}
+
+/**
+ * The same number of days, ending the day before `start`
+ */
+export function rollingPrevious(start: Date, lengthDays: number): PreviousPeriod {
+	const end = new Date(start);
+	end.setUTCDate(end.getUTCDate() - 1);
+	const previousStart = new Date(start);
+	previousStart.setUTCDate(previousStart.getUTCDate() - lengthDays);
+	return { start: previousStart, end, lengthDays };
+}
+
+/**
+ * A period between two instants, such as two releases, counted in days of
+ * the timezone. Without a known previous span, the previous window starts
+ * at the same local time the same number of days before.
+ */
+export function spanPeriod(
+	mode: PeriodMode,
+	label: string,
+	start: Date,
+	end: Date,
+	timezone: string,
+	previous?: { start: Date; end: Date }
+): ReportPeriod {
+	const lengthDays = wholeDays(start, end, timezone);
+	const previousStart = new Date(zonedTime(new Date(wallClock(start, timezone).getTime() - lengthDays * MS_PER_DAY), 0, timezone));
+	return {
+		mode,
+		start,
+		end,
+		lengthDays,
+		label,
+		previous: previous
+			? { ...previous, lengthDays: wholeDays(previous.start, previous.end, timezone) }
+			: { start: previousStart, end: new Date(start.getTime() - 1), lengthDays },
+	};
+}
+
+function sprintPeriod(options: PeriodOptions, timezone: string, now: Date): ReportPeriod {
+	const anchor = startOfDay(options.anchor!);
+	const length = options.sprintLengthDays * MS_PER_DAY;
+	const inProgress = Math.floor((wallClock(now, timezone).getTime() - anchor.getTime()) / length);
+	const index = options.current ? inProgress : inProgress - 1;
+	if (index < 0) {
+		throw new Error(`No ${options.current ? 'sprint has started' : 'sprint has completed'} yet since sprint-anchor ${isoDate(anchor)}`);
+	}
+
+	const first = new Date(anchor.getTime() + index * length);
+	const start = startOfLocalDay(first, timezone);
+	const next = startOfLocalDay(new Date(first.getTime() + length), timezone);
+	return finishAligned('sprint', start, next, `Sprint ${index + 1}`, options.current, now, timezone,
+		daysBefore(first, options.sprintLengthDays, timezone));
+}
+
+/**
+ * The `days` local days before the local date `first`
+ */
+function daysBefore(first: Date, days: number, timezone: string): PreviousPeriod {
+	return {
+		start: startOfLocalDay(new Date(first.getTime() - days * MS_PER_DAY), timezone),
+		end: new Date(startOfLocalDay(first, timezone).getTime() - 1),
+		lengthDays: days,
+	};
+}
+
+/**
+ * Close an aligned period at the day before `next`, or at now for the
+ * period in progress, labelled with its full date range
+ */
+function finishAligned(
+	mode: PeriodMode,
+	start: Date,
+	next: Date,
+	name: string,
+	current: boolean | undefined,
+	now: Date,
+	timezone: string,
+	previous: PreviousPeriod
+): ReportPeriod {
+	const lastDay = new Date(next.getTime() - 1);
+	const end = current && now < lastDay ? now : lastDay;
+	const label = mode === 'month' || mode === 'quarter'
+		? name
+		: `${name} (${formatDay(start, timezone)} – ${formatDay(lastDay, timezone)})`;
+	return { mode, start, end, lengthDays: wholeDays(start, end, timezone), label, previous };
+}
+
+function calendarStart(mode: 'iso-week' | 'month' | 'quarter', date: Date): Date {
+	const year = date.getUTCFullYear();
+	const month = date.getUTCMonth();
+	if (mode === 'month') return new Date(Date.UTC(year, month, 1));
+	if (mode === 'quarter') return new Date(Date.UTC(year, month - (month % 3), 1));
+	// ISO weeks start on Monday
+	const day = startOfDay(date);
+	return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * MS_PER_DAY);
+}
+
+function shiftCalendar(mode: 'iso-week' | 'month' | 'quarter', start: Date, count: number): Date {
+	if (mode === 'iso-week') return new Date(start.getTime() + count * 7 * MS_PER_DAY);
+	const months = mode === 'month' ? count : count * 3;
+	return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+}
+
+function calendarLabel(mode: 'iso-week' | 'month' | 'quarter', start: Date): string {
+	if (mode === 'month') return `${MONTH_NAMES[start.getUTCMonth()]} ${start.getUTCFullYear()}`;
+	if (mode === 'quarter') return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${start.getUTCFullYear()}`;
+	const { week, year } = isoWeek(start);
+	return `Week ${week}, ${year}`;
+}
+
+/**
+ * ISO 8601 week number and week-numbering year of a date
+ */
+function isoWeek(date: Date): { week: number; year: number } {
+	// The Thursday of this week decides the year
+	const thursday = new Date(startOfDay(date).getTime() + (3 - ((date.getUTCDay() + 6) % 7)) * MS_PER_DAY);
+	const year = thursday.getUTCFullYear();
+	const firstThursday = new Date(Date.UTC(year, 0, 4));
+	const week = 1 + Math.round((thursday.getTime() - calendarStart('iso-week', firstThursday).getTime() - 3 * MS_PER_DAY) / (7 * MS_PER_DAY));
+	return { week, year };
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function nextDay(date: Date): Date {
+	return new Date(startOfDay(date).getTime() + MS_PER_DAY);
+}
+
+/**
+ * Days covered on the local wall clock, so a DST change doesn't add or
+ * drop a day
+ */
+function wholeDays(start: Date, end: Date, timezone = 'UTC'): number {
+	const elapsed = wallClock(end, timezone).getTime() - wallClock(start, timezone).getTime();
+	return Math.max(1, Math.ceil(elapsed / MS_PER_DAY));
+}
+
+function isoDate(date: Date): string {
+	return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,171 @@
+/**
+ * Persistent PR cache
+ *
+ * Stores fetched reviews, sizes, first-commit dates and draft events on disk between
+ * runs, keyed by repository and PR number. An entry is only reused while
+ * the PR's updated_at matches, so edited PRs are refetched. Entries no
+ * run has used for CACHE_RETENTION_DAYS are dropped on save. The directory
+ * can be restored and saved with actions/cache.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DraftEvent, PRDetails } from './github-client';
+
+// Bump when the on-disk shape changes; older files are ignored
+const CACHE_VERSION = 2;
+
+const CACHE_RETENTION_DAYS = 90;
+
+interface CachedReview {
+	submittedAt: string;
+	author: string;
+	state: string;
+	commentCount: number;
+}
+
+interface CacheEntry {
+	updatedAt: string;
+	reviews: CachedReview[];
+	additions: number;
+	deletions: number;
+	firstCommitDate?: string | null;
+	draftEvents: { type: DraftEvent['type']; createdAt: string }[];
+	// When a run last read or wrote the entry (absent in older files)
+	usedAt?: string;
+}
+
+interface CacheFile {
+	version: number;
+	repository: string;
+	prs: Record<string, CacheEntry>;
+}
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+	stale: number;
+}
+
+export class PRCache {
+	private filePath: string;
+	private repository: string;
+	private stored = new Map<number, CacheEntry>();
+	private live = new Map<number, { updatedAt: Date; details: PRDetails }>();
+	private stats: CacheStats = { hits: 0, misses: 0, stale: 0 };
+
+	private constructor(filePath: string, repository: string) {
+		this.filePath = filePath;
+		this.repository = repository;
+	}
+
+	/**
+	 * Load the cache for a repository. With refresh, existing entries are
+	 * ignored (but the file is still rewritten on save).
+	 */
+	static load(dir: string, owner: string, repo: string, refresh = false): PRCache {
+		const cache = new PRCache(path.join(dir, `${owner}__${repo}.json`), `${owner}/${repo}`);
+		if (refresh || !fs.existsSync(cache.filePath)) {
+			return cache;
+		}
+
+		try {
+			const file = JSON.parse(fs.readFileSync(cache.filePath, 'utf-8')) as CacheFile;
+			if (file.version === CACHE_VERSION && file.repository === cache.repository) {
+				for (const [prNumber, entry] of Object.entries(file.prs)) {
+					cache.stored.set(Number(prNumber), entry);
+				}
+			}
+		} catch (error) {
+			console.warn(`⚠️  Ignoring unreadable cache file ${cache.filePath}: ${error}`);
+		}
+
+		return cache;
+	}
+
+	/**
+	 * Look up a PR, returning its details only if it is unchanged since cached
+	 */
+	get(prNumber: number, updatedAt: Date | undefined): PRDetails | undefined {
+		const entry = this.stored.get(prNumber);
+		if (!entry || !updatedAt) {
+			this.stats.misses++;
+			return undefined;
+		}
+		if (new Date(entry.updatedAt).getTime() !== updatedAt.getTime()) {
+			this.stats.misses++;
+			this.stats.stale++;
+			return undefined;
+		}
+
+		this.stats.hits++;
+		const details: PRDetails = {
+			reviews: entry.reviews.map((r) => ({
+				prNumber,
+				submittedAt: new Date(r.submittedAt),
+				author: r.author,
+				state: r.state,
+				commentCount: r.commentCount,
+			})),
+			additions: entry.additions,
+			deletions: entry.deletions,
+			draftEvents: entry.draftEvents.map((e) => ({ type: e.type, createdAt: new Date(e.createdAt) })),
+		};
+		if (entry.firstCommitDate !== undefined) {
+			details.firstCommitDate = entry.firstCommitDate ? new Date(entry.firstCommitDate) : null;
+		}
+		this.live.set(prNumber, { updatedAt, details });
+		return details;
+	}
+
+	/**
+	 * Record freshly fetched details. The object is kept by reference so
+	 * fields filled in later (e.g. first commit date) are saved too.
+	 */
+	set(prNumber: number, updatedAt: Date, details: PRDetails): void {
+		this.live.set(prNumber, { updatedAt, details });
+	}
+
+	/**
+	 * Write the entries used this run, and earlier entries used within the
+	 * retention period
+	 */
+	save(now = new Date()): void {
+		const usedAt = now.toISOString();
+		const cutoff = now.getTime() - CACHE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+		const prs: Record<string, CacheEntry> = {};
+		for (const [prNumber, entry] of this.stored) {
+			if (entry.usedAt && new Date(entry.usedAt).getTime() < cutoff) continue;
+			prs[prNumber] = { ...entry, usedAt: entry.usedAt || usedAt };
+		}
+		for (const [prNumber, { updatedAt, details }] of this.live) {
+			prs[prNumber] = {
+				updatedAt: updatedAt.toISOString(),
+				reviews: details.reviews.map((r) => ({
+					submittedAt: r.submittedAt.toISOString(),
+					author: r.author,
+					state: r.state,
+					commentCount: r.commentCount,
+				})),
+				additions: details.additions,
+				deletions: details.deletions,
+				draftEvents: (details.draftEvents || []).map((e) => ({
+					type: e.type,
+					createdAt: e.createdAt.toISOString(),
+				})),
+				...(details.firstCommitDate !== undefined
+					? { firstCommitDate: details.firstCommitDate ? details.firstCommitDate.toISOString() : null }
+					: {}),
+				usedAt,
+			};
+		}
+
+		const file: CacheFile = { version: CACHE_VERSION, repository: this.repository, prs };
+		fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+		fs.writeFileSync(this.filePath, JSON.stringify(file));
+	}
+
+	getStats(): CacheStats {
+		return { ...this.stats };
+	}
+}
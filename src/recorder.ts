@@ -0,0 +1,202 @@
+/**
+ * API recording and replay
+ *
+ * Record mode saves every GitHub API response a run receives to a fixture
+ * file. Replay mode serves a run entirely from such a file with no network
+ * access, so a surprising health card can be reproduced offline.
+ */
+
+import * as fs from 'fs';
+import type { HistoryConfig } from './history';
+import type { CycleTimeStart } from './metrics';
+import type { PeriodMode } from './periods';
+import type { PeriodSourceConfig } from './period-source';
+
+// Bump when the fixture shape changes
+const RECORDING_VERSION = 1;
+
+// Response headers worth keeping: pagination and rate limit state
+const KEPT_HEADERS = /^(link|retry-after|x-ratelimit-.*|content-type)$/i;
+
+export interface RecordingMeta {
+	repository: string;
+	periodStart: string;
+	periodEnd: string;
+	sprintLengthDays: number;
+	periodMode?: PeriodMode;
+	periodLabel?: string;
+	previousPeriodStart?: string;
+	previousPeriodEnd?: string;
+	previousPeriodDays?: number;
+	periodSource?: PeriodSourceConfig;
+	timezone?: string;
+	repositories?: string[];
+	repositoryTopic?: string;
+	comparePrevious?: boolean;
+	cycleTimeStart?: CycleTimeStart;
+	history?: HistoryConfig;
+}
+
+interface RecordedResponse {
+	status: number;
+	headers: Record<string, string>;
+	data?: unknown;
+	// Set when the request failed; replay re-throws it
+	error?: string;
+}
+
+interface RecordedExchange {
+	key: string;
+	response: RecordedResponse;
+}
+
+interface RecordingFile {
+	version: number;
+	recordedAt: string;
+	meta: RecordingMeta | null;
+	exchanges: RecordedExchange[];
+}
+
+interface OctokitResponseLike {
+	status: number;
+	url?: string;
+	headers: Record<string, string | number | undefined>;
+	data: unknown;
+}
+
+export interface ParsedRequest {
+	method: string;
+	url: string;
+	body?: unknown;
+}
+
+export class ApiRecorder {
+	readonly mode: 'record' | 'replay';
+	private filePath: string;
+	private meta: RecordingMeta | null = null;
+	private exchanges: RecordedExchange[] = [];
+	// Replay: responses per key, served in recorded order
+	private queues = new Map<string, RecordedResponse[]>();
+
+	private constructor(mode: 'record' | 'replay', filePath: string) {
+		this.mode = mode;
+		this.filePath = filePath;
+	}
+
+	static forRecording(filePath: string): ApiRecorder {
+		return new ApiRecorder('record', filePath);
+	}
+
+	static forReplay(filePath: string): ApiRecorder {
+		const recorder = new ApiRecorder('replay', filePath);
+		const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RecordingFile;
+		if (file.version !== RECORDING_VERSION) {
+			throw new Error(`Unsupported recording version ${file.version} in ${filePath}`);
+		}
+		recorder.meta = file.meta;
+		for (const exchange of file.exchanges) {
+			const queue = recorder.queues.get(exchange.key) || [];
+			queue.push(exchange.response);
+			recorder.queues.set(exchange.key, queue);
+		}
+		return recorder;
+	}
+
+	/**
+	 * Store the repository and period alongside the responses, so a
+	 * replay reproduces the same queries
+	 */
+	setMeta(meta: RecordingMeta): void {
+		this.meta = meta;
+	}
+
+	/**
+	 * Octokit request hook: records responses, or serves them on replay
+	 */
+	async handle(
+		send: () => Promise<OctokitResponseLike>,
+		parsed: ParsedRequest
+	): Promise<OctokitResponseLike> {
+		const key = requestKey(parsed);
+
+		if (this.mode === 'replay') {
+			return this.replay(key);
+		}
+
+		try {
+			const response = await send();
+			this.exchanges.push({
+				key,
+				response: { status: response.status, headers: keepHeaders(response.headers), data: response.data },
+			});
+			return response;
+		} catch (error) {
+			const failure = error as { status?: number; message?: string; response?: { headers?: Record<string, string | number | undefined> } };
+			this.exchanges.push({
+				key,
+				response: {
+					status: failure.status || 0,
+					headers: keepHeaders(failure.response?.headers || {}),
+					error: failure.message || String(error),
+				},
+			});
+			throw error;
+		}
+	}
+
+	save(): void {
+		const file: RecordingFile = {
+			version: RECORDING_VERSION,
+			recordedAt: new Date().toISOString(),
+			meta: this.meta,
+			exchanges: this.exchanges,
+		};
+		fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2));
+	}
+
+	private replay(key: string): OctokitResponseLike {
+		const queue = this.queues.get(key);
+		if (!queue || queue.length === 0) {
+			throw Object.assign(new Error(`No recorded response for ${key}`), { status: 404 });
+		}
+
+		// Keep the last response around for requests repeated more often than recorded
+		const recorded = queue.length > 1 ? queue.shift()! : queue[0];
+		if (recorded.error !== undefined) {
+			throw Object.assign(new Error(recorded.error), {
+				status: recorded.status,
+				response: { status: recorded.status, headers: recorded.headers, data: null },
+			});
+		}
+		return { status: recorded.status, headers: recorded.headers, data: recorded.data };
+	}
+}
+
+/**
+ * Read the run metadata from a recording without loading its responses
+ */
+export function readRecordingMeta(filePath: string): RecordingMeta {
+	const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RecordingFile;
+	if (!file.meta) {
+		throw new Error(`Recording ${filePath} has no run metadata`);
+	}
+	return file.meta;
+}
+
+/**
+ * Identify a request by method, URL (including query) and body
+ */
+function requestKey(parsed: ParsedRequest): string {
+	const body = parsed.body === undefined ? '' : ` ${JSON.stringify(parsed.body)}`;
+	return `${parsed.method} ${parsed.url}${body}`;
+}
+
+function keepHeaders(headers: Record<string, string | number | undefined>): Record<string, string> {
+	const kept: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		if (value !== undefined && KEPT_HEADERS.test(name)) {
+			kept[name] = String(value);
+		}
+	}
+	return kept;
+}
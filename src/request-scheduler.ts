@@ -0,0 +1,254 @@
+/**
+ * Request scheduling
+ *
+ * Limits in-flight GitHub API requests, retries transient failures with
+ * jittered backoff, honours rate limit headers and adapts concurrency
+ * to how GitHub is responding.
+ */
+
+export interface RequestStats {
+	requests: number;
+	retries: number;
+	failures: number;
+	concurrency: number;
+	rateLimitRemaining: number | null;
+	rateLimitLimit: number | null;
+	rateLimitReset: Date | null;
+}
+
+export interface SchedulerOptions {
+	maxConcurrency?: number;
+	minConcurrency?: number;
+	maxRetries?: number;
+	baseDelayMs?: number;
+	// Longest we are willing to wait for a rate limit reset before giving up
+	maxWaitMs?: number;
+	sleep?: (ms: number) => Promise<void>;
+}
+
+interface HeaderBag {
+	[name: string]: string | number | undefined;
+}
+
+interface RequestFailure {
+	status?: number;
+	message?: string;
+	response?: { headers?: HeaderBag };
+}
+
+// Successful responses needed before concurrency is raised by one
+const SUCCESSES_PER_STEP = 20;
+
+// Below this share of the hourly quota, drop to minimum concurrency
+const LOW_QUOTA_RATIO = 0.1;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class RequestScheduler {
+	private maxConcurrency: number;
+	private minConcurrency: number;
+	private maxRetries: number;
+	private baseDelayMs: number;
+	private maxWaitMs: number;
+	private sleep: (ms: number) => Promise<void>;
+
+	private concurrency: number;
+	private active = 0;
+	private queue: (() => void)[] = [];
+	private pausedUntil = 0;
+	private successStreak = 0;
+
+	private stats = {
+		requests: 0,
+		retries: 0,
+		failures: 0,
+		rateLimitRemaining: null as number | null,
+		rateLimitLimit: null as number | null,
+		rateLimitReset: null as Date | null,
+	};
+
+	constructor(options: SchedulerOptions = {}) {
+		this.maxConcurrency = options.maxConcurrency ?? 10;
+		this.minConcurrency = options.minConcurrency ?? 1;
+		this.maxRetries = options.maxRetries ?? 3;
+		this.baseDelayMs = options.baseDelayMs ?? 1000;
+		this.maxWaitMs = options.maxWaitMs ?? 15 * 60 * 1000;
+		this.sleep = options.sleep ?? defaultSleep;
+		this.concurrency = this.maxConcurrency;
+	}
+
+	/**
+	 * Run a request within the concurrency limit, retrying transient failures
+	 */
+	async schedule<T extends { headers?: HeaderBag }>(fn: () => Promise<T>): Promise<T> {
+		let attempt = 0;
+
+		while (true) {
+			await this.acquire();
+			this.stats.requests++;
+
+			try {
+				const response = await fn();
+				this.recordHeaders(response.headers);
+				this.onSuccess();
+				return response;
+			} catch (error) {
+				const failure = error as RequestFailure;
+				this.recordHeaders(failure.response?.headers);
+
+				const delay = this.retryDelay(failure, attempt);
+				if (delay === null || attempt >= this.maxRetries) {
+					this.stats.failures++;
+					throw error;
+				}
+
+				attempt++;
+				this.stats.retries++;
+				this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+			} finally {
+				this.release();
+			}
+		}
+	}
+
+	getStats(): RequestStats {
+		return { ...this.stats, concurrency: this.concurrency };
+	}
+
+	getConcurrency(): number {
+		return this.concurrency;
+	}
+
+	/**
+	 * How long to wait before retrying, or null if the error is not transient
+	 */
+	private retryDelay(failure: RequestFailure, attempt: number): number | null {
+		const status = failure.status;
+		const headers = failure.response?.headers || {};
+
+		if (status === 403 || status === 429) {
+			const retryAfter = Number(headers['retry-after']);
+			if (retryAfter > 0) {
+				this.reduceConcurrency();
+				return this.capWait(retryAfter * 1000);
+			}
+
+			if (String(headers['x-ratelimit-remaining']) === '0') {
+				const reset = Number(headers['x-ratelimit-reset']) * 1000;
+				return reset > 0 ? this.capWait(Math.max(0, reset - Date.now()) + 1000) : null;
+			}
+
+			// Secondary (abuse) limits without a retry-after header
+			if (/secondary rate limit|abuse/i.test(failure.message || '')) {
+				this.reduceConcurrency();
+				return this.backoff(attempt + 1);
+			}
+
+			return null;
+		}
+
+		if (status !== undefined && status >= 500) {
+			return this.backoff(attempt);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Exponential backoff with full jitter
+	 */
+	private backoff(attempt: number): number {
+		const ceiling = this.baseDelayMs * 2 ** attempt;
+		return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+	}
+
+	private capWait(ms: number): number | null {
+		return ms <= this.maxWaitMs ? ms : null;
+	}
+
+	private recordHeaders(headers?: HeaderBag): void {
+		if (!headers) return;
+
+		const remaining = headers['x-ratelimit-remaining'];
+		const limit = headers['x-ratelimit-limit'];
+		const reset = headers['x-ratelimit-reset'];
+
+		if (remaining !== undefined) this.stats.rateLimitRemaining = Number(remaining);
+		if (limit !== undefined) this.stats.rateLimitLimit = Number(limit);
+		if (reset !== undefined) this.stats.rateLimitReset = new Date(Number(reset) * 1000);
+
+		const { rateLimitRemaining, rateLimitLimit } = this.stats;
+		if (
+			rateLimitRemaining !== null && rateLimitLimit !== null && rateLimitLimit > 0 &&
+			rateLimitRemaining / rateLimitLimit < LOW_QUOTA_RATIO
+		) {
+			this.concurrency = this.minConcurrency;
+		}
+	}
+
+	/**
+	 * Additive increase: step concurrency back up after a run of successes
+	 */
+	private onSuccess(): void {
+		this.successStreak++;
+		if (this.successStreak >= SUCCESSES_PER_STEP && this.concurrency < this.maxConcurrency) {
+			const { rateLimitRemaining, rateLimitLimit } = this.stats;
+			const quotaLow = rateLimitRemaining !== null && rateLimitLimit !== null &&
+				rateLimitLimit > 0 && rateLimitRemaining / rateLimitLimit < LOW_QUOTA_RATIO;
+			if (!quotaLow) {
+				this.concurrency++;
+			}
+			this.successStreak = 0;
+		}
+	}
+
+	/**
+	 * Multiplicative decrease on rate limiting
+	 */
+	private reduceConcurrency(): void {
+		this.concurrency = Math.max(this.minConcurrency, Math.floor(this.concurrency / 2));
+		this.successStreak = 0;
+	}
+
+	private async acquire(): Promise<void> {
+		while (true) {
+			const wait = this.pausedUntil - Date.now();
+			if (wait > 0) {
+				await this.sleep(wait);
+				continue;
+			}
+			if (this.active < this.concurrency) {
+				this.active++;
+				return;
+			}
+			await new Promise<void>((resolve) => this.queue.push(resolve));
+		}
+	}
+
+	private release(): void {
+		this.active--;
+		const next = this.queue.shift();
+		if (next) next();
+	}
+}
+
+/**
+ * Format request stats as a one-line summary for the run log
+ */
+export function formatRequestStats(stats: RequestStats): string {
+	const parts = [
+		`${stats.requests} requests`,
+		`${stats.retries} retries`,
+	];
+	if (stats.failures > 0) {
+		parts.push(`${stats.failures} failed`);
+	}
+	if (stats.rateLimitRemaining !== null) {
+		const limit = stats.rateLimitLimit !== null ? `/${stats.rateLimitLimit}` : '';
+		const reset = stats.rateLimitReset
+			? ` (resets ${stats.rateLimitReset.toISOString().replace('.000', '')})`
+			: '';
+		parts.push(`${stats.rateLimitRemaining}${limit} quota remaining${reset}`);
+	}
+	return parts.join(', ');
+}
@@ -0,0 +1,154 @@
+/**
+ * Threshold presets
+ *
+ * Named sets of warning and critical thresholds for common team contexts,
+ * so a team can start from one instead of picking every value. Any
+ * threshold input still overrides the preset's value.
+ */
+
+import type { Thresholds } from './config';
+
+export type ThresholdPreset = 'startup' | 'enterprise' | 'open-source' | 'platform-team' | 'dora-elite';
+
+export const THRESHOLD_PRESET_NAMES: ThresholdPreset[] = ['startup', 'enterprise', 'open-source', 'platform-team', 'dora-elite'];
+
+export interface ThresholdPresetDefinition {
+	// Shown in the card footer, e.g. "tuned for approval-heavy teams with scheduled releases"
+	description: string;
+	thresholds: Thresholds;
+}
+
+/**
+ * Used without a preset
+ */
+export const DEFAULT_THRESHOLDS: Thresholds = {
+	cycleTimeWarningHours: 72,
+	cycleTimeCriticalHours: 168,
+	reviewWarningHours: 24,
+	reviewCriticalHours: 48,
+	wipWarningRatio: 2,
+	wipCriticalRatio: 3,
+	concentrationWarning: 0.6,
+	concentrationCritical: 0.75,
+	reviewDepthWarning: 0.5,
+	reviewDepthCritical: 0.2,
+	prSizeWarning: 400,
+	prSizeCritical: 1000,
+	buildSuccessWarning: 90,
+	buildSuccessCritical: 75,
+	leadTimeWarningHours: 168,
+	leadTimeCriticalHours: 336,
+	shipFrequencyWarningPerWeek: 1,
+	shipFrequencyCriticalPerWeek: 0.25,
+};
+
+export const THRESHOLD_PRESETS: Record<ThresholdPreset, ThresholdPresetDefinition> = {
+	// Small teams shipping often, where one or two people review most PRs
+	startup: {
+		description: 'tuned for small teams that ship several times a week',
+		thresholds: {
+			...DEFAULT_THRESHOLDS,
+			cycleTimeWarningHours: 48,
+			cycleTimeCriticalHours: 120,
+			reviewWarningHours: 8,
+			reviewCriticalHours: 24,
+			concentrationWarning: 0.7,
+			concentrationCritical: 0.85,
+			reviewDepthWarning: 0.3,
+			reviewDepthCritical: 0.1,
+			buildSuccessWarning: 85,
+			buildSuccessCritical: 70,
+			leadTimeWarningHours: 72,
+			leadTimeCriticalHours: 168,
+			shipFrequencyWarningPerWeek: 3,
+			shipFrequencyCriticalPerWeek: 1,
+		},
+	},
+	// Approvals, change windows and scheduled releases
+	enterprise: {
+		description: 'tuned for approval-heavy teams with scheduled releases',
+		thresholds: {
+			...DEFAULT_THRESHOLDS,
+			cycleTimeWarningHours: 120,
+			cycleTimeCriticalHours: 240,
+			reviewWarningHours: 48,
+			reviewCriticalHours: 96,
+			wipWarningRatio: 2.5,
+			wipCriticalRatio: 4,
+			concentrationWarning: 0.5,
+			concentrationCritical: 0.7,
+			reviewDepthWarning: 0.8,
+			reviewDepthCritical: 0.4,
+			prSizeWarning: 600,
+			prSizeCritical: 1500,
+			leadTimeWarningHours: 336,
+			leadTimeCriticalHours: 720,
+			shipFrequencyWarningPerWeek: 0.5,
+			shipFrequencyCriticalPerWeek: 0.2,
+		},
+	},
+	// Volunteer maintainers reviewing asynchronously across timezones
+	'open-source': {
+		description: 'tuned for volunteer maintainers reviewing across timezones',
+		thresholds: {
+			...DEFAULT_THRESHOLDS,
+			cycleTimeWarningHours: 168,
+			cycleTimeCriticalHours: 504,
+			reviewWarningHours: 72,
+			reviewCriticalHours: 168,
+			wipWarningRatio: 3,
+			wipCriticalRatio: 5,
+			concentrationWarning: 0.7,
+			concentrationCritical: 0.9,
+			prSizeWarning: 500,
+			prSizeCritical: 1500,
+			buildSuccessWarning: 85,
+			buildSuccessCritical: 70,
+			leadTimeWarningHours: 336,
+			leadTimeCriticalHours: 1008,
+			shipFrequencyWarningPerWeek: 0.5,
+			shipFrequencyCriticalPerWeek: 0.1,
+		},
+	},
+	// Infrastructure changes: careful reviews, small diffs, reliable builds
+	'platform-team': {
+		description: 'tuned for infrastructure teams where changes need careful review',
+		thresholds: {
+			...DEFAULT_THRESHOLDS,
+			cycleTimeWarningHours: 96,
+			cycleTimeCriticalHours: 192,
+			concentrationWarning: 0.5,
+			concentrationCritical: 0.7,
+			reviewDepthWarning: 1,
+			reviewDepthCritical: 0.5,
+			prSizeWarning: 300,
+			prSizeCritical: 800,
+			buildSuccessWarning: 95,
+			buildSuccessCritical: 85,
+			shipFrequencyCriticalPerWeek: 0.5,
+		},
+	},
+	// DORA elite performers: on-demand deploys, lead time under a day
+	'dora-elite': {
+		description: 'DORA elite performance: daily deploys and lead time under a day',
+		thresholds: {
+			...DEFAULT_THRESHOLDS,
+			cycleTimeWarningHours: 24,
+			cycleTimeCriticalHours: 72,
+			reviewWarningHours: 4,
+			reviewCriticalHours: 12,
+			wipWarningRatio: 1.5,
+			wipCriticalRatio: 2.5,
+			concentrationWarning: 0.5,
+			concentrationCritical: 0.7,
+			prSizeWarning: 200,
+			prSizeCritical: 400,
+			buildSuccessWarning: 95,
+			buildSuccessCritical: 90,
+			leadTimeWarningHours: 24,
+			leadTimeCriticalHours: 168,
+			shipFrequencyWarningPerWeek: 7,
+			shipFrequencyCriticalPerWeek: 1,
+		},
+	},
+};
@@ -0,0 +1,116 @@
+/**
+ * Timezones
+ *
+ * Calendar dates and wall-clock times in an IANA timezone, for period
+ * boundaries, working hours and the dates shown on the card. A local date
+ * is represented as UTC midnight of that date, so date arithmetic stays
+ * in whole days.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Formatting is the slow part of timezone math, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * The calendar date of an instant in a timezone, as UTC midnight of that date
+ */
+export function localDate(date: Date, timezone: string): Date {
+	const parts = localParts(date, timezone);
+	return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+}
+
+/**
+ * The wall-clock time of an instant in a timezone, read as if it were UTC
+ */
+export function wallClock(date: Date, timezone: string): Date {
+	return new Date(date.getTime() + offsetMs(date, timezone));
+}
+
+/**
+ * The instant (ms) at a wall-clock minute of a local date in a timezone,
+ * correcting once for a DST change between the guess and the result
+ */
+export function zonedTime(day: Date, minute: number, timezone: string): number {
+	const wallClock = day.getTime() + minute * 60 * 1000;
+	const guess = wallClock - offsetMs(new Date(wallClock), timezone);
+	return wallClock - offsetMs(new Date(guess), timezone);
+}
+
+/**
+ * The instant a local date starts (local midnight)
+ */
+export function startOfLocalDay(day: Date, timezone: string): Date {
+	return new Date(zonedTime(day, 0, timezone));
+}
+
+/**
+ * The last millisecond of a local date
+ */
+export function endOfLocalDay(day: Date, timezone: string): Date {
+	return new Date(zonedTime(new Date(day.getTime() + MS_PER_DAY), 0, timezone) - 1);
+}
+
+/**
+ * YYYY-MM-DD of an instant in a timezone
+ */
+export function isoDateIn(date: Date, timezone: string): string {
+	return localDate(date, timezone).toISOString().split('T')[0];
+}
+
+/**
+ * e.g. "Jan 6"
+ */
+export function formatDay(date: Date, timezone: string): string {
+	return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: timezone });
+}
+
+/**
+ * e.g. "Jan 6 – Jan 19"
+ */
+export function formatDateRange(start: Date, end: Date, timezone: string): string {
+	return `${formatDay(start, timezone)} – ${formatDay(end, timezone)}`;
+}
+
+/**
+ * How far the timezone's wall clock is ahead of UTC at an instant
+ */
+function offsetMs(date: Date, timezone: string): number {
+	const p = localParts(date, timezone);
+	const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+	return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function localParts(date: Date, timezone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+	let formatter = formatters.get(timezone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		});
+		formatters.set(timezone, formatter);
+	}
+
+	const parts = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+	for (const part of formatter.formatToParts(date)) {
+		if (part.type in parts) {
+			parts[part.type as keyof typeof parts] = parseInt(part.value, 10);
+		}
+	}
+	return parts;
+}
@@ -0,0 +1,113 @@
+/**
+ * Working time
+ *
+ * Measures durations against a team's working calendar (working days,
+ * daily hours and holidays in the team's timezone) instead of the wall
+ * clock, so a PR opened Friday evening and reviewed Monday morning doesn't
+ * look like a two-and-a-half day wait.
+ */
+
+import { localDate, zonedTime } from './timezone';
+
+export interface WorkingCalendar {
+	// Days of the week counted as working days (0 = Sunday … 6 = Saturday)
+	workingDays: number[];
+	// Working hours each day, as minutes after local midnight
+	startMinute: number;
+	endMinute: number;
+	// IANA timezone the days and hours are in, e.g. Europe/Berlin
+	timezone: string;
+	// Days off (YYYY-MM-DD, local dates) on top of non-working weekdays
+	holidays: string[];
+}
+
+export const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+const holidaySets = new WeakMap<WorkingCalendar, Set<string>>();
+
+/**
+ * Hours of working time between two instants (0 if `to` is not after `from`)
+ */
+export function workingHoursBetween(from: Date, to: Date, calendar: WorkingCalendar): number {
+	if (to.getTime() <= from.getTime()) return 0;
+
+	const holidays = holidaySet(calendar);
+	let total = 0;
+	let day = localDate(from, calendar.timezone);
+	const last = localDate(to, calendar.timezone);
+	while (day.getTime() <= last.getTime()) {
+		if (calendar.workingDays.includes(day.getUTCDay()) && !holidays.has(isoDate(day))) {
+			const start = zonedTime(day, calendar.startMinute, calendar.timezone);
+			const end = zonedTime(day, calendar.endMinute, calendar.timezone);
+			const overlap = Math.min(end, to.getTime()) - Math.max(start, from.getTime());
+			if (overlap > 0) total += overlap;
+		}
+		day = new Date(day.getTime() + 24 * MS_PER_HOUR);
+	}
+	return total / MS_PER_HOUR;
+}
+
+/**
+ * Number of holidays on the local dates from `start` to `end` that fall
+ * on working days (a holiday on a day off takes nothing away)
+ */
+export function holidaysBetween(start: Date, end: Date, calendar: WorkingCalendar): number {
+	const first = isoDate(localDate(start, calendar.timezone));
+	const last = isoDate(localDate(end, calendar.timezone));
+	return calendar.holidays.filter((date) => date >= first && date <= last &&
+		calendar.workingDays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())).length;
+}
+
+/**
+ * Every hour of every day counts (only holidays are skipped), so durations
+ * are wall-clock hours apart from the days off
+ */
+export function isAroundTheClock(calendar: WorkingCalendar): boolean {
+	return calendar.workingDays.length === 7 && calendar.startMinute === 0 && calendar.endMinute === 24 * 60;
+}
+
+/**
+ * Length of one working day in hours
+ */
+export function workingHoursPerDay(calendar: WorkingCalendar): number {
+	return (calendar.endMinute - calendar.startMinute) / 60;
+}
+
+/**
+ * e.g. "Mon–Fri 09:00–17:00 (Europe/Berlin)"
+ */
+export function describeWorkingCalendar(calendar: WorkingCalendar): string {
+	return `${describeDays(calendar.workingDays)} ${formatMinute(calendar.startMinute)}–${formatMinute(calendar.endMinute)} (${calendar.timezone})`;
+}
+
+function holidaySet(calendar: WorkingCalendar): Set<string> {
+	let set = holidaySets.get(calendar);
+	if (!set) {
+		set = new Set(calendar.holidays);
+		holidaySets.set(calendar, set);
+	}
+	return set;
+}
+
+function isoDate(day: Date): string {
+	return day.toISOString().split('T')[0];
+}
+
+/**
+ * "Mon–Fri" for a consecutive run, otherwise "Mon, Wed, Fri"
+ */
+function describeDays(days: number[]): string {
+	const sorted = [...days].sort((a, b) => a - b);
+	const name = (d: number) => DAY_NAMES[d][0].toUpperCase() + DAY_NAMES[d].slice(1);
+	const consecutive = sorted.every((d, i) => i === 0 || d === sorted[i - 1] + 1);
+	if (consecutive && sorted.length > 2) {
+		return `${name(sorted[0])}–${name(sorted[sorted.length - 1])}`;
+	}
+	return sorted.map(name).join(', ');
+}
+
+function formatMinute(minute: number): string {
+	return `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+}